@@ -0,0 +1,77 @@
+/**
+ * expo-sqlite for Jest
+ *
+ * The async database API the app uses, backed by an in-memory sql.js
+ * (SQLite compiled to WebAssembly) database. Every openDatabaseAsync call
+ * opens a new, empty database; deserializeDatabaseAsync opens a copy of the
+ * given database file.
+ */
+
+const initSqlJs = require('sql.js');
+
+class MockSQLiteDatabase {
+  constructor(db) {
+    this.db = db;
+  }
+
+  async execAsync(sql) {
+    this.db.exec(sql);
+  }
+
+  async runAsync(sql, ...params) {
+    this.db.run(sql, params);
+    const changes = this.db.getRowsModified();
+    const [lastInsertRowId] = this.db.exec('SELECT last_insert_rowid()')[0].values[0];
+    return { lastInsertRowId: Number(lastInsertRowId), changes };
+  }
+
+  async getAllAsync(sql, ...params) {
+    const statement = this.db.prepare(sql);
+    try {
+      statement.bind(params);
+      const rows = [];
+      while (statement.step()) {
+        rows.push(statement.getAsObject());
+      }
+      return rows;
+    } finally {
+      statement.free();
+    }
+  }
+
+  async getFirstAsync(sql, ...params) {
+    const [first] = await this.getAllAsync(sql, ...params);
+    return first ?? null;
+  }
+
+  async serializeAsync() {
+    return this.db.export();
+  }
+
+  async closeAsync() {
+    this.db.close();
+  }
+
+  async withTransactionAsync(task) {
+    this.db.exec('BEGIN');
+    try {
+      await task();
+      this.db.exec('COMMIT');
+    } catch (error) {
+      this.db.exec('ROLLBACK');
+      throw error;
+    }
+  }
+}
+
+async function openDatabaseAsync(_name) {
+  const SQL = await initSqlJs();
+  return new MockSQLiteDatabase(new SQL.Database());
+}
+
+async function deserializeDatabaseAsync(data) {
+  const SQL = await initSqlJs();
+  return new MockSQLiteDatabase(new SQL.Database(data));
+}
+
+module.exports = { openDatabaseAsync, deserializeDatabaseAsync };
@@ -1,9 +1,13 @@
 import { Slot } from 'expo-router';
 import { useEffect } from 'react';
+import { AppState } from 'react-native';
 import { useAuthStore } from '../src/store/useAuthStore';
+import { useWordsStore } from '../src/store/useWordsStore';
+import { syncEngine } from '../src/services/local/sync';
 
 export default function RootLayout() {
   const initialize = useAuthStore((state) => state.initialize);
+  const userId = useAuthStore((state) => state.user?.id);
 
   useEffect(() => {
     // Initialize auth in the background, don't block rendering
@@ -12,5 +16,25 @@ export default function RootLayout() {
     });
   }, []);
 
+  useEffect(() => {
+    // Keep the local database in sync while signed in
+    if (!userId) return;
+    return syncEngine.startAutoSync(userId);
+  }, [userId]);
+
+  useEffect(() => {
+    // Retry definition lookups that failed earlier, on launch and on foreground
+    if (!userId) return;
+    const retryDefinitions = useWordsStore.getState().retryDefinitions;
+    retryDefinitions();
+
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        retryDefinitions();
+      }
+    });
+    return () => subscription.remove();
+  }, [userId]);
+
   return <Slot />;
 }
@@ -16,26 +16,92 @@ import ClueList from '../src/components/ClueList';
 import { usePuzzleStore } from '../src/store/usePuzzleStore';
 import { useAuthStore } from '../src/store/useAuthStore';
 import { useWordsStore } from '../src/store/useWordsStore';
+import { useLearningStore } from '../src/store/useLearningStore';
+import { embeddingsService } from '../src/services/supabase/embeddings';
+import { wordsService } from '../src/services/supabase/words';
 import { generatePuzzleForApp } from '../src/utils/crosswordExamples';
-import { WordInput } from '../src/utils/crosswordGenerator';
+import { PlacedWord, RejectedWord, WordInput } from '../src/utils/crosswordGenerator';
+import { toAnswer } from '../src/utils/crosswordEntry';
+import { fixClueLeaks } from '../src/utils/clueLeaks';
+import { createRng, randomSeed, shuffle } from '../src/utils/random';
+import { Word as UserWord } from '../src/types';
+import { primarySense } from '@shared/definitions/senses';
+import { deriveClues, pickClue } from '@shared/clues/clueDerivation';
 
 interface Word {
   number: number;
   clue: string;
   answer: string;
+  enumeration?: string;
   startRow: number;
   startCol: number;
   direction: 'across' | 'down';
 }
 
+// Clue difficulty (1-10) for each puzzle difficulty
+const CLUE_DIFFICULTY = { easy: 3, medium: 5, hard: 7 };
+
+// Layouts the grid button cycles through: free-form (0), then N×N grids
+// completed with filler words
+const GRID_SIZES = [0, 5, 7, 9, 15];
+
+// Words a themed puzzle picks its cluster from, as in generate-puzzle
+const THEME_CANDIDATES = 200;
+
+// Clue variants derived from the sense the user chose to learn; none
+// contains the answer
+const clueVariants = (word: UserWord) => {
+  const sense = primarySense(word);
+  return deriveClues({
+    word: word.word,
+    definition: sense?.definition || word.fetched_definition || word.definition || word.custom_definition,
+    part_of_speech: sense?.part_of_speech,
+    usage_example: sense?.example,
+  });
+};
+
+// Convert a user word to the generator's WordInput format. Words saved as
+// their lemma may also be placed in the form they were read in, whichever
+// fits the grid better. Phrases and accents are normalized by the generator
+// ("ad hoc" → ADHOC (2,3)).
+const toWordInput = (word: UserWord, clueDifficulty: number): WordInput => {
+  const clue = pickClue(clueVariants(word), clueDifficulty);
+
+  return {
+    word: word.word,
+    forms: word.import_context?.original_form ? [String(word.import_context.original_form)] : undefined,
+    clue: clue?.clue_text || `Word from your list starting with "${word.word.trim().charAt(0).toUpperCase()}"`,
+  };
+};
+
+// Words outside 3-15 letters are left out and reported with the puzzle. Words
+// that can't be normalized at all are passed on so the generator reports them.
+const splitWordInputs = (inputs: WordInput[]) => {
+  const usable: WordInput[] = [];
+  const rejected: RejectedWord[] = [];
+  for (const input of inputs) {
+    const length = toAnswer(input.word).length;
+    if (length === 0 || (length >= 3 && length <= 15)) {
+      usable.push(input);
+    } else {
+      rejected.push({ word: input.word, reason: 'Needs 3-15 letters' });
+    }
+  }
+  return { usable, rejected };
+};
+
 export default function PuzzleScreen() {
   const router = useRouter();
   const { user } = useAuthStore();
   const { words, fetchWords } = useWordsStore();
+  const { getWordsDue } = useLearningStore();
   const [showClues, setShowClues] = useState(false);
   const [activeClue, setActiveClue] = useState<number | null>(null);
   const [loading, setLoading] = useState(true);
   const [difficulty, setDifficulty] = useState<'easy' | 'medium' | 'hard'>('medium');
+  const [reviewMode, setReviewMode] = useState(false);
+  const [themedMode, setThemedMode] = useState(false);
+  const [gridSize, setGridSize] = useState(0);
 
   const [puzzle, setPuzzle] = useState<{
     id: string;
@@ -43,13 +109,18 @@ export default function PuzzleScreen() {
     words: Word[];
     title: string;
     difficulty: number;
+    rejectedWords: RejectedWord[];
   } | null>(null);
 
   useEffect(() => {
     loadPuzzleData();
   }, []);
 
-  const loadPuzzleData = async () => {
+  const loadPuzzleData = async (
+    review: boolean = reviewMode,
+    themed: boolean = themedMode,
+    size: number = gridSize
+  ) => {
     try {
       setLoading(true);
       
@@ -94,15 +165,18 @@ export default function PuzzleScreen() {
       }
 
       // Convert user words to WordInput format for generator
-      const vocabularyWords: WordInput[] = filteredWords.map(word => ({
-        word: word.word.toUpperCase().replace(/[^A-Z]/g, ''), // Remove special chars
-        clue: word.fetched_definition || word.definition || word.custom_definition || `Define: ${word.word}`,
-      })).filter(w => w.word.length >= 3 && w.word.length <= 15); // Filter valid words
+      const clueDifficulty = CLUE_DIFFICULTY[difficulty];
+      const { usable: vocabularyWords, rejected: wrongLengthWords } = splitWordInputs(
+        filteredWords.map((w) => toWordInput(w, clueDifficulty))
+      );
 
       if (vocabularyWords.length < 5) {
+        const leftOut = wrongLengthWords.length
+          ? ` Left out: ${wrongLengthWords.map((r) => `${r.word} (${r.reason})`).join(', ')}.`
+          : '';
         Alert.alert(
           'Need More Words',
-          `You need at least 5 words to generate a puzzle. You have ${vocabularyWords.length} valid words. Add more words to your vocabulary!`,
+          `You need at least 5 words to generate a puzzle. You have ${vocabularyWords.length} valid words.${leftOut} Add more words to your vocabulary!`,
           [
             { text: 'Add Words', onPress: () => router.push('/words') },
             { text: 'Cancel', style: 'cancel' },
@@ -116,21 +190,66 @@ export default function PuzzleScreen() {
       
       // Determine max words based on difficulty
       const maxWords = difficulty === 'easy' ? 6 : difficulty === 'medium' ? 10 : 15;
+
+      // Review mode builds the puzzle from words due for review, most overdue first
+      let dueWords: WordInput[] | undefined;
+      if (review) {
+        const due = splitWordInputs((await getWordsDue()).map((w) => toWordInput(w, clueDifficulty)));
+        dueWords = due.usable;
+        for (const rejected of due.rejected) {
+          if (!wrongLengthWords.some((r) => r.word === rejected.word)) wrongLengthWords.push(rejected);
+        }
+        console.log(`[Puzzle] ${dueWords.length} words due for review`);
+        if (dueWords.length === 0) {
+          Alert.alert('Nothing Due', 'No words are due for review right now. Here is a regular puzzle instead.');
+        }
+      }
       
+      // The seed reproduces this exact puzzle
+      const seed = randomSeed();
+      console.log(`[Puzzle] Using seed ${seed}`);
+
+      // Themed mode groups related words by the embeddings of their
+      // definitions, among a sample of the words
+      const themeCandidates = shuffle(filteredWords, createRng(seed)).slice(0, THEME_CANDIDATES);
+      const themeVectors = themed && !dueWords?.length
+        ? await embeddingsService.vectorsFor(themeCandidates)
+        : undefined;
+
       // Generate puzzle using the algorithm
-      const generatedPuzzle = generatePuzzleForApp(vocabularyWords, {
+      const generatedPuzzle = await generatePuzzleForApp(vocabularyWords, {
         difficulty,
         maxWords,
+        seed,
+        dueWords,
+        themeVectors,
+        layout: size ? 'fixed' : 'freeform',
+        gridSize: size || undefined,
+        fillerClues: (answers) => wordsService.fillerClues(answers, clueDifficulty),
       });
 
       if (generatedPuzzle) {
         console.log('[Puzzle] Successfully generated puzzle with', generatedPuzzle.words.length, 'words');
+
+        // A clue may still name another answer of the puzzle; swap it for
+        // another variant of the word's clue, or mask the answer
+        const userWordsByAnswer = new Map(words.map((w) => [toAnswer(w.word), w]));
+        const clueVariantsOf = (placed: PlacedWord) => {
+          const userWord = userWordsByAnswer.get(placed.word);
+          return userWord ? clueVariants(userWord).map((c) => ({ ...placed, clue: c.clue_text })) : [];
+        };
+
         setPuzzle({
-          id: `generated-${Date.now()}`,
+          id: `generated-${seed}`,
           size: generatedPuzzle.size,
-          title: 'Vocabulary Practice',
+          title: review && dueWords?.length
+            ? 'Review'
+            : generatedPuzzle.theme
+              ? `Theme: ${generatedPuzzle.theme}`
+              : 'Vocabulary Practice',
           difficulty: 3,
-          words: generatedPuzzle.words,
+          words: fixClueLeaks(generatedPuzzle.words, clueVariantsOf),
+          rejectedWords: [...wrongLengthWords, ...(generatedPuzzle.rejectedWords || [])],
         });
       } else {
         console.error('[Puzzle] Failed to generate puzzle');
@@ -259,9 +378,33 @@ export default function PuzzleScreen() {
             </Text>
           </Pressable>
         </View>
-        <Pressable onPress={loadPuzzleData} style={styles.refreshButton}>
-          <Text style={styles.refreshButtonText}>🔄 New Puzzle</Text>
-        </Pressable>
+        <View style={styles.headerActions}>
+          <Pressable onPress={() => loadPuzzleData()} style={styles.refreshButton}>
+            <Text style={styles.refreshButtonText}>🔄 New Puzzle</Text>
+          </Pressable>
+          <Pressable
+            onPress={() => { setReviewMode(!reviewMode); loadPuzzleData(!reviewMode); }}
+            style={[styles.refreshButton, reviewMode && styles.reviewButtonActive]}
+          >
+            <Text style={styles.refreshButtonText}>📅 Review</Text>
+          </Pressable>
+          <Pressable
+            onPress={() => { setThemedMode(!themedMode); loadPuzzleData(reviewMode, !themedMode); }}
+            style={[styles.refreshButton, themedMode && styles.reviewButtonActive]}
+          >
+            <Text style={styles.refreshButtonText}>🧩 Themed</Text>
+          </Pressable>
+          <Pressable
+            onPress={() => {
+              const next = GRID_SIZES[(GRID_SIZES.indexOf(gridSize) + 1) % GRID_SIZES.length];
+              setGridSize(next);
+              loadPuzzleData(reviewMode, themedMode, next);
+            }}
+            style={[styles.refreshButton, gridSize > 0 && styles.reviewButtonActive]}
+          >
+            <Text style={styles.refreshButtonText}>▦ {gridSize ? `${gridSize}×${gridSize}` : 'Free'}</Text>
+          </Pressable>
+        </View>
       </LinearGradient>
 
       <View style={styles.content}>
@@ -285,6 +428,12 @@ export default function PuzzleScreen() {
         )}
       </View>
 
+      {puzzle.rejectedWords.length > 0 && (
+        <Text style={styles.rejectedNotice}>
+          Left out: {puzzle.rejectedWords.map((r) => `${r.word} (${r.reason})`).join(', ')}
+        </Text>
+      )}
+
       {/* Stats Footer */}
       <View style={styles.footer}>
         <View style={styles.stat}>
@@ -372,6 +521,11 @@ const styles = StyleSheet.create({
   difficultyButtonTextActive: {
     color: '#667eea',
   },
+  headerActions: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 8,
+  },
   refreshButton: {
     backgroundColor: 'rgba(255, 255, 255, 0.2)',
     paddingHorizontal: 16,
@@ -380,6 +534,9 @@ const styles = StyleSheet.create({
     marginTop: 12,
     alignSelf: 'center',
   },
+  reviewButtonActive: {
+    backgroundColor: 'rgba(255, 255, 255, 0.45)',
+  },
   refreshButtonText: {
     color: '#fff',
     fontSize: 14,
@@ -466,4 +623,11 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: '#111827',
   },
+  rejectedNotice: {
+    fontSize: 12,
+    color: '#92400E',
+    backgroundColor: '#FEF3C7',
+    paddingVertical: 8,
+    paddingHorizontal: 20,
+  },
 });
@@ -18,13 +18,50 @@ import { useRouter } from 'expo-router';
 import { LinearGradient } from 'expo-linear-gradient';
 import { useWordsStore } from '../src/store/useWordsStore';
 import { useAuthStore } from '../src/store/useAuthStore';
-import { Word } from '../src/types';
+import { BulkImportResult, ImportWord, Word, WordSense, WordSource } from '../src/types';
+import { buildImportPreview, buildImportReport, ImportPreview } from '../src/services/import/preview';
+import { pickImportFile, readTextFile } from '../src/services/import/files';
+import { readKindleVocabFile } from '../src/services/import/kindle';
+import { readKoboWordListFile } from '../src/services/import/kobo';
+import { readAnkiPackage } from '../src/services/import/anki';
+import { needsDefinition } from '../src/services/supabase/words';
+import {
+  applyColumnMapping,
+  ColumnMapping,
+  guessColumnMapping,
+  InvalidRow,
+  invalidWordReason,
+  ParsedTable,
+  readDelimitedTable,
+} from '../src/services/import/delimited';
 import Animated, {
   FadeInRight,
   FadeOutLeft,
   Layout,
 } from 'react-native-reanimated';
 
+// Preview rows rendered at once; large vocab.db files can hold thousands of words
+const PREVIEW_LIMIT = 200;
+
+const EREADER_READERS = {
+  kindle: readKindleVocabFile,
+  kobo: readKoboWordListFile,
+};
+
+const MAPPING_FIELDS: { key: keyof ColumnMapping; label: string; optional: boolean }[] = [
+  { key: 'word', label: 'Word', optional: false },
+  { key: 'definition', label: 'Definition', optional: true },
+  { key: 'tags', label: 'Tags', optional: true },
+];
+
+const REPORT_LABELS: Record<BulkImportResult['status'], string> = {
+  imported: 'Imported',
+  updated: 'Updated',
+  duplicate: 'Duplicate',
+  invalid: 'Invalid',
+  failed: 'Failed',
+};
+
 interface WordItemProps {
   word: Word;
   onPress: () => void;
@@ -43,7 +80,9 @@ const WordItem: React.FC<WordItemProps> = ({ word, onPress, onDelete, onToggleMa
   if (!word.custom_definition) {
     if (word.fetch_status === 'pending') {
       definition = '⏳ Fetching definition...';
-    } else if (word.fetch_status === 'failed' || word.fetch_status === 'not_found') {
+    } else if (word.fetch_status === 'failed') {
+      definition = '⚠️ Lookup failed, will retry. Tap to add custom definition.';
+    } else if (word.fetch_status === 'not_found') {
       definition = '❌ Definition not found. Tap to add custom definition.';
     }
   }
@@ -88,9 +127,22 @@ const WordItem: React.FC<WordItemProps> = ({ word, onPress, onDelete, onToggleMa
 export default function WordsScreen() {
   const router = useRouter();
   const { user } = useAuthStore();
-  const { words, loading, fetchWords, addWord, updateWord, deleteWord } = useWordsStore();
+  const {
+    words,
+    loading,
+    fetchWords,
+    addWord,
+    updateWord,
+    deleteWord,
+    bulkImport,
+    exportWords,
+    selectSense,
+    suggestLemma,
+    importProgress,
+  } = useWordsStore();
   
   const [searchQuery, setSearchQuery] = useState('');
+  const [showNeedsDefinition, setShowNeedsDefinition] = useState(false);
   const [showAddModal, setShowAddModal] = useState(false);
   const [showBulkImportModal, setShowBulkImportModal] = useState(false);
   const [editingWord, setEditingWord] = useState<any>(null);
@@ -100,7 +152,18 @@ export default function WordsScreen() {
   const [newWord, setNewWord] = useState('');
   const [newDefinition, setNewDefinition] = useState('');
   const [customNotes, setCustomNotes] = useState('');
+  const [selectedSense, setSelectedSense] = useState(0);
   const [bulkImportText, setBulkImportText] = useState('');
+  const [importMapping, setImportMapping] = useState<{
+    fileName: string;
+    table: ParsedTable;
+    mapping: ColumnMapping;
+  } | null>(null);
+  const [importPreview, setImportPreview] = useState<{
+    source: WordSource;
+    preview: ImportPreview;
+  } | null>(null);
+  const [importReport, setImportReport] = useState<BulkImportResult[] | null>(null);
 
   useEffect(() => {
     if (user) {
@@ -132,40 +195,67 @@ export default function WordsScreen() {
     try {
       if (editingWord) {
         // Update existing word
+        if (selectedSense !== (editingWord.primary_sense ?? 0)) {
+          await selectSense(editingWord.id, selectedSense);
+        }
         await updateWord(editingWord.id, {
           word: newWord.trim(),
           custom_definition: customNotes.trim() || undefined,
         });
         Alert.alert('Success', 'Word updated!');
+        resetForm();
       } else {
-        // Add new word - definition will be fetched automatically
-        await addWord({
-          word: newWord.trim(),
-          custom_definition: customNotes.trim() || undefined,
-          status: 'learning',
-          mastery_level: 0,
-          source: 'manual',
-        });
-        Alert.alert('Success', 'Word added! Definition is being fetched...');
+        // Inflected forms ("obfuscated") are offered as their lemma first
+        const wordText = newWord.trim();
+        const lemma = await suggestLemma(wordText);
+        if (lemma) {
+          Alert.alert('Add the base form?', `"${wordText}" looks like a form of "${lemma}".`, [
+            { text: `Keep "${wordText}"`, onPress: () => saveNewWord(wordText, undefined, false) },
+            { text: `Add "${lemma}"`, onPress: () => saveNewWord(lemma, wordText) },
+          ]);
+        } else {
+          await saveNewWord(wordText);
+        }
       }
+    } catch (error) {
+      console.error('[Words] Failed to save word:', error);
+      Alert.alert('Error', 'Failed to save word');
+    }
+  };
 
-      // Reset form
-      setNewWord('');
-      setNewDefinition('');
-      setCustomNotes('');
-      setEditingWord(null);
-      setShowAddModal(false);
+  // Add new word - definition will be fetched automatically
+  const saveNewWord = async (wordText: string, originalForm?: string, useLemmas = true) => {
+    try {
+      await addWord({
+        word: wordText,
+        custom_definition: customNotes.trim() || undefined,
+        status: 'learning',
+        mastery_level: 0,
+        source: 'manual',
+        import_context: originalForm ? { original_form: originalForm } : undefined,
+      }, { useLemmas });
+      Alert.alert('Success', 'Word added! Definition is being fetched...');
+      resetForm();
     } catch (error) {
       console.error('[Words] Failed to save word:', error);
       Alert.alert('Error', 'Failed to save word');
     }
   };
 
+  const resetForm = () => {
+    setNewWord('');
+    setNewDefinition('');
+    setCustomNotes('');
+    setEditingWord(null);
+    setShowAddModal(false);
+  };
+
   const handleEditWord = (word: any) => {
     setEditingWord(word);
     setNewWord(word.word);
     setNewDefinition(word.fetched_definition || word.definition || '');
     setCustomNotes(word.custom_definition || '');
+    setSelectedSense(word.primary_sense ?? 0);
     setShowAddModal(true);
   };
 
@@ -220,20 +310,33 @@ export default function WordsScreen() {
     }
 
     // Parse bulk text - expecting format: "word: definition" per line
-    const lines = bulkImportText.split('\n').filter(line => line.trim());
-    const wordsToImport: Array<{ word: string; definition: string }> = [];
+    const lines = bulkImportText.split('\n');
+    const wordsToImport: ImportWord[] = [];
+    const invalid: InvalidRow[] = [];
+
+    lines.forEach((line, index) => {
+      if (!line.trim()) return;
 
-    for (const line of lines) {
       // Support formats: "word: definition" or "word - definition"
       const match = line.match(/^(.+?)[\s]*[:-][\s]*(.+)$/);
-      if (match) {
-        const [, word, definition] = match;
-        wordsToImport.push({
-          word: word.trim(),
-          definition: definition.trim(),
-        });
+      if (!match) {
+        invalid.push({ row: index + 1, text: line.trim(), reason: 'Expected "word: definition"' });
+        return;
+      }
+
+      const [, word, definition] = match;
+      const reason = invalidWordReason(word.trim());
+      if (reason) {
+        invalid.push({ row: index + 1, text: line.trim(), reason });
+        return;
       }
-    }
+
+      wordsToImport.push({
+        word: word.trim(),
+        row: index + 1,
+        custom_definition: definition.trim(),
+      });
+    });
 
     if (wordsToImport.length === 0) {
       Alert.alert(
@@ -243,41 +346,134 @@ export default function WordsScreen() {
       return;
     }
 
+    setImportPreview({
+      source: 'file_upload',
+      preview: buildImportPreview(wordsToImport, words, invalid),
+    });
+  };
+
+  const handlePickWordFile = async () => {
     try {
-      let successCount = 0;
-      for (const wordData of wordsToImport) {
-        try {
-          await addWord({
-            word: wordData.word,
-            definition: wordData.definition,
-            status: 'learning',
-            mastery_level: 0,
-            source: 'file_upload',
-          });
-          successCount++;
-        } catch (error) {
-          console.error(`Failed to import word: ${wordData.word}`, error);
-        }
+      const file = await pickImportFile();
+      if (!file) return;
+
+      let table: ParsedTable;
+      let mapping: ColumnMapping;
+      if (file.name.toLowerCase().endsWith('.apkg')) {
+        const deck = await readAnkiPackage(file.uri);
+        table = deck;
+        mapping = guessColumnMapping(deck.headers, { tags: deck.tagsColumn });
+      } else {
+        const parsed = readDelimitedTable(await readTextFile(file.uri));
+        table = parsed;
+        mapping = guessColumnMapping(parsed.headers, parsed.suggested);
       }
 
+      if (table.rows.length === 0) {
+        Alert.alert('No Words Found', 'This file has no rows to import');
+        return;
+      }
+
+      setImportMapping({ fileName: file.name, table, mapping });
+    } catch (error: any) {
+      console.error('[Words] Failed to read import file:', error);
+      Alert.alert('Error', error.message || 'Failed to read file');
+    }
+  };
+
+  const handleSelectColumn = (field: keyof ColumnMapping, column: number | null) => {
+    if (!importMapping) return;
+    setImportMapping({
+      ...importMapping,
+      mapping: { ...importMapping.mapping, [field]: column },
+    });
+  };
+
+  const handleApplyMapping = () => {
+    if (!importMapping) return;
+
+    const { words: mapped, invalid } = applyColumnMapping(importMapping.table, importMapping.mapping);
+    setImportPreview({
+      source: 'file_upload',
+      preview: buildImportPreview(mapped, words, invalid),
+    });
+    setImportMapping(null);
+  };
+
+  const handlePickEreaderFile = async (source: keyof typeof EREADER_READERS) => {
+    try {
+      const file = await pickImportFile();
+      if (!file) return;
+
+      const candidates = await EREADER_READERS[source](file.uri);
+      if (candidates.length === 0) {
+        Alert.alert('No Words Found', 'This file has no saved words');
+        return;
+      }
+
+      setImportPreview({ source, preview: buildImportPreview(candidates, words) });
+    } catch (error: any) {
+      console.error(`[Words] Failed to read ${source} file:`, error);
+      Alert.alert('Error', error.message || 'Failed to read file');
+    }
+  };
+
+  const handleConfirmImport = async () => {
+    if (!importPreview) return;
+    const { source, preview } = importPreview;
+
+    try {
+      const report = preview.newWords.length > 0
+        ? await bulkImport(preview.newWords, source)
+        : { imported: [], results: [] };
+      setImportReport(buildImportReport(preview, report));
+      setImportPreview(null);
       setBulkImportText('');
-      setShowBulkImportModal(false);
-      Alert.alert(
-        'Import Complete',
-        `Successfully imported ${successCount} of ${wordsToImport.length} words`
-      );
     } catch (error) {
-      console.error('[Words] Bulk import failed:', error);
+      console.error('[Words] Import failed:', error);
       Alert.alert('Error', 'Failed to import words');
     }
   };
 
-  // Filter words based on search query
+  const handleCloseBulkImport = () => {
+    setShowBulkImportModal(false);
+    setImportMapping(null);
+    setImportPreview(null);
+    setImportReport(null);
+  };
+
+  const runExport = async (format: 'csv' | 'anki', status?: 'learning' | 'mastered') => {
+    try {
+      await exportWords(format, { status, search: searchQuery.trim() || undefined });
+    } catch (error: any) {
+      console.error('[Words] Export failed:', error);
+      Alert.alert('Error', error.message || 'Failed to export words');
+    }
+  };
+
+  const chooseExportWords = (format: 'csv' | 'anki') => {
+    Alert.alert('Which words?', searchQuery ? `Matching "${searchQuery}"` : undefined, [
+      { text: 'All', onPress: () => runExport(format) },
+      { text: 'Learning', onPress: () => runExport(format, 'learning') },
+      { text: 'Mastered', onPress: () => runExport(format, 'mastered') },
+    ]);
+  };
+
+  const handleExport = () => {
+    Alert.alert('Export Words', 'Choose a format', [
+      { text: 'CSV (with progress)', onPress: () => chooseExportWords('csv') },
+      { text: 'Anki deck', onPress: () => chooseExportWords('anki') },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  // Filter words based on search query and the "needs definition" toggle
   const filteredWords = words.filter(
     (word) =>
-      word.word.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      (word.definition || '').toLowerCase().includes(searchQuery.toLowerCase()) ||
-      (word.custom_definition || '').toLowerCase().includes(searchQuery.toLowerCase())
+      (!showNeedsDefinition || needsDefinition(word)) &&
+      (word.word.toLowerCase().includes(searchQuery.toLowerCase()) ||
+        (word.definition || '').toLowerCase().includes(searchQuery.toLowerCase()) ||
+        (word.custom_definition || '').toLowerCase().includes(searchQuery.toLowerCase()))
   );
 
   // Sort words: learning first, then mastered, alphabetically within each
@@ -290,6 +486,7 @@ export default function WordsScreen() {
 
   const learningCount = words.filter((w) => w.status === 'learning').length;
   const masteredCount = words.filter((w) => w.status === 'mastered').length;
+  const needsDefinitionCount = words.filter(needsDefinition).length;
 
   return (
     <SafeAreaView style={styles.container}>
@@ -305,7 +502,9 @@ export default function WordsScreen() {
               {learningCount} learning · {masteredCount} mastered
             </Text>
           </View>
-          <View style={{ width: 60 }} />
+          <Pressable onPress={handleExport} style={styles.backButton}>
+            <Text style={styles.backButtonText}>Export</Text>
+          </Pressable>
         </View>
 
         {/* Search Bar */}
@@ -324,6 +523,17 @@ export default function WordsScreen() {
             </Pressable>
           )}
         </View>
+
+        {needsDefinitionCount > 0 && (
+          <Pressable
+            onPress={() => setShowNeedsDefinition(!showNeedsDefinition)}
+            style={[styles.filterChip, showNeedsDefinition && styles.filterChipSelected]}
+          >
+            <Text style={[styles.filterChipText, showNeedsDefinition && styles.filterChipTextSelected]}>
+              Needs definition ({needsDefinitionCount})
+            </Text>
+          </Pressable>
+        )}
       </LinearGradient>
 
       {/* Words List */}
@@ -331,11 +541,11 @@ export default function WordsScreen() {
         <View style={styles.emptyState}>
           <Text style={styles.emptyIcon}>📚</Text>
           <Text style={styles.emptyTitle}>
-            {searchQuery ? 'No words found' : 'No words yet'}
+            {searchQuery || showNeedsDefinition ? 'No words found' : 'No words yet'}
           </Text>
           <Text style={styles.emptyDescription}>
-            {searchQuery
-              ? 'Try a different search term'
+            {searchQuery || showNeedsDefinition
+              ? 'Try a different search term or filter'
               : 'Add your first vocabulary word to start learning!'}
           </Text>
         </View>
@@ -426,6 +636,28 @@ export default function WordsScreen() {
                 </View>
               )}
 
+              {editingWord?.senses?.length > 1 && (
+                <View style={styles.inputGroup}>
+                  <Text style={styles.inputLabel}>Meaning you're learning</Text>
+                  <Text style={styles.senseHint}>Used for crossword clues and hints</Text>
+                  {editingWord.senses.map((sense: WordSense, index: number) => (
+                    <Pressable
+                      key={index}
+                      onPress={() => setSelectedSense(index)}
+                      style={[styles.senseOption, selectedSense === index && styles.senseOptionSelected]}
+                    >
+                      <Text style={styles.senseText}>
+                        {sense.part_of_speech ? (
+                          <Text style={styles.sensePartOfSpeech}>{sense.part_of_speech} </Text>
+                        ) : null}
+                        {sense.definition}
+                      </Text>
+                      {sense.example ? <Text style={styles.senseExample}>"{sense.example}"</Text> : null}
+                    </Pressable>
+                  ))}
+                </View>
+              )}
+
               {editingWord && (
                 <View style={styles.inputGroup}>
                   <Text style={styles.inputLabel}>Custom Notes (Optional)</Text>
@@ -461,7 +693,7 @@ export default function WordsScreen() {
         visible={showBulkImportModal}
         animationType="slide"
         transparent={true}
-        onRequestClose={() => setShowBulkImportModal(false)}
+        onRequestClose={handleCloseBulkImport}
       >
         <KeyboardAvoidingView
           behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
@@ -469,12 +701,20 @@ export default function WordsScreen() {
         >
           <Pressable
             style={styles.modalBackdrop}
-            onPress={() => setShowBulkImportModal(false)}
+            onPress={handleCloseBulkImport}
           />
           <View style={styles.modalContent}>
             <View style={styles.modalHeader}>
-              <Text style={styles.modalTitle}>Bulk Import Words</Text>
-              <Pressable onPress={() => setShowBulkImportModal(false)}>
+              <Text style={styles.modalTitle}>
+                {importReport
+                  ? 'Import Results'
+                  : importMapping
+                    ? 'Choose Columns'
+                    : importPreview
+                      ? 'Review Import'
+                      : 'Bulk Import Words'}
+              </Text>
+              <Pressable onPress={handleCloseBulkImport}>
                 <Text style={styles.modalClose}>✕</Text>
               </Pressable>
             </View>
@@ -485,38 +725,272 @@ export default function WordsScreen() {
               keyboardShouldPersistTaps="handled"
               showsVerticalScrollIndicator={false}
             >
-              <View style={styles.importHint}>
-                <Text style={styles.importHintText}>
-                  Paste your words in this format (one per line):
-                </Text>
-                <Text style={styles.importExample}>
-                  Serendipity: Finding something good without looking for it{'\n'}
-                  Ephemeral: Lasting for a very short time{'\n'}
-                  Resilient: Able to recover quickly
-                </Text>
-              </View>
+              {importReport ? (
+                <>
+                  <View style={styles.infoBox}>
+                    <Text style={styles.infoText}>
+                      {(Object.keys(REPORT_LABELS) as BulkImportResult['status'][])
+                        .map((status) => ({
+                          status,
+                          count: importReport.filter((r) => r.status === status).length,
+                        }))
+                        .filter(({ status, count }) => count > 0 || status === 'imported')
+                        .map(({ status, count }) => `${count} ${REPORT_LABELS[status].toLowerCase()}`)
+                        .join(' · ')}
+                    </Text>
+                  </View>
 
-              <View style={styles.inputGroup}>
-                <Text style={styles.inputLabel}>Paste Words Below</Text>
-                <TextInput
-                  style={[styles.input, styles.bulkTextArea]}
-                  placeholder="word: definition&#10;word: definition&#10;..."
-                  value={bulkImportText}
-                  onChangeText={setBulkImportText}
-                  multiline
-                  numberOfLines={10}
-                  returnKeyType="done"
-                />
-              </View>
+                  {importReport.slice(0, PREVIEW_LIMIT).map((result, index) => (
+                    <View key={`${result.row}-${index}`} style={styles.previewItem}>
+                      <View style={styles.previewItemHeader}>
+                        <Text style={styles.previewWord} numberOfLines={1}>
+                          {result.row !== undefined ? `${result.row}. ` : ''}
+                          {result.word}
+                        </Text>
+                        <Text
+                          style={[
+                            styles.reportBadge,
+                            (result.status === 'imported' || result.status === 'updated') &&
+                              styles.reportBadgeImported,
+                            (result.status === 'invalid' || result.status === 'failed') &&
+                              styles.reportBadgeInvalid,
+                          ]}
+                        >
+                          {REPORT_LABELS[result.status]}
+                        </Text>
+                      </View>
+                      {result.reason && (
+                        <Text style={styles.previewContext}>{result.reason}</Text>
+                      )}
+                    </View>
+                  ))}
+                  {importReport.length > PREVIEW_LIMIT && (
+                    <Text style={styles.previewMore}>
+                      …and {importReport.length - PREVIEW_LIMIT} more
+                    </Text>
+                  )}
 
-              <Pressable style={styles.submitButton} onPress={handleBulkImport}>
-                <LinearGradient
-                  colors={['#4facfe', '#00f2fe']}
-                  style={styles.submitGradient}
-                >
-                  <Text style={styles.submitButtonText}>Import Words</Text>
-                </LinearGradient>
-              </Pressable>
+                  <Pressable style={styles.submitButton} onPress={handleCloseBulkImport}>
+                    <LinearGradient
+                      colors={['#4facfe', '#00f2fe']}
+                      style={styles.submitGradient}
+                    >
+                      <Text style={styles.submitButtonText}>Done</Text>
+                    </LinearGradient>
+                  </Pressable>
+                </>
+              ) : importMapping ? (
+                <>
+                  <View style={styles.infoBox}>
+                    <Text style={styles.infoText}>
+                      {importMapping.fileName} · {importMapping.table.rows.length} rows
+                    </Text>
+                  </View>
+
+                  {MAPPING_FIELDS.map((field) => (
+                    <View key={field.key} style={styles.inputGroup}>
+                      <Text style={styles.inputLabel}>
+                        {field.label}
+                        {field.optional ? ' (Optional)' : ' *'}
+                      </Text>
+                      <View style={styles.columnChips}>
+                        {field.optional && (
+                          <Pressable
+                            style={[
+                              styles.columnChip,
+                              importMapping.mapping[field.key] === null && styles.columnChipSelected,
+                            ]}
+                            onPress={() => handleSelectColumn(field.key, null)}
+                          >
+                            <Text
+                              style={[
+                                styles.columnChipText,
+                                importMapping.mapping[field.key] === null &&
+                                  styles.columnChipTextSelected,
+                              ]}
+                            >
+                              None
+                            </Text>
+                          </Pressable>
+                        )}
+                        {importMapping.table.headers.map((header, column) => (
+                          <Pressable
+                            key={column}
+                            style={[
+                              styles.columnChip,
+                              importMapping.mapping[field.key] === column && styles.columnChipSelected,
+                            ]}
+                            onPress={() => handleSelectColumn(field.key, column)}
+                          >
+                            <Text
+                              style={[
+                                styles.columnChipText,
+                                importMapping.mapping[field.key] === column &&
+                                  styles.columnChipTextSelected,
+                              ]}
+                            >
+                              {header}
+                            </Text>
+                          </Pressable>
+                        ))}
+                      </View>
+                      {importMapping.mapping[field.key] !== null && (
+                        <Text style={styles.previewContext} numberOfLines={1}>
+                          e.g. {importMapping.table.rows[0]?.[importMapping.mapping[field.key]!] || '—'}
+                        </Text>
+                      )}
+                    </View>
+                  ))}
+
+                  <Pressable style={styles.submitButton} onPress={handleApplyMapping}>
+                    <LinearGradient
+                      colors={['#4facfe', '#00f2fe']}
+                      style={styles.submitGradient}
+                    >
+                      <Text style={styles.submitButtonText}>Preview Import</Text>
+                    </LinearGradient>
+                  </Pressable>
+                  <Pressable style={styles.secondaryButton} onPress={() => setImportMapping(null)}>
+                    <Text style={styles.secondaryButtonText}>Back</Text>
+                  </Pressable>
+                </>
+              ) : importPreview ? (
+                <>
+                  <View style={styles.infoBox}>
+                    <Text style={styles.infoText}>
+                      {importPreview.preview.newWords.length} new words ·{' '}
+                      {importPreview.preview.duplicateCount} already in your list
+                      {importPreview.preview.invalid.length > 0 &&
+                        ` · ${importPreview.preview.invalid.length} invalid rows`}
+                    </Text>
+                  </View>
+
+                  {importPreview.preview.items.slice(0, PREVIEW_LIMIT).map((item, index) => (
+                    <View
+                      key={`${item.word}-${index}`}
+                      style={[styles.previewItem, item.duplicate && styles.previewItemDuplicate]}
+                    >
+                      <View style={styles.previewItemHeader}>
+                        <Text style={styles.previewWord}>{item.word}</Text>
+                        {item.duplicate && (
+                          <Text style={styles.previewDuplicateBadge}>Already added</Text>
+                        )}
+                      </View>
+                      {item.import_context?.usage && (
+                        <Text style={styles.previewContext} numberOfLines={2}>
+                          “{item.import_context.usage}”
+                        </Text>
+                      )}
+                      {item.import_context?.book_title && (
+                        <Text style={styles.previewBook} numberOfLines={1}>
+                          📖 {item.import_context.book_title}
+                        </Text>
+                      )}
+                    </View>
+                  ))}
+                  {importPreview.preview.items.length > PREVIEW_LIMIT && (
+                    <Text style={styles.previewMore}>
+                      …and {importPreview.preview.items.length - PREVIEW_LIMIT} more
+                    </Text>
+                  )}
+
+                  {importProgress && (
+                    <View style={styles.progressContainer}>
+                      <View style={styles.progressTrack}>
+                        <View
+                          style={[
+                            styles.progressFill,
+                            {
+                              width: `${importProgress.total > 0
+                                ? Math.round((importProgress.done / importProgress.total) * 100)
+                                : 0}%`,
+                            },
+                          ]}
+                        />
+                      </View>
+                      <Text style={styles.progressText}>
+                        {importProgress.done} / {importProgress.total}
+                      </Text>
+                    </View>
+                  )}
+
+                  <Pressable
+                    style={styles.submitButton}
+                    onPress={handleConfirmImport}
+                    disabled={!!importProgress}
+                  >
+                    <LinearGradient
+                      colors={['#4facfe', '#00f2fe']}
+                      style={styles.submitGradient}
+                    >
+                      <Text style={styles.submitButtonText}>
+                        {importProgress
+                          ? 'Importing...'
+                          : `Import ${importPreview.preview.newWords.length} Words`}
+                      </Text>
+                    </LinearGradient>
+                  </Pressable>
+                  <Pressable style={styles.secondaryButton} onPress={() => setImportPreview(null)}>
+                    <Text style={styles.secondaryButtonText}>Back</Text>
+                  </Pressable>
+                </>
+              ) : (
+                <>
+                  <View style={styles.fileImportRow}>
+                    <Pressable
+                      style={styles.fileImportButton}
+                      onPress={() => handlePickEreaderFile('kindle')}
+                    >
+                      <Text style={styles.fileImportButtonText}>📖 Kindle vocab.db</Text>
+                    </Pressable>
+                    <Pressable
+                      style={styles.fileImportButton}
+                      onPress={() => handlePickEreaderFile('kobo')}
+                    >
+                      <Text style={styles.fileImportButtonText}>📚 KoboReader.sqlite</Text>
+                    </Pressable>
+                  </View>
+                  <Pressable
+                    style={[styles.fileImportButton, styles.fileImportButtonWide]}
+                    onPress={handlePickWordFile}
+                  >
+                    <Text style={styles.fileImportButtonText}>📄 CSV / TSV / Anki deck</Text>
+                  </Pressable>
+
+                  <View style={styles.importHint}>
+                    <Text style={styles.importHintText}>
+                      Paste your words in this format (one per line):
+                    </Text>
+                    <Text style={styles.importExample}>
+                      Serendipity: Finding something good without looking for it{'\n'}
+                      Ephemeral: Lasting for a very short time{'\n'}
+                      Resilient: Able to recover quickly
+                    </Text>
+                  </View>
+
+                  <View style={styles.inputGroup}>
+                    <Text style={styles.inputLabel}>Paste Words Below</Text>
+                    <TextInput
+                      style={[styles.input, styles.bulkTextArea]}
+                      placeholder="word: definition&#10;word: definition&#10;..."
+                      value={bulkImportText}
+                      onChangeText={setBulkImportText}
+                      multiline
+                      numberOfLines={10}
+                      returnKeyType="done"
+                    />
+                  </View>
+
+                  <Pressable style={styles.submitButton} onPress={handleBulkImport}>
+                    <LinearGradient
+                      colors={['#4facfe', '#00f2fe']}
+                      style={styles.submitGradient}
+                    >
+                      <Text style={styles.submitButtonText}>Import Words</Text>
+                    </LinearGradient>
+                  </Pressable>
+                </>
+              )}
             </ScrollView>
           </View>
         </KeyboardAvoidingView>
@@ -585,6 +1059,27 @@ const styles = StyleSheet.create({
     fontSize: 18,
     padding: 4,
   },
+  filterChip: {
+    alignSelf: 'flex-start',
+    marginTop: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.6)',
+  },
+  filterChipSelected: {
+    backgroundColor: '#fff',
+    borderColor: '#fff',
+  },
+  filterChipText: {
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  filterChipTextSelected: {
+    color: '#667eea',
+  },
   listContent: {
     padding: 16,
   },
@@ -791,6 +1286,37 @@ const styles = StyleSheet.create({
     color: '#065F46',
     lineHeight: 18,
   },
+  senseHint: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginBottom: 8,
+  },
+  senseOption: {
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    marginBottom: 8,
+  },
+  senseOptionSelected: {
+    borderColor: '#667eea',
+    backgroundColor: '#EEF2FF',
+  },
+  senseText: {
+    fontSize: 14,
+    color: '#1F2937',
+    lineHeight: 20,
+  },
+  sensePartOfSpeech: {
+    fontStyle: 'italic',
+    color: '#667eea',
+  },
+  senseExample: {
+    fontSize: 13,
+    color: '#6B7280',
+    fontStyle: 'italic',
+    marginTop: 4,
+  },
   submitButton: {
     borderRadius: 12,
     overflow: 'hidden',
@@ -825,6 +1351,142 @@ const styles = StyleSheet.create({
     fontFamily: Platform.OS === 'ios' ? 'Courier' : 'monospace',
     lineHeight: 20,
   },
+  fileImportRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 20,
+  },
+  fileImportButton: {
+    flex: 1,
+    backgroundColor: '#F3F4F6',
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  fileImportButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#374151',
+  },
+  fileImportButtonWide: {
+    flex: 0,
+    marginBottom: 20,
+  },
+  columnChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  columnChip: {
+    backgroundColor: '#F3F4F6',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+  },
+  columnChipSelected: {
+    backgroundColor: '#3B82F6',
+  },
+  columnChipText: {
+    fontSize: 13,
+    color: '#374151',
+  },
+  columnChipTextSelected: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  reportBadge: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#92400E',
+    backgroundColor: '#FEF3C7',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  reportBadgeImported: {
+    color: '#065F46',
+    backgroundColor: '#D1FAE5',
+  },
+  progressContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginTop: 16,
+  },
+  progressTrack: {
+    flex: 1,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#E5E7EB',
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: '#3B82F6',
+  },
+  progressText: {
+    fontSize: 13,
+    color: '#6B7280',
+  },
+  reportBadgeInvalid: {
+    color: '#DC2626',
+    backgroundColor: '#FEE2E2',
+  },
+  previewItem: {
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  previewItemDuplicate: {
+    opacity: 0.5,
+  },
+  previewItemHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  previewWord: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  previewDuplicateBadge: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#92400E',
+    backgroundColor: '#FEF3C7',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  previewContext: {
+    fontSize: 13,
+    color: '#6B7280',
+    fontStyle: 'italic',
+    marginTop: 4,
+  },
+  previewBook: {
+    fontSize: 12,
+    color: '#9CA3AF',
+    marginTop: 2,
+  },
+  previewMore: {
+    fontSize: 13,
+    color: '#6B7280',
+    textAlign: 'center',
+    paddingVertical: 12,
+  },
+  secondaryButton: {
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#6B7280',
+  },
   bulkTextArea: {
     minHeight: 200,
     textAlignVertical: 'top',
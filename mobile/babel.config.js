@@ -16,7 +16,8 @@ module.exports = function(api) {
             '@hooks': './src/hooks',
             '@utils': './src/utils',
             '@types': './src/types',
-            '@constants': './src/constants'
+            '@constants': './src/constants',
+            '@shared': '../supabase/functions/_shared'
           }
         }
       ]
@@ -0,0 +1,9 @@
+const path = require('path');
+const { getDefaultConfig } = require('expo/metro-config');
+
+const config = getDefaultConfig(__dirname);
+
+// Code shared with the Supabase edge functions (e.g. the crossword generator)
+config.watchFolders = [path.resolve(__dirname, '../supabase/functions/_shared')];
+
+module.exports = config;
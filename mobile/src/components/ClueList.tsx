@@ -15,6 +15,7 @@ interface Word {
   number: number;
   clue: string;
   answer: string;
+  enumeration?: string; // e.g. "(6,5)" for a phrase
   startRow: number;
   startCol: number;
   direction: 'across' | 'down';
@@ -44,9 +45,7 @@ const ClueList: React.FC<ClueListProps> = ({ words, activeClue, onCluePress }) =
         </Text>
         <Text style={[styles.clueText, isActive && styles.activeClueText]}>
           {word.clue}
-          {isActive && (
-            <Text style={styles.answerLength}> ({word.answer.length})</Text>
-          )}
+          <Text style={styles.answerLength}> {word.enumeration || `(${word.answer.length})`}</Text>
         </Text>
       </Pressable>
     );
@@ -0,0 +1,151 @@
+/**
+ * Word list export
+ *
+ * CSV with learning progress for spreadsheets and backups, and an Anki
+ * "Notes in Plain Text" deck (File > Import in Anki) with the word on the
+ * front and its definition on the back.
+ */
+
+import { File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { LearningProgress, Word } from '@types/index';
+
+export type ExportFormat = 'csv' | 'anki';
+
+export interface ExportFile {
+  fileName: string;
+  content: string;
+  mimeType: string;
+}
+
+const CSV_COLUMNS = [
+  'word',
+  'definition',
+  'status',
+  'mastery_level',
+  'easiness_factor',
+  'interval_days',
+  'repetitions',
+  'next_review_at',
+  'last_review_at',
+  'source',
+  'added_at',
+] as const;
+
+/**
+ * The definition shown to the user (custom notes win over fetched ones)
+ */
+function displayDefinition(word: Word): string {
+  return word.custom_definition || word.fetched_definition || word.definition || '';
+}
+
+function csvField(value: unknown): string {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * CSV of words with their SM-2 scheduling fields
+ */
+export function formatWordsCsv(words: Word[], progress: LearningProgress[]): string {
+  const progressByWord = new Map(progress.map((p) => [p.word_id, p]));
+
+  const lines = words.map((word) => {
+    const p = progressByWord.get(word.id);
+    const row: Record<(typeof CSV_COLUMNS)[number], unknown> = {
+      word: word.word,
+      definition: displayDefinition(word),
+      status: word.status,
+      mastery_level: word.mastery_level,
+      easiness_factor: p?.easiness_factor,
+      interval_days: p?.interval_days,
+      repetitions: p?.repetitions,
+      next_review_at: p?.next_review_at,
+      last_review_at: p?.last_review_at,
+      source: word.source,
+      added_at: word.added_at,
+    };
+    return CSV_COLUMNS.map((column) => csvField(row[column])).join(',');
+  });
+
+  return [CSV_COLUMNS.join(','), ...lines].join('\r\n') + '\r\n';
+}
+
+function ankiField(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/\t/g, ' ')
+    .replace(/\r?\n/g, '<br>');
+}
+
+function ankiTag(value: string): string {
+  return value.trim().replace(/\s+/g, '_');
+}
+
+/**
+ * Anki plain text deck: Front (word), Back (definition), Tags
+ */
+export function formatAnkiDeck(words: Word[]): string {
+  const header = [
+    '#separator:tab',
+    '#html:true',
+    '#columns:Front\tBack\tTags',
+    '#tags column:3',
+  ];
+
+  const lines = words.map((word) => {
+    const importTags: string[] = Array.isArray(word.import_context?.tags) ? word.import_context!.tags : [];
+    const tags = ['wordds', `wordds::${word.status}`, ...importTags].map(ankiTag).filter(Boolean);
+    return [ankiField(word.word), ankiField(displayDefinition(word)), tags.join(' ')].join('\t');
+  });
+
+  return [...header, ...lines].join('\n') + '\n';
+}
+
+/**
+ * Build the export file for a format
+ */
+export function buildExportFile(
+  format: ExportFormat,
+  words: Word[],
+  progress: LearningProgress[]
+): ExportFile {
+  const date = new Date().toISOString().slice(0, 10);
+
+  if (format === 'anki') {
+    return {
+      fileName: `wordds-anki-${date}.txt`,
+      content: formatAnkiDeck(words),
+      mimeType: 'text/plain',
+    };
+  }
+
+  return {
+    fileName: `wordds-words-${date}.csv`,
+    content: formatWordsCsv(words, progress),
+    mimeType: 'text/csv',
+  };
+}
+
+/**
+ * Write the file to the cache directory and open the OS share sheet
+ */
+export async function shareExportFile(exportFile: ExportFile): Promise<void> {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device');
+  }
+
+  const file = new File(Paths.cache, exportFile.fileName);
+  if (file.exists) {
+    file.delete();
+  }
+  file.create();
+  file.write(exportFile.content);
+
+  await Sharing.shareAsync(file.uri, {
+    mimeType: exportFile.mimeType,
+    dialogTitle: 'Export words',
+  });
+}
@@ -0,0 +1,97 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import * as SQLite from 'expo-sqlite';
+import { zipSync } from 'fflate';
+import { readAnkiPackage } from '../anki';
+
+const mockFiles = new Map<string, Uint8Array>();
+
+jest.mock('expo-file-system', () => ({
+  File: class {
+    mockUri: string;
+    constructor(uri: string) {
+      this.mockUri = uri;
+    }
+    async bytes() {
+      return mockFiles.get(this.mockUri);
+    }
+  },
+}));
+
+const NEWER_FORMAT = /newer Anki format/;
+
+// A collection database with the given notes of one note type
+async function collection(fieldNames: string[], notes: { flds: string[]; tags?: string }[]) {
+  const db = await SQLite.openDatabaseAsync(':memory:');
+  await db.execAsync(`
+    CREATE TABLE col (models TEXT);
+    CREATE TABLE notes (id INTEGER PRIMARY KEY, mid INTEGER, flds TEXT, tags TEXT);
+  `);
+  const models = { 42: { flds: fieldNames.map((name, ord) => ({ name, ord })) } };
+  await db.runAsync('INSERT INTO col (models) VALUES (?)', JSON.stringify(models));
+  for (const note of notes) {
+    await db.runAsync('INSERT INTO notes (mid, flds, tags) VALUES (42, ?, ?)', note.flds.join('\x1f'), note.tags ?? '');
+  }
+  return db.serializeAsync();
+}
+
+async function apkg(uri: string, files: Record<string, Uint8Array>) {
+  mockFiles.set(uri, zipSync(files));
+  return uri;
+}
+
+describe('readAnkiPackage', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    mockFiles.clear();
+  });
+
+  it('reads notes and field names from collection.anki21', async () => {
+    const uri = await apkg('file:///deck.apkg', {
+      'collection.anki21': await collection(['Front', 'Back'], [
+        { flds: ['ephemeral', 'Lasting a <b>short</b> time'], tags: ' vocab ' },
+        { flds: ['lenient'] },
+      ]),
+      'collection.anki2': await collection(['Front'], [{ flds: ['Please update Anki'] }]),
+    });
+
+    expect(await readAnkiPackage(uri)).toEqual({
+      headers: ['Front', 'Back', 'Tags'],
+      rows: [
+        ['ephemeral', 'Lasting a short time', 'vocab'],
+        ['lenient', '', ''],
+      ],
+      rowNumbers: [1, 2],
+      tagsColumn: 2,
+    });
+  });
+
+  it('reads older decks from collection.anki2', async () => {
+    const uri = await apkg('file:///old.apkg', {
+      'collection.anki2': await collection(['Word', 'Meaning'], [{ flds: ['granite', 'A hard rock'] }]),
+    });
+
+    const table = await readAnkiPackage(uri);
+    expect(table.headers).toEqual(['Word', 'Meaning', 'Tags']);
+    expect(table.rows).toEqual([['granite', 'A hard rock', '']]);
+  });
+
+  it('rejects newer decks instead of reading their stub collection.anki2', async () => {
+    const uri = await apkg('file:///new.apkg', {
+      'collection.anki21b': new Uint8Array([40, 181, 47, 253]),
+      'collection.anki2': await collection(['Front', 'Back'], [
+        { flds: ['Please update to the latest Anki version, then import the .colpkg/.apkg file again.', ''] },
+      ]),
+    });
+
+    await expect(readAnkiPackage(uri)).rejects.toThrow(NEWER_FORMAT);
+  });
+
+  it('rejects a package without a collection', async () => {
+    const uri = await apkg('file:///media.apkg', { media: new TextEncoder().encode('{}') });
+    await expect(readAnkiPackage(uri)).rejects.toThrow(NEWER_FORMAT);
+  });
+});
@@ -0,0 +1,179 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  applyColumnMapping,
+  detectDelimiter,
+  guessColumnMapping,
+  invalidWordReason,
+  parseDelimited,
+  parseDelimitedRows,
+  readDelimitedTable,
+  stripHtml,
+} from '../delimited';
+
+describe('parseDelimited', () => {
+  it('splits rows and fields', () => {
+    expect(parseDelimited('a,b\nc,d\n', ',')).toEqual([
+      ['a', 'b'],
+      ['c', 'd'],
+    ]);
+    expect(parseDelimited('a\tb\r\nc\td', '\t')).toEqual([
+      ['a', 'b'],
+      ['c', 'd'],
+    ]);
+  });
+
+  it('reads quoted fields with delimiters, newlines and doubled quotes', () => {
+    expect(parseDelimited('"a, b","say ""hi""","two\nlines"\nnext', ',')).toEqual([
+      ['a, b', 'say "hi"', 'two\nlines'],
+      ['next'],
+    ]);
+  });
+
+  it('keeps quotes that do not start a field', () => {
+    expect(parseDelimited('5" screen,ok', ',')).toEqual([['5" screen', 'ok']]);
+  });
+
+  it('keeps empty fields', () => {
+    expect(parseDelimited('a,,c\n,', ',')).toEqual([
+      ['a', '', 'c'],
+      ['', ''],
+    ]);
+  });
+});
+
+describe('parseDelimitedRows', () => {
+  it('gives the line each row starts on', () => {
+    const rows = parseDelimitedRows('one,1\n"two\nlines",2\n\nfour,4', ',');
+    expect(rows.map((row) => row.line)).toEqual([1, 2, 4, 5]);
+    expect(rows[1].fields).toEqual(['two\nlines', '2']);
+  });
+});
+
+describe('detectDelimiter', () => {
+  it('picks the delimiter found on every line', () => {
+    expect(detectDelimiter('word\tdefinition\nephemeral\tshort-lived, brief')).toBe('\t');
+    expect(detectDelimiter('word;definition\nephemeral;short-lived, brief')).toBe(';');
+    expect(detectDelimiter('word,definition\nephemeral,short-lived')).toBe(',');
+  });
+
+  it('falls back to commas for a single column', () => {
+    expect(detectDelimiter('ephemeral\nubiquitous')).toBe(',');
+  });
+});
+
+describe('stripHtml', () => {
+  it('removes tags and decodes entities', () => {
+    expect(stripHtml('<b>short</b>-lived<br>&quot;fleeting&quot; &amp; brief&nbsp;')).toBe(
+      'short-lived\n"fleeting" & brief'
+    );
+  });
+});
+
+describe('readDelimitedTable', () => {
+  it('uses a first row of known column names as headers', () => {
+    const table = readDelimitedTable('\uFEFFWord,Meaning\nephemeral,short-lived\nubiquitous,everywhere');
+    expect(table.headers).toEqual(['Word', 'Meaning']);
+    expect(table.rows).toEqual([
+      ['ephemeral', 'short-lived'],
+      ['ubiquitous', 'everywhere'],
+    ]);
+    expect(table.rowNumbers).toEqual([2, 3]);
+  });
+
+  it('keeps the first row as data when it is not a header', () => {
+    const table = readDelimitedTable('ephemeral\tshort-lived\nubiquitous\teverywhere');
+    expect(table.headers).toEqual(['Column 1', 'Column 2']);
+    expect(table.rows).toHaveLength(2);
+    expect(table.rowNumbers).toEqual([1, 2]);
+  });
+
+  it('reads Anki export headers', () => {
+    const text = [
+      '#separator:Pipe',
+      '#html:true',
+      '#columns:Front|Back|Tags',
+      '#tags column:3',
+      'word|<i>a unit</i> of language|basics',
+      'ephemeral|short-lived|gre vocab',
+    ].join('\n');
+    const table = readDelimitedTable(text);
+
+    expect(table.headers).toEqual(['Front', 'Back', 'Tags']);
+    expect(table.suggested).toEqual({ tags: 2 });
+    // "word" in the first row is a note, not a header: Anki names come from #columns
+    expect(table.rows[0]).toEqual(['word', 'a unit of language', 'basics']);
+    expect(table.rowNumbers).toEqual([5, 6]);
+    expect(guessColumnMapping(table.headers, table.suggested)).toEqual({ word: 0, definition: 1, tags: 2 });
+  });
+
+  it('reads separators given by name or as the character', () => {
+    expect(readDelimitedTable('#separator:tab\na\tb').rows).toEqual([['a', 'b']]);
+    expect(readDelimitedTable('#separator:;\na;b').rows).toEqual([['a', 'b']]);
+  });
+
+  it('numbers rows by the file line they start on', () => {
+    const text = 'word,definition\nephemeral,"short-lived;\nfleeting"\n123,digits\nubiquitous,everywhere';
+    const table = readDelimitedTable(text);
+    expect(table.rowNumbers).toEqual([2, 4, 5]);
+
+    const result = applyColumnMapping(table, guessColumnMapping(table.headers));
+    expect(result.invalid).toEqual([{ row: 4, text: '123 | digits', reason: 'No letters' }]);
+    expect(result.words.map((w) => w.row)).toEqual([2, 5]);
+  });
+});
+
+describe('guessColumnMapping', () => {
+  it('finds columns by header name', () => {
+    expect(guessColumnMapping(['Tags', 'Definition', 'Term'])).toEqual({ word: 2, definition: 1, tags: 0 });
+  });
+
+  it('falls back to the first two columns', () => {
+    expect(guessColumnMapping(['Column 1', 'Column 2', 'Column 3'])).toEqual({ word: 0, definition: 1, tags: null });
+    expect(guessColumnMapping(['Column 1'])).toEqual({ word: 0, definition: null, tags: null });
+  });
+});
+
+describe('applyColumnMapping', () => {
+  const table = {
+    headers: ['Word', 'Definition', 'Tags'],
+    rows: [
+      ['ephemeral', 'short-lived', 'gre, vocab'],
+      ['', 'no word', ''],
+      ['', '', ''],
+      ['x'.repeat(65), '', ''],
+      ['ubiquitous', '', ''],
+    ],
+    rowNumbers: [2, 3, 4, 5, 6],
+  };
+
+  it('maps columns to words and reports invalid rows with a reason', () => {
+    const result = applyColumnMapping(table, { word: 0, definition: 1, tags: 2 });
+
+    expect(result.words).toEqual([
+      { word: 'ephemeral', row: 2, custom_definition: 'short-lived', import_context: { tags: ['gre', 'vocab'] } },
+      { word: 'ubiquitous', row: 6, custom_definition: undefined, import_context: undefined },
+    ]);
+    expect(result.invalid).toEqual([
+      { row: 3, text: ' | no word | ', reason: 'Missing word' },
+      { row: 5, text: `${'x'.repeat(65)} |  | `, reason: 'Longer than 64 characters' },
+    ]);
+  });
+
+  it('ignores unmapped columns', () => {
+    const result = applyColumnMapping(table, { word: 0, definition: null, tags: null });
+    expect(result.words[0]).toEqual({ word: 'ephemeral', row: 2, custom_definition: undefined, import_context: undefined });
+  });
+});
+
+describe('invalidWordReason', () => {
+  it('accepts words in any script', () => {
+    expect(invalidWordReason('café')).toBeNull();
+    expect(invalidWordReason('Straße')).toBeNull();
+    expect(invalidWordReason('слово')).toBeNull();
+  });
+
+  it('rejects values without letters', () => {
+    expect(invalidWordReason('')).toBe('Missing word');
+    expect(invalidWordReason('42')).toBe('No letters');
+  });
+});
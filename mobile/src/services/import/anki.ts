@@ -0,0 +1,98 @@
+/**
+ * Anki deck (.apkg) importer
+ *
+ * An .apkg is a zip holding the collection as SQLite (collection.anki21 or,
+ * for older exports, collection.anki2). Each note's fields are joined with
+ * the 0x1f unit separator in notes.flds and its tags are space-separated in
+ * notes.tags. Notes are read into the same table shape as CSV so the user
+ * can map fields to word/definition/tags.
+ *
+ * Decks exported only in the newer compressed format (collection.anki21b)
+ * aren't supported; Anki's "Support older Anki versions" export option
+ * includes a readable collection. Such decks also hold a collection.anki2,
+ * but it is a stub whose only note asks to update Anki.
+ */
+
+import * as SQLite from 'expo-sqlite';
+import { File } from 'expo-file-system';
+import { unzipSync } from 'fflate';
+import { ParsedTable, stripHtml } from './delimited';
+
+const COLLECTION_FILES = ['collection.anki21', 'collection.anki2'];
+const NEWER_COLLECTION_FILE = 'collection.anki21b';
+
+interface AnkiNoteRow {
+  mid: number;
+  flds: string;
+  tags: string;
+}
+
+/**
+ * Read a picked .apkg file into a table of note fields plus a Tags column
+ */
+export async function readAnkiPackage(uri: string): Promise<ParsedTable & { tagsColumn: number }> {
+  let newerFormat = false;
+  const archive = unzipSync(await new File(uri).bytes(), {
+    filter: (file) => {
+      if (file.name === NEWER_COLLECTION_FILE) newerFormat = true;
+      return COLLECTION_FILES.includes(file.name);
+    },
+  });
+
+  // Next to collection.anki21b, collection.anki2 is only the stub
+  const collection = archive['collection.anki21'] || (newerFormat ? undefined : archive['collection.anki2']);
+  if (!collection) {
+    throw new Error(
+      'This deck uses a newer Anki format. Export it again with "Support older Anki versions" checked.'
+    );
+  }
+
+  const db = await SQLite.deserializeDatabaseAsync(collection);
+  try {
+    const notes = await db.getAllAsync<AnkiNoteRow>('SELECT mid, flds, tags FROM notes ORDER BY id');
+    const fieldNames = await readFieldNames(db, notes);
+
+    const width = Math.max(fieldNames.length, ...notes.map((note) => note.flds.split('\x1f').length));
+    const headers = Array.from({ length: width }, (_, i) => fieldNames[i] || `Field ${i + 1}`);
+
+    const rows = notes.map((note) => {
+      const fields = note.flds.split('\x1f').map(stripHtml);
+      while (fields.length < width) fields.push('');
+      return [...fields, note.tags.trim()];
+    });
+
+    return {
+      headers: [...headers, 'Tags'],
+      rows,
+      rowNumbers: notes.map((_, i) => i + 1),
+      tagsColumn: width,
+    };
+  } catch (error) {
+    console.error('[Import] Failed to read Anki deck:', error);
+    throw new Error('Could not read notes from this Anki deck');
+  } finally {
+    await db.closeAsync();
+  }
+}
+
+/**
+ * Field names of the note type most notes use (stored as JSON in col.models)
+ */
+async function readFieldNames(db: SQLite.SQLiteDatabase, notes: AnkiNoteRow[]): Promise<string[]> {
+  const counts = new Map<number, number>();
+  for (const note of notes) {
+    counts.set(note.mid, (counts.get(note.mid) || 0) + 1);
+  }
+  const [mainModel] = [...counts.entries()].sort((a, b) => b[1] - a[1])[0] || [];
+  if (mainModel === undefined) return [];
+
+  try {
+    const col = await db.getFirstAsync<{ models: string }>('SELECT models FROM col');
+    const models = JSON.parse(col?.models || '{}');
+    const fields: { name: string; ord: number }[] = models[String(mainModel)]?.flds || [];
+    return [...fields].sort((a, b) => a.ord - b.ord).map((field) => field.name);
+  } catch {
+    // Newer collections keep note types in their own tables; fall back to Field 1, 2...
+    return [];
+  }
+}
@@ -0,0 +1,259 @@
+/**
+ * CSV/TSV import
+ *
+ * Reads delimited text (CSV, TSV, Anki "Notes in Plain Text" exports) into a
+ * table, then maps the user's chosen columns to word, custom_definition and
+ * tags. Rows that can't be imported are reported with a reason instead of
+ * being dropped silently.
+ */
+
+import { ImportWord } from '@types/index';
+
+export interface ParsedTable {
+  headers: string[];
+  rows: string[][];
+  rowNumbers: number[]; // Where each row starts in the file (line number), for reports
+}
+
+export interface ColumnMapping {
+  word: number;
+  definition: number | null;
+  tags: number | null;
+}
+
+export interface InvalidRow {
+  row: number;
+  text: string;
+  reason: string;
+}
+
+export interface ImportParseResult {
+  words: ImportWord[];
+  invalid: InvalidRow[];
+}
+
+const MAX_WORD_LENGTH = 64;
+
+const WORD_HEADERS = /^(word|term|front|vocab(ulary)?|expression|headword)$/i;
+const DEFINITION_HEADERS = /^(definition|meaning|back|gloss|translation|notes?)$/i;
+const TAG_HEADERS = /^(tags?|labels?|categor(y|ies))$/i;
+
+// Anki plain text export header lines, e.g. "#separator:tab"
+const ANKI_SEPARATORS: Record<string, string> = {
+  tab: '\t',
+  comma: ',',
+  semicolon: ';',
+  pipe: '|',
+  space: ' ',
+  colon: ':',
+};
+
+/**
+ * Guess the delimiter from the first lines of the file
+ */
+export function detectDelimiter(text: string): string {
+  const sample = text.split(/\r?\n/).filter((line) => line.trim() && !line.startsWith('#')).slice(0, 10);
+  const candidates = ['\t', ',', ';'];
+
+  let best = ',';
+  let bestScore = 0;
+  for (const delimiter of candidates) {
+    const counts = sample.map((line) => line.split(delimiter).length - 1);
+    const score = Math.min(...counts);
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Split delimited text into rows of fields. Handles quoted fields with
+ * embedded delimiters, newlines and doubled quotes ("").
+ */
+export function parseDelimited(text: string, delimiter: string): string[][] {
+  return parseDelimitedRows(text, delimiter).map((row) => row.fields);
+}
+
+/**
+ * parseDelimited with the line each row starts on (1-based); quoted fields
+ * spanning lines make rows and lines differ
+ */
+export function parseDelimitedRows(text: string, delimiter: string): { fields: string[]; line: number }[] {
+  const rows: { fields: string[]; line: number }[] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push({ fields: row, line: rowLine });
+      row = [];
+      field = '';
+      rowLine = ++line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push({ fields: row, line: rowLine });
+  }
+
+  return rows;
+}
+
+/**
+ * Strip HTML markup from Anki fields
+ */
+export function stripHtml(value: string): string {
+  return value
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .trim();
+}
+
+/**
+ * Read CSV/TSV or an Anki text export into a table. The first row is used as
+ * headers when it looks like one (e.g. "word,definition").
+ */
+export function readDelimitedTable(text: string): ParsedTable & { suggested: Partial<ColumnMapping> } {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const suggested: Partial<ColumnMapping> = {};
+  let delimiter: string | null = null;
+  let html = false;
+  let headers: string[] | null = null;
+
+  // Anki exports start with "#key:value" lines
+  let skipped = 0;
+  while (skipped < lines.length && lines[skipped].startsWith('#')) {
+    const [key, ...rest] = lines[skipped].slice(1).split(':');
+    const value = rest.join(':').trim();
+    if (key === 'separator') delimiter = ANKI_SEPARATORS[value.toLowerCase()] || value;
+    if (key === 'html') html = value === 'true';
+    if (key === 'tags column') suggested.tags = parseInt(value, 10) - 1;
+    if (key === 'columns') headers = value.split(delimiter || '\t');
+    skipped++;
+  }
+
+  const body = lines.slice(skipped).join('\n');
+  delimiter = delimiter || detectDelimiter(body);
+
+  const parsed = parseDelimitedRows(body, delimiter);
+  let rows = parsed.map((row) => row.fields.map((field) => (html ? stripHtml(field) : field.trim())));
+  let rowNumbers = parsed.map((row) => skipped + row.line);
+
+  // Anki exports never start with a header row (names come from #columns)
+  const ankiExport = skipped > 0;
+  if (!headers && !ankiExport && rows.length > 0 && rows[0].some((cell) => isKnownHeader(cell))) {
+    headers = rows[0];
+    rows = rows.slice(1);
+    rowNumbers = rowNumbers.slice(1);
+  }
+
+  const width = Math.max(0, ...rows.map((row) => row.length));
+  const names = Array.from({ length: width }, (_, i) => headers?.[i]?.trim() || `Column ${i + 1}`);
+
+  return {
+    headers: names,
+    rows,
+    rowNumbers,
+    suggested,
+  };
+}
+
+function isKnownHeader(cell: string): boolean {
+  const name = cell.trim();
+  return WORD_HEADERS.test(name) || DEFINITION_HEADERS.test(name) || TAG_HEADERS.test(name);
+}
+
+/**
+ * Default column mapping from header names, falling back to
+ * word = first column, definition = second column
+ */
+export function guessColumnMapping(headers: string[], suggested: Partial<ColumnMapping> = {}): ColumnMapping {
+  const find = (pattern: RegExp) => {
+    const index = headers.findIndex((header) => pattern.test(header.trim()));
+    return index >= 0 ? index : null;
+  };
+
+  const word = suggested.word ?? find(WORD_HEADERS) ?? 0;
+  const definition = suggested.definition ?? find(DEFINITION_HEADERS) ?? (headers.length > 1 ? (word === 0 ? 1 : 0) : null);
+  const tags = suggested.tags ?? find(TAG_HEADERS);
+
+  return { word, definition, tags };
+}
+
+/**
+ * Turn table rows into words using the chosen columns
+ */
+export function applyColumnMapping(table: ParsedTable, mapping: ColumnMapping): ImportParseResult {
+  const words: ImportWord[] = [];
+  const invalid: InvalidRow[] = [];
+
+  table.rows.forEach((row, index) => {
+    const rowNumber = table.rowNumbers[index];
+    if (row.every((cell) => !cell.trim())) return;
+
+    const word = (row[mapping.word] || '').trim();
+    const reason = invalidWordReason(word);
+    if (reason) {
+      invalid.push({ row: rowNumber, text: row.join(' | '), reason });
+      return;
+    }
+
+    const definition = mapping.definition !== null ? (row[mapping.definition] || '').trim() : '';
+    const tags = mapping.tags !== null
+      ? (row[mapping.tags] || '').split(/[\s,;]+/).filter(Boolean)
+      : [];
+
+    words.push({
+      word,
+      row: rowNumber,
+      custom_definition: definition || undefined,
+      import_context: tags.length > 0 ? { tags } : undefined,
+    });
+  });
+
+  return { words, invalid };
+}
+
+/**
+ * Why a value can't be imported as a word, or null if it can
+ */
+export function invalidWordReason(word: string): string | null {
+  if (!word) return 'Missing word';
+  if (word.length > MAX_WORD_LENGTH) return `Longer than ${MAX_WORD_LENGTH} characters`;
+  if (!/\p{L}/u.test(word)) return 'No letters';
+  return null;
+}
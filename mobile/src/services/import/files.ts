@@ -0,0 +1,42 @@
+/**
+ * Import file helpers
+ */
+
+import * as DocumentPicker from 'expo-document-picker';
+import { File } from 'expo-file-system';
+import * as SQLite from 'expo-sqlite';
+
+/**
+ * Let the user pick a file. Returns null if the picker was cancelled.
+ */
+export async function pickImportFile(
+  types: string[] = ['*/*']
+): Promise<{ uri: string; name: string } | null> {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: types,
+    copyToCacheDirectory: true,
+  });
+
+  if (result.canceled || result.assets.length === 0) {
+    return null;
+  }
+
+  const { uri, name } = result.assets[0];
+  return { uri, name };
+}
+
+/**
+ * Read a picked text file (CSV, TSV, Anki text export)
+ */
+export async function readTextFile(uri: string): Promise<string> {
+  return new File(uri).text();
+}
+
+/**
+ * Open a picked SQLite file (e.g. Kindle vocab.db) as an in-memory database.
+ * The caller must close it.
+ */
+export async function openSQLiteFile(uri: string): Promise<SQLite.SQLiteDatabase> {
+  const bytes = await new File(uri).bytes();
+  return SQLite.deserializeDatabaseAsync(bytes);
+}
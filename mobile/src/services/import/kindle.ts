@@ -0,0 +1,83 @@
+/**
+ * Kindle Vocabulary Builder importer
+ *
+ * Kindle keeps every dictionary lookup in vocab.db (on the device under
+ * system/vocabulary/vocab.db):
+ * - WORDS: one row per looked-up word, with its stem (base form)
+ * - LOOKUPS: one row per lookup, with the sentence it appeared in (usage)
+ * - BOOK_INFO: title and authors of the book a lookup came from
+ *
+ * Each word is imported once, with the context of its most recent lookup.
+ */
+
+import type { SQLiteDatabase } from 'expo-sqlite';
+import { ImportWord } from '@types/index';
+import { openSQLiteFile } from './files';
+
+interface KindleLookupRow {
+  word_key: string;
+  word: string;
+  stem: string | null;
+  lang: string | null;
+  usage: string | null;
+  title: string | null;
+  authors: string | null;
+  timestamp: number | null;
+}
+
+const LOOKUPS_QUERY = `
+  SELECT w.id AS word_key, w.word, w.stem, w.lang, l.usage, b.title, b.authors, l.timestamp
+  FROM LOOKUPS l
+  JOIN WORDS w ON w.id = l.word_key
+  LEFT JOIN BOOK_INFO b ON b.id = l.book_key
+  ORDER BY l.timestamp DESC
+`;
+
+/**
+ * Parse an open vocab.db into words to import, most recently looked up first
+ */
+export async function parseKindleVocab(db: SQLiteDatabase): Promise<ImportWord[]> {
+  const rows = await db.getAllAsync<KindleLookupRow>(LOOKUPS_QUERY);
+  const words = new Map<string, ImportWord>();
+
+  for (const row of rows) {
+    const existing = words.get(row.word_key);
+    if (existing) {
+      existing.import_context!.lookup_count += 1;
+      continue;
+    }
+
+    const word = row.word?.trim();
+    if (!word) continue;
+
+    words.set(row.word_key, {
+      word,
+      import_context: {
+        stem: row.stem || undefined,
+        usage: row.usage?.trim() || undefined,
+        book_title: row.title || undefined,
+        book_authors: row.authors || undefined,
+        lang: row.lang || undefined,
+        looked_up_at: row.timestamp ? new Date(row.timestamp).toISOString() : undefined,
+        lookup_count: 1,
+      },
+    });
+  }
+
+  return [...words.values()];
+}
+
+/**
+ * Read a picked vocab.db file
+ */
+export async function readKindleVocabFile(uri: string): Promise<ImportWord[]> {
+  const db = await openSQLiteFile(uri);
+  try {
+    return await parseKindleVocab(db);
+  } catch (error) {
+    console.error('[Import] Failed to read Kindle vocab.db:', error);
+    throw new Error('This file is not a Kindle vocab.db');
+  } finally {
+    await db.closeAsync();
+  }
+}
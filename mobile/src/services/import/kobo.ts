@@ -0,0 +1,69 @@
+/**
+ * Kobo word list importer
+ *
+ * Kobo e-readers store words saved from the dictionary in the WordList table
+ * of .kobo/KoboReader.sqlite. VolumeId points at the book's row in content
+ * (ContentType 6 = book), which has its title and author.
+ */
+
+import type { SQLiteDatabase } from 'expo-sqlite';
+import { ImportWord } from '@types/index';
+import { openSQLiteFile } from './files';
+
+interface KoboWordRow {
+  word: string;
+  dict_suffix: string | null;
+  date_created: string | null;
+  title: string | null;
+  author: string | null;
+}
+
+const WORD_LIST_QUERY = `
+  SELECT w.Text AS word, w.DictSuffix AS dict_suffix, w.DateCreated AS date_created,
+         c.Title AS title, c.Attribution AS author
+  FROM WordList w
+  LEFT JOIN content c ON c.ContentID = w.VolumeId AND c.ContentType = 6
+  ORDER BY w.DateCreated DESC
+`;
+
+/**
+ * Parse an open KoboReader.sqlite into words to import, most recent first
+ */
+export async function parseKoboWordList(db: SQLiteDatabase): Promise<ImportWord[]> {
+  const rows = await db.getAllAsync<KoboWordRow>(WORD_LIST_QUERY);
+  const words = new Map<string, ImportWord>();
+
+  for (const row of rows) {
+    const word = row.word?.trim();
+    if (!word || words.has(word)) continue;
+
+    const savedAt = row.date_created ? new Date(row.date_created) : null;
+
+    words.set(word, {
+      word,
+      import_context: {
+        book_title: row.title || undefined,
+        book_authors: row.author || undefined,
+        lang: row.dict_suffix?.replace(/^-/, '') || undefined,
+        looked_up_at: savedAt && !isNaN(savedAt.getTime()) ? savedAt.toISOString() : undefined,
+      },
+    });
+  }
+
+  return [...words.values()];
+}
+
+/**
+ * Read a picked KoboReader.sqlite file
+ */
+export async function readKoboWordListFile(uri: string): Promise<ImportWord[]> {
+  const db = await openSQLiteFile(uri);
+  try {
+    return await parseKoboWordList(db);
+  } catch (error) {
+    console.error('[Import] Failed to read KoboReader.sqlite:', error);
+    throw new Error('This file is not a KoboReader.sqlite database');
+  } finally {
+    await db.closeAsync();
+  }
+}
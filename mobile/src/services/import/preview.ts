@@ -0,0 +1,79 @@
+/**
+ * Import Preview
+ *
+ * Words parsed from an import file are shown to the user before anything is
+ * saved. Words already in the list (or repeated in the file) are flagged so
+ * only new words are passed on to bulkImport. After the import, every row
+ * is reported as imported, duplicate or invalid.
+ */
+
+import { BulkImportReport, BulkImportResult, ImportWord, Word } from '@types/index';
+import { InvalidRow } from './delimited';
+
+export interface ImportPreviewItem extends ImportWord {
+  duplicate: boolean;
+}
+
+export interface ImportPreview {
+  items: ImportPreviewItem[];
+  newWords: ImportWord[];
+  duplicateCount: number;
+  invalid: InvalidRow[]; // Rows that couldn't be read as a word
+}
+
+/**
+ * Flag duplicates against the existing word list (case-insensitive)
+ */
+export function buildImportPreview(
+  candidates: ImportWord[],
+  existingWords: Word[],
+  invalid: InvalidRow[] = []
+): ImportPreview {
+  const seen = new Set(existingWords.map((w) => w.word.trim().toLowerCase()));
+  const items: ImportPreviewItem[] = [];
+
+  for (const candidate of candidates) {
+    const key = candidate.word.trim().toLowerCase();
+    if (!key) continue;
+
+    items.push({ ...candidate, duplicate: seen.has(key) });
+    seen.add(key);
+  }
+
+  const newWords = items
+    .filter((item) => !item.duplicate)
+    .map(({ duplicate: _duplicate, ...word }) => word);
+
+  return {
+    items,
+    newWords,
+    duplicateCount: items.length - newWords.length,
+    invalid,
+  };
+}
+
+/**
+ * Per-row results of an import, in file order. Words flagged in the preview
+ * weren't sent to bulkImport; the rest take bulkImport's result.
+ */
+export function buildImportReport(preview: ImportPreview, report: BulkImportReport): BulkImportResult[] {
+  const byWord = new Map(report.results.map((r) => [r.word.toLowerCase(), r]));
+
+  const results: BulkImportResult[] = [
+    ...preview.items.map((item): BulkImportResult => {
+      const result = item.duplicate ? undefined : byWord.get(item.word.trim().toLowerCase());
+      if (result) {
+        return { ...result, row: item.row };
+      }
+      return { row: item.row, word: item.word, status: 'duplicate', reason: 'Already in your list' };
+    }),
+    ...preview.invalid.map((row): BulkImportResult => ({
+      row: row.row,
+      word: row.text,
+      status: 'invalid',
+      reason: row.reason,
+    })),
+  ];
+
+  return results.sort((a, b) => (a.row ?? 0) - (b.row ?? 0));
+}
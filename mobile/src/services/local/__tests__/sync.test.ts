@@ -0,0 +1,309 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { LocalStore, OutboxEntry } from '../database';
+import { FakeRemote } from '../fakeRemote';
+import { applyPendingChanges, resolveFieldConflicts, retryDelay, SyncEngine } from '../sync';
+
+jest.mock('react-native', () => ({ AppState: { addEventListener: jest.fn() } }));
+jest.mock('../../supabase/client', () => ({ supabase: {} }));
+
+const USER = 'user-1';
+
+function outboxEntry(payload: Record<string, any>, changedAt: string): OutboxEntry {
+  return {
+    id: 1,
+    table_name: 'words',
+    op: 'update',
+    record_id: 1,
+    payload,
+    base: null,
+    changed_at: changedAt,
+    attempts: 0,
+    status: 'pending',
+    last_error: null,
+  };
+}
+
+describe('resolveFieldConflicts', () => {
+  const base = { status: 'learning', mastery_level: 1 };
+
+  it('sends fields that only changed on this device', () => {
+    const server = { ...base, updated_at: '2024-01-02T00:00:00Z' };
+    expect(resolveFieldConflicts({ status: 'mastered' }, base, server, '2024-01-01T00:00:00Z')).toEqual({
+      status: 'mastered',
+    });
+  });
+
+  it('lets the later write win a field changed on both sides', () => {
+    const server = { status: 'archived', mastery_level: 1, updated_at: '2024-01-02T00:00:00Z' };
+    expect(resolveFieldConflicts({ status: 'mastered' }, base, server, '2024-01-03T00:00:00Z')).toEqual({
+      status: 'mastered',
+    });
+    expect(resolveFieldConflicts({ status: 'mastered' }, base, server, '2024-01-01T00:00:00Z')).toEqual({});
+  });
+
+  it('resolves each field on its own', () => {
+    const server = { status: 'archived', mastery_level: 1, updated_at: '2024-01-02T00:00:00Z' };
+    const changes = { status: 'mastered', mastery_level: 3 };
+    expect(resolveFieldConflicts(changes, base, server, '2024-01-01T00:00:00Z')).toEqual({
+      mastery_level: 3,
+    });
+  });
+
+  it('treats missing and null values as equal', () => {
+    const server = { notes: null, updated_at: '2024-01-02T00:00:00Z' };
+    expect(resolveFieldConflicts({ notes: 'mine' }, {}, server, '2024-01-01T00:00:00Z')).toEqual({
+      notes: 'mine',
+    });
+  });
+});
+
+describe('applyPendingChanges', () => {
+  it('applies queued edits over the server row in order', () => {
+    const server = { id: 1, word: 'apple', status: 'learning', mastery_level: 0 };
+    const pending = [
+      outboxEntry({ status: 'mastered' }, '2024-01-01T00:00:00Z'),
+      outboxEntry({ status: 'archived', mastery_level: 2 }, '2024-01-02T00:00:00Z'),
+    ];
+    expect(applyPendingChanges(server, pending)).toEqual({
+      id: 1,
+      word: 'apple',
+      status: 'archived',
+      mastery_level: 2,
+    });
+    expect(applyPendingChanges(server, [])).toBe(server);
+  });
+});
+
+describe('retryDelay', () => {
+  it('doubles with each failed attempt up to a cap', () => {
+    expect(retryDelay(2)).toBe(retryDelay(1) * 2);
+    expect(retryDelay(3)).toBe(retryDelay(1) * 4);
+    expect(retryDelay(50)).toBe(retryDelay(40));
+  });
+});
+
+describe('SyncEngine', () => {
+  let local: LocalStore;
+  let remote: FakeRemote;
+  let engine: SyncEngine;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    local = new LocalStore();
+    remote = new FakeRemote();
+    engine = new SyncEngine(local, remote);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('swaps temporary ids for server ids, also in child rows', async () => {
+    const word = await local.insert<any>('words', { user_id: USER, word: 'apple', status: 'learning' });
+    await local.insert('learning_progress', { user_id: USER, word_id: word.id, repetitions: 0 });
+    expect(word.id).toBeLessThan(0);
+
+    await engine.sync(USER);
+
+    const [serverWord] = remote.rows('words');
+    expect(serverWord).toMatchObject({ word: 'apple', status: 'learning' });
+    expect(remote.rows('learning_progress')).toEqual([
+      expect.objectContaining({ word_id: serverWord.id }),
+    ]);
+
+    expect(await local.resolveId('words', word.id)).toBe(serverWord.id);
+    expect(await local.get('words', word.id)).toMatchObject({ id: serverWord.id, word: 'apple' });
+    expect(await local.getAll('learning_progress', USER)).toEqual([
+      expect.objectContaining({ word_id: serverWord.id }),
+    ]);
+    expect(await local.pendingCount()).toBe(0);
+  });
+
+  it('sends queued inserts into one table in one request', async () => {
+    const words = [];
+    for (const word of ['apple', 'berry', 'cherry']) {
+      words.push(await local.insert<any>('words', { user_id: USER, word }));
+    }
+    const insertMany = jest.spyOn(remote, 'insertMany');
+    const insert = jest.spyOn(remote, 'insert');
+
+    await engine.sync(USER);
+
+    expect(insertMany).toHaveBeenCalledTimes(1);
+    expect(insertMany.mock.calls[0][1].map((row) => row.word)).toEqual(['apple', 'berry', 'cherry']);
+    expect(insert).toHaveBeenCalledTimes(3); // Only from within the fake's insertMany
+    for (const [i, serverWord] of remote.rows('words').entries()) {
+      expect(await local.resolveId('words', words[i].id)).toBe(serverWord.id);
+    }
+    expect(await local.pendingCount()).toBe(0);
+  });
+
+  it('keeps the queue order around batched inserts', async () => {
+    const apple = await local.insert<any>('words', { user_id: USER, word: 'apple' });
+    await local.insert<any>('words', { user_id: USER, word: 'berry' });
+    await local.insert('learning_progress', { user_id: USER, word_id: apple.id, repetitions: 0 });
+    await local.insert<any>('words', { user_id: USER, word: 'cherry' });
+    const insertMany = jest.spyOn(remote, 'insertMany');
+
+    await engine.sync(USER);
+
+    expect(insertMany.mock.calls.map(([table, rows]) => [table, rows.length])).toEqual([['words', 2]]);
+    expect(remote.rows('words')).toHaveLength(3);
+    expect(remote.rows('learning_progress')).toEqual([
+      expect.objectContaining({ word_id: await local.resolveId('words', apple.id) }),
+    ]);
+  });
+
+  it('sends the rows of a rejected batch one by one', async () => {
+    const existing = await remote.insert('words', { user_id: USER, word: 'berry', status: 'mastered' });
+    for (const word of ['apple', 'berry', 'cherry']) {
+      await local.insert<any>('words', { user_id: USER, word });
+    }
+
+    await engine.sync(USER);
+
+    expect(remote.rows('words').map((w) => w.word).sort()).toEqual(['apple', 'berry', 'cherry']);
+    expect(await local.getAll('words', USER)).toContainEqual(
+      expect.objectContaining({ id: existing.id, status: 'mastered' })
+    );
+    expect(await local.pendingCount()).toBe(0);
+  });
+
+  it('uses the existing server row when an insert hits a unique key', async () => {
+    const existing = await remote.insert('words', { user_id: USER, word: 'apple', status: 'mastered' });
+    const word = await local.insert<any>('words', { user_id: USER, word: 'apple', status: 'learning' });
+
+    await engine.sync(USER);
+
+    expect(remote.rows('words')).toHaveLength(1);
+    expect(await local.resolveId('words', word.id)).toBe(existing.id);
+    expect(await local.getAll('words', USER)).toEqual([
+      expect.objectContaining({ id: existing.id, status: 'mastered' }),
+    ]);
+  });
+
+  it('keeps fields changed on the server when pushing a local edit', async () => {
+    const serverWord = await remote.insert('words', { user_id: USER, word: 'apple', status: 'learning', notes: null });
+    await engine.sync(USER);
+
+    await local.update('words', serverWord.id, { notes: 'a fruit' });
+    await remote.update('words', serverWord.id, { status: 'mastered' });
+    await engine.sync(USER);
+
+    expect(remote.rows('words')[0]).toMatchObject({ status: 'mastered', notes: 'a fruit' });
+    expect(await local.get('words', serverWord.id)).toMatchObject({ status: 'mastered', notes: 'a fruit' });
+  });
+
+  it('sends an edit made while the row insert is in flight', async () => {
+    const word = await local.insert<any>('words', { user_id: USER, word: 'apple', notes: null });
+    const insert = remote.insert.bind(remote);
+    jest.spyOn(remote, 'insert').mockImplementationOnce(async (table, row) => {
+      await local.update('words', word.id, { notes: 'a fruit' });
+      return insert(table, row);
+    });
+
+    await engine.sync(USER);
+    expect(await local.get('words', word.id)).toMatchObject({ notes: 'a fruit' });
+
+    await engine.sync(USER);
+    expect(remote.rows('words')[0]).toMatchObject({ word: 'apple', notes: 'a fruit' });
+    expect(await local.pendingCount()).toBe(0);
+  });
+
+  it('deletes a row on the server that was deleted while its insert was in flight', async () => {
+    const word = await local.insert<any>('words', { user_id: USER, word: 'apple' });
+    const insert = remote.insert.bind(remote);
+    jest.spyOn(remote, 'insert').mockImplementationOnce(async (table, row) => {
+      await local.delete('words', word.id);
+      return insert(table, row);
+    });
+
+    await engine.sync(USER);
+    await engine.sync(USER);
+
+    expect(remote.rows('words')).toEqual([]);
+    expect(await local.getAll('words', USER)).toEqual([]);
+  });
+
+  it('keeps the queue when offline', async () => {
+    await local.insert('words', { user_id: USER, word: 'apple' });
+    remote.offline = true;
+
+    await expect(engine.sync(USER)).rejects.toThrow('Network request failed');
+    expect(await local.pendingCount()).toBe(1);
+
+    remote.offline = false;
+    await engine.sync(USER);
+    expect(remote.rows('words')).toHaveLength(1);
+  });
+
+  it('retries a rejected change after a backoff', async () => {
+    await local.insert('words', { user_id: USER, word: 'apple' });
+    const insert = jest.spyOn(remote, 'insert').mockRejectedValueOnce(new Error('permission denied'));
+
+    await engine.sync(USER);
+    expect(insert).toHaveBeenCalledTimes(1);
+    const [op] = await local.pendingOps();
+    expect(op).toMatchObject({ attempts: 1, last_error: 'permission denied', status: 'pending' });
+
+    await engine.sync(USER);
+    expect(insert).toHaveBeenCalledTimes(1);
+
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValue(now + retryDelay(1));
+    await engine.sync(USER);
+    expect(insert).toHaveBeenCalledTimes(2);
+    expect(remote.rows('words')).toHaveLength(1);
+    expect(await local.pendingCount()).toBe(0);
+  });
+
+  it('removes local rows deleted on the server', async () => {
+    const serverWord = await remote.insert('words', { user_id: USER, word: 'apple' });
+    await engine.sync(USER);
+    expect(await local.getAll('words', USER)).toHaveLength(1);
+
+    await remote.remove('words', serverWord.id);
+    await engine.sync(USER);
+    expect(await local.getAll('words', USER)).toEqual([]);
+  });
+
+  it('pulls every row when the server caps the rows per request', async () => {
+    remote.maxRows = 2;
+    for (const word of ['apple', 'berry', 'cherry', 'date', 'elder']) {
+      await remote.insert('words', { user_id: USER, word });
+    }
+    const fetchPage = jest.spyOn(remote, 'fetchPage');
+
+    await engine.sync(USER);
+    expect((await local.getAll<any>('words', USER)).map((w) => w.word).sort()).toEqual([
+      'apple',
+      'berry',
+      'cherry',
+      'date',
+      'elder',
+    ]);
+    expect(fetchPage.mock.calls.filter(([table]) => table === 'words')).toHaveLength(3);
+
+    await remote.remove('words', remote.rows('words')[4].id);
+    await engine.sync(USER);
+    expect(await local.getAll('words', USER)).toHaveLength(4);
+  });
+
+  it('keeps local rows when a pull comes back incomplete', async () => {
+    for (const word of ['apple', 'berry', 'cherry']) {
+      await remote.insert('words', { user_id: USER, word });
+    }
+    await engine.sync(USER);
+
+    // The first page is cut short and the rest doesn't arrive
+    const fetchPage = remote.fetchPage.bind(remote);
+    jest.spyOn(remote, 'fetchPage').mockImplementation(async (table, userId, afterId, limit) => {
+      const page = await fetchPage(table, userId, afterId, limit);
+      return table === 'words' ? { rows: afterId === 0 ? page.rows.slice(0, 1) : [], count: page.count } : page;
+    });
+
+    await engine.sync(USER);
+    expect(await local.getAll('words', USER)).toHaveLength(3);
+  });
+});
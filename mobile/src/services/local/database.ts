@@ -0,0 +1,461 @@
+/**
+ * Local Database (expo-sqlite)
+ *
+ * Offline mirror of the user's words, learning_progress, puzzles and
+ * puzzle_attempts. Rows are stored as JSON documents keyed by id. Local
+ * writes are applied here immediately and queued in the outbox, which the
+ * SyncEngine (./sync.ts) pushes to Supabase when the network is available.
+ *
+ * Rows created offline get a negative temporary id until their insert has
+ * been synced; the id is then swapped for the server id everywhere
+ * (including foreign keys in other tables and queued operations).
+ */
+
+import * as SQLite from 'expo-sqlite';
+import { withoutAnswers } from '@shared/puzzleAnswers';
+
+export type SyncedTable = 'words' | 'learning_progress' | 'puzzles' | 'puzzle_attempts';
+
+export const SYNCED_TABLES: SyncedTable[] = ['words', 'learning_progress', 'puzzles', 'puzzle_attempts'];
+
+// Columns in other tables that point at a table's id
+export const FOREIGN_KEYS: Record<SyncedTable, { table: SyncedTable; column: string }[]> = {
+  words: [{ table: 'learning_progress', column: 'word_id' }],
+  learning_progress: [],
+  puzzles: [{ table: 'puzzle_attempts', column: 'puzzle_id' }],
+  puzzle_attempts: [],
+};
+
+// How rows are kept on the device: puzzles without their answers, which only
+// the edge functions read (check-answer, update-learning-progress)
+const LOCAL_COPY: Partial<Record<SyncedTable, (row: Row) => Row>> = {
+  puzzles: withoutAnswers,
+};
+
+export type OutboxOp = 'insert' | 'update' | 'delete' | 'invoke';
+
+export interface OutboxEntry {
+  id: number;
+  table_name: string | null; // null for invoke
+  op: OutboxOp;
+  record_id: number | null;
+  payload: Record<string, any>; // Row (insert), changed fields (update), { fn, body } (invoke)
+  base: Record<string, any> | null; // Field values before the local edit (update)
+  changed_at: string;
+  attempts: number;
+  status: 'pending' | 'failed'; // 'failed' entries (parked by older versions) are requeued on open
+  last_error: string | null;
+}
+
+type Row = Record<string, any>;
+
+const DATABASE_NAME = 'wordds.db';
+
+const SCHEMA = `
+PRAGMA journal_mode = WAL;
+${SYNCED_TABLES.map(
+  (table) => `
+CREATE TABLE IF NOT EXISTS ${table} (
+  id INTEGER PRIMARY KEY NOT NULL,
+  user_id TEXT,
+  data TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_${table}_user_id ON ${table}(user_id);`
+).join('\n')}
+
+CREATE TABLE IF NOT EXISTS outbox (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  table_name TEXT,
+  op TEXT NOT NULL,
+  record_id INTEGER,
+  payload TEXT NOT NULL,
+  base TEXT,
+  changed_at TEXT NOT NULL,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'pending',
+  last_error TEXT
+);
+
+CREATE TABLE IF NOT EXISTS id_map (
+  table_name TEXT NOT NULL,
+  local_id INTEGER NOT NULL,
+  remote_id INTEGER NOT NULL,
+  PRIMARY KEY (table_name, local_id)
+);
+
+CREATE TABLE IF NOT EXISTS sync_state (
+  user_id TEXT PRIMARY KEY NOT NULL,
+  last_synced_at TEXT
+);
+
+CREATE TABLE IF NOT EXISTS definition_cache (
+  word_key TEXT PRIMARY KEY NOT NULL,
+  data TEXT NOT NULL,
+  cached_at TEXT NOT NULL
+);
+`;
+
+let tempIdCounter = 0;
+
+/**
+ * A negative id for rows created offline (never collides with SERIAL ids)
+ */
+export function createTempId(): number {
+  tempIdCounter = (tempIdCounter + 1) % 1000;
+  return -(Date.now() * 1000 + tempIdCounter);
+}
+
+export function isTempId(id: number | null | undefined): boolean {
+  return typeof id === 'number' && id < 0;
+}
+
+export class LocalStore {
+  private db: Promise<SQLite.SQLiteDatabase> | null = null;
+
+  private getDb(): Promise<SQLite.SQLiteDatabase> {
+    if (!this.db) {
+      this.db = SQLite.openDatabaseAsync(DATABASE_NAME).then(async (db) => {
+        await db.execAsync(SCHEMA);
+        await db.runAsync("UPDATE outbox SET status = 'pending' WHERE status = 'failed'");
+        console.log('[LocalDB] Opened local database');
+        return db;
+      });
+    }
+    return this.db;
+  }
+
+  // ── Reads ──────────────────────────────────────────────────────────
+
+  async getAll<T = Row>(table: SyncedTable, userId: string): Promise<T[]> {
+    const db = await this.getDb();
+    const rows = await db.getAllAsync<{ data: string }>(
+      `SELECT data FROM ${table} WHERE user_id = ?`,
+      userId
+    );
+    return rows.map((r) => JSON.parse(r.data) as T);
+  }
+
+  async get<T = Row>(table: SyncedTable, id: number): Promise<T | null> {
+    const db = await this.getDb();
+    const row = await db.getFirstAsync<{ data: string }>(
+      `SELECT data FROM ${table} WHERE id = ?`,
+      await this.resolveId(table, id)
+    );
+    return row ? (JSON.parse(row.data) as T) : null;
+  }
+
+  /**
+   * The server id for a row that may have been created offline
+   */
+  async resolveId(table: string, id: number): Promise<number> {
+    if (!isTempId(id)) return id;
+    const db = await this.getDb();
+    const mapped = await db.getFirstAsync<{ remote_id: number }>(
+      'SELECT remote_id FROM id_map WHERE table_name = ? AND local_id = ?',
+      table,
+      id
+    );
+    return mapped ? mapped.remote_id : id;
+  }
+
+  // ── Local-first writes (applied now, synced later) ─────────────────
+
+  /**
+   * Insert a row locally and queue it for the server
+   */
+  async insert<T = Row>(table: SyncedTable, row: Row): Promise<T> {
+    const now = new Date().toISOString();
+    const record = { ...row, id: createTempId(), updated_at: now };
+
+    await this.put(table, record);
+    await this.enqueue({ table_name: table, op: 'insert', record_id: record.id, payload: record });
+    return record as T;
+  }
+
+  /**
+   * Update fields of a row locally and queue the change
+   */
+  async update<T = Row>(table: SyncedTable, id: number, changes: Row): Promise<T> {
+    const resolvedId = await this.resolveId(table, id);
+    const current = await this.get(table, resolvedId);
+    if (!current) {
+      throw new Error(`${table} ${id} not found locally`);
+    }
+
+    // updated_at is maintained by the server
+    const { updated_at: _ignored, ...fields } = changes;
+    const updated = { ...current, ...fields };
+    await this.put(table, updated);
+
+    if (isTempId(resolvedId)) {
+      // Not on the server yet: fold the change into the queued insert
+      await this.mergeIntoPendingInsert(table, resolvedId, fields);
+    } else {
+      const base: Row = {};
+      for (const field of Object.keys(fields)) {
+        base[field] = current[field] ?? null;
+      }
+      await this.enqueue({ table_name: table, op: 'update', record_id: resolvedId, payload: fields, base });
+    }
+
+    return updated as T;
+  }
+
+  /**
+   * Delete a row locally and queue the delete
+   */
+  async delete(table: SyncedTable, id: number): Promise<void> {
+    const resolvedId = await this.resolveId(table, id);
+    await this.remove(table, resolvedId);
+
+    const db = await this.getDb();
+    if (isTempId(resolvedId)) {
+      // Never reached the server, so just drop its queued operations
+      await db.runAsync(
+        'DELETE FROM outbox WHERE table_name = ? AND record_id = ?',
+        table,
+        resolvedId
+      );
+      return;
+    }
+
+    await db.runAsync(
+      "DELETE FROM outbox WHERE table_name = ? AND record_id = ? AND op = 'update'",
+      table,
+      resolvedId
+    );
+    await this.enqueue({ table_name: table, op: 'delete', record_id: resolvedId, payload: {} });
+  }
+
+  /**
+   * Queue an insert into a table that is not mirrored locally (e.g. word_interactions)
+   */
+  async enqueueRemoteInsert(table: string, row: Row): Promise<void> {
+    await this.enqueue({ table_name: table, op: 'insert', record_id: null, payload: row });
+  }
+
+  /**
+   * Queue an edge function call. Ids in refs (body key -> table) are
+   * resolved to server ids when the call is sent.
+   */
+  async enqueueInvoke(fn: string, body: Row, refs: Record<string, SyncedTable> = {}): Promise<void> {
+    await this.enqueue({ table_name: null, op: 'invoke', record_id: null, payload: { fn, body, refs } });
+  }
+
+  // ── Used by the SyncEngine ─────────────────────────────────────────
+
+  /**
+   * Write a row (no outbox entry)
+   */
+  async put(table: SyncedTable, row: Row): Promise<void> {
+    const db = await this.getDb();
+    const localCopy = LOCAL_COPY[table];
+    await db.runAsync(
+      `INSERT OR REPLACE INTO ${table} (id, user_id, data) VALUES (?, ?, ?)`,
+      row.id,
+      row.user_id ?? null,
+      JSON.stringify(localCopy ? localCopy(row) : row)
+    );
+  }
+
+  async remove(table: SyncedTable, id: number): Promise<void> {
+    const db = await this.getDb();
+    await db.runAsync(`DELETE FROM ${table} WHERE id = ?`, id);
+  }
+
+  async pendingOps(): Promise<OutboxEntry[]> {
+    const db = await this.getDb();
+    const rows = await db.getAllAsync<any>(
+      "SELECT * FROM outbox WHERE status = 'pending' ORDER BY id ASC"
+    );
+    return rows.map((r) => ({
+      ...r,
+      payload: JSON.parse(r.payload),
+      base: r.base ? JSON.parse(r.base) : null,
+    }));
+  }
+
+  async pendingCount(): Promise<number> {
+    const db = await this.getDb();
+    const row = await db.getFirstAsync<{ count: number }>(
+      "SELECT COUNT(*) AS count FROM outbox WHERE status = 'pending'"
+    );
+    return row?.count ?? 0;
+  }
+
+  async completeOp(opId: number): Promise<void> {
+    const db = await this.getDb();
+    await db.runAsync('DELETE FROM outbox WHERE id = ?', opId);
+  }
+
+  /**
+   * Record a failed push; the entry stays queued and is retried
+   */
+  async failOp(opId: number, error: string): Promise<void> {
+    const db = await this.getDb();
+    await db.runAsync(
+      'UPDATE outbox SET attempts = attempts + 1, last_error = ? WHERE id = ?',
+      error,
+      opId
+    );
+  }
+
+  /**
+   * Queue what happened to a row while its insert was on the way to the
+   * server: edits folded into the queued insert after it was sent become an
+   * update of the server row, and a row deleted meanwhile is deleted there too
+   */
+  async requeueAfterInsert(table: SyncedTable, opId: number, sent: Row, remoteId: number): Promise<void> {
+    const db = await this.getDb();
+    const entry = await db.getFirstAsync<{ payload: string }>(
+      'SELECT payload FROM outbox WHERE id = ?',
+      opId
+    );
+    if (!entry) {
+      await this.delete(table, remoteId);
+      return;
+    }
+
+    const fields: Row = {};
+    const base: Row = {};
+    for (const [field, value] of Object.entries(JSON.parse(entry.payload) as Row)) {
+      if (field === 'id' || field === 'updated_at') continue;
+      if (JSON.stringify(value ?? null) !== JSON.stringify(sent[field] ?? null)) {
+        fields[field] = value;
+        base[field] = sent[field] ?? null;
+      }
+    }
+
+    if (Object.keys(fields).length === 0) return;
+
+    await this.enqueue({ table_name: table, op: 'update', record_id: remoteId, payload: fields, base });
+    const current = await this.get(table, remoteId);
+    if (current) {
+      await this.put(table, { ...current, ...fields });
+    }
+  }
+
+  /**
+   * Swap a temporary id for the server id after its insert synced
+   */
+  async remapId(table: SyncedTable, localId: number, serverRow: Row): Promise<void> {
+    const db = await this.getDb();
+    const remoteId = serverRow.id as number;
+
+    await db.withTransactionAsync(async () => {
+      await db.runAsync(`DELETE FROM ${table} WHERE id = ?`, localId);
+      await db.runAsync(
+        'INSERT OR REPLACE INTO id_map (table_name, local_id, remote_id) VALUES (?, ?, ?)',
+        table,
+        localId,
+        remoteId
+      );
+      await db.runAsync(
+        'UPDATE outbox SET record_id = ? WHERE table_name = ? AND record_id = ?',
+        remoteId,
+        table,
+        localId
+      );
+    });
+    await this.put(table, serverRow);
+
+    // Point child rows and their queued inserts at the new id
+    for (const { table: childTable, column } of FOREIGN_KEYS[table]) {
+      const children = await db.getAllAsync<{ data: string }>(`SELECT data FROM ${childTable}`);
+      for (const child of children.map((c) => JSON.parse(c.data))) {
+        if (child[column] === localId) {
+          await this.put(childTable, { ...child, [column]: remoteId });
+        }
+      }
+
+      const queued = await db.getAllAsync<{ id: number; payload: string }>(
+        "SELECT id, payload FROM outbox WHERE table_name = ? AND op = 'insert'",
+        childTable
+      );
+      for (const entry of queued) {
+        const payload = JSON.parse(entry.payload);
+        if (payload[column] === localId) {
+          payload[column] = remoteId;
+          await db.runAsync(
+            'UPDATE outbox SET payload = ? WHERE id = ?',
+            JSON.stringify(payload),
+            entry.id
+          );
+        }
+      }
+    }
+  }
+
+  async getLastSyncedAt(userId: string): Promise<string | null> {
+    const db = await this.getDb();
+    const row = await db.getFirstAsync<{ last_synced_at: string | null }>(
+      'SELECT last_synced_at FROM sync_state WHERE user_id = ?',
+      userId
+    );
+    return row?.last_synced_at ?? null;
+  }
+
+  async setLastSyncedAt(userId: string, timestamp: string): Promise<void> {
+    const db = await this.getDb();
+    await db.runAsync(
+      'INSERT OR REPLACE INTO sync_state (user_id, last_synced_at) VALUES (?, ?)',
+      userId,
+      timestamp
+    );
+  }
+
+  // ── Definition cache (not synced) ──────────────────────────────────
+
+  async getCachedDefinition<T = Row>(wordKey: string): Promise<T | null> {
+    const db = await this.getDb();
+    const row = await db.getFirstAsync<{ data: string }>(
+      'SELECT data FROM definition_cache WHERE word_key = ?',
+      wordKey
+    );
+    return row ? (JSON.parse(row.data) as T) : null;
+  }
+
+  async putCachedDefinition(wordKey: string, definition: Row): Promise<void> {
+    const db = await this.getDb();
+    await db.runAsync(
+      'INSERT OR REPLACE INTO definition_cache (word_key, data, cached_at) VALUES (?, ?, ?)',
+      wordKey,
+      JSON.stringify(definition),
+      new Date().toISOString()
+    );
+  }
+
+  private async enqueue(entry: {
+    table_name: string | null;
+    op: OutboxOp;
+    record_id: number | null;
+    payload: Row;
+    base?: Row;
+  }): Promise<void> {
+    const db = await this.getDb();
+    await db.runAsync(
+      'INSERT INTO outbox (table_name, op, record_id, payload, base, changed_at) VALUES (?, ?, ?, ?, ?, ?)',
+      entry.table_name,
+      entry.op,
+      entry.record_id,
+      JSON.stringify(entry.payload),
+      entry.base ? JSON.stringify(entry.base) : null,
+      new Date().toISOString()
+    );
+  }
+
+  private async mergeIntoPendingInsert(table: SyncedTable, id: number, fields: Row): Promise<void> {
+    const db = await this.getDb();
+    const entry = await db.getFirstAsync<{ id: number; payload: string }>(
+      "SELECT id, payload FROM outbox WHERE table_name = ? AND record_id = ? AND op = 'insert'",
+      table,
+      id
+    );
+    if (!entry) return;
+
+    const payload = { ...JSON.parse(entry.payload), ...fields };
+    await db.runAsync('UPDATE outbox SET payload = ? WHERE id = ?', JSON.stringify(payload), entry.id);
+  }
+}
+
+export const localStore = new LocalStore();
@@ -0,0 +1,23 @@
+/**
+ * On-device definition cache: the first provider in the definition chain,
+ * so words looked up once are defined offline afterwards
+ */
+
+import {
+  DefinitionProvider,
+  DefinitionResult,
+  definitionKey,
+} from '@shared/definitions/definitionChain';
+import { localStore } from './database';
+
+export const localDefinitionCache: DefinitionProvider = {
+  name: 'local_cache',
+
+  async lookup(word) {
+    return localStore.getCachedDefinition<DefinitionResult>(definitionKey(word));
+  },
+
+  async store(result, word) {
+    await localStore.putCachedDefinition(definitionKey(word), result);
+  },
+};
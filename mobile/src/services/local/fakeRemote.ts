@@ -0,0 +1,127 @@
+/**
+ * Fake Remote
+ *
+ * In-memory RemoteAdapter for running the SyncEngine without Supabase
+ * (tests, storybook). Rows get serial ids and a fresh updated_at on every
+ * write like the server's tables, and the unique keys of words and
+ * learning_progress raise Postgres unique_violation (23505). Pages hold at
+ * most maxRows rows, like the API's max_rows. While offline every call fails
+ * with the same error fetch gives without a network.
+ */
+
+import { RemoteAdapter, RowPage } from './sync';
+import { SyncedTable } from './database';
+
+type Row = Record<string, any>;
+
+// Columns of each table's unique constraint, as on the server
+const DEFAULT_UNIQUE_KEYS: Record<string, string[]> = {
+  words: ['user_id', 'word'],
+  learning_progress: ['user_id', 'word_id'],
+};
+
+export class FakeRemote implements RemoteAdapter {
+  offline = false;
+  maxRows = Number.POSITIVE_INFINITY;
+  readonly invocations: { fn: string; body: Row }[] = [];
+
+  private tables = new Map<string, Row[]>();
+  private nextId = 1000;
+
+  constructor(private uniqueKeys: Record<string, string[]> = DEFAULT_UNIQUE_KEYS) {}
+
+  /**
+   * Copies of the rows of a table
+   */
+  rows(table: string): Row[] {
+    return this.table(table).map((row) => ({ ...row }));
+  }
+
+  async fetchPage(table: SyncedTable, userId: string, afterId: number, limit: number): Promise<RowPage> {
+    this.checkOnline();
+    const matching = this.rows(table)
+      .filter((row) => row.user_id === userId && row.id > afterId)
+      .sort((a, b) => a.id - b.id);
+    return { rows: matching.slice(0, Math.min(limit, this.maxRows)), count: matching.length };
+  }
+
+  async fetchOne(table: string, id: number): Promise<Row | null> {
+    this.checkOnline();
+    const row = this.table(table).find((r) => r.id === id);
+    return row ? { ...row } : null;
+  }
+
+  async fetchMatching(table: string, match: Row): Promise<Row | null> {
+    this.checkOnline();
+    const row = this.table(table).find((r) =>
+      Object.entries(match).every(([key, value]) => r[key] === value)
+    );
+    return row ? { ...row } : null;
+  }
+
+  async insert(table: string, row: Row): Promise<Row> {
+    this.checkOnline();
+    const keys = this.uniqueKeys[table];
+    if (keys && this.table(table).some((r) => keys.every((key) => r[key] === row[key]))) {
+      throw {
+        code: '23505',
+        message: `duplicate key value violates unique constraint on ${table} (${keys.join(', ')})`,
+      };
+    }
+
+    const record = { ...row, id: row.id ?? this.nextId++, updated_at: new Date().toISOString() };
+    this.table(table).push(record);
+    return { ...record };
+  }
+
+  async insertMany(table: string, rows: Row[]): Promise<Row[]> {
+    this.checkOnline();
+    // All or none, like a single INSERT
+    const before = this.table(table).slice();
+    try {
+      const inserted: Row[] = [];
+      for (const row of rows) {
+        inserted.push(await this.insert(table, row));
+      }
+      return inserted;
+    } catch (error) {
+      this.tables.set(table, before);
+      throw error;
+    }
+  }
+
+  async update(table: string, id: number, changes: Row): Promise<Row> {
+    this.checkOnline();
+    const row = this.table(table).find((r) => r.id === id);
+    if (!row) {
+      throw { code: 'PGRST116', message: `${table} ${id} not found` };
+    }
+
+    Object.assign(row, changes, { updated_at: new Date().toISOString() });
+    return { ...row };
+  }
+
+  async remove(table: string, id: number): Promise<void> {
+    this.checkOnline();
+    this.tables.set(table, this.table(table).filter((r) => r.id !== id));
+  }
+
+  async invoke(fn: string, body: Row): Promise<any> {
+    this.checkOnline();
+    this.invocations.push({ fn, body });
+    return {};
+  }
+
+  private table(table: string): Row[] {
+    if (!this.tables.has(table)) {
+      this.tables.set(table, []);
+    }
+    return this.tables.get(table)!;
+  }
+
+  private checkOnline(): void {
+    if (this.offline) {
+      throw new TypeError('Network request failed');
+    }
+  }
+}
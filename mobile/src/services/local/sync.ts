@@ -0,0 +1,490 @@
+/**
+ * Sync Engine
+ *
+ * Pushes the local outbox to Supabase and pulls the server copy of the
+ * mirrored tables back into the local database. Inserts queued one after
+ * another into the same table are pushed as one multi-row insert.
+ *
+ * Conflicts are resolved per field, last writer wins:
+ * - A queued update remembers each field's value before the local edit (base)
+ * - If the server value still equals base, only this device changed the
+ *   field and the local value is sent
+ * - If the server value changed too, the newer write wins: the local edit's
+ *   changed_at against the server row's updated_at
+ * Fields that were only changed on the server are never overwritten. Device
+ * clocks are trusted for changed_at, so a badly skewed clock can lose or win
+ * conflicts it shouldn't.
+ *
+ * A change the server rejects stays queued and is retried with exponential
+ * backoff (up to every few hours), so nothing is dropped silently.
+ *
+ * The pull pages through each table by id. Local rows the server no longer
+ * has are removed only after a pull that got every row.
+ *
+ * The remote side is a RemoteAdapter so the engine can run against a fake
+ * remote (./fakeRemote.ts: tests, storybook) instead of Supabase.
+ */
+
+import { AppState } from 'react-native';
+import { supabase } from '../supabase/client';
+import {
+  isTempId,
+  localStore,
+  LocalStore,
+  OutboxEntry,
+  SYNCED_TABLES,
+  SyncedTable,
+} from './database';
+
+type Row = Record<string, any>;
+
+export interface RowPage {
+  rows: Row[];
+  count: number; // All rows the request matched, also those past the page
+}
+
+export interface RemoteAdapter {
+  fetchPage(table: SyncedTable, userId: string, afterId: number, limit: number): Promise<RowPage>;
+  fetchOne(table: string, id: number): Promise<Row | null>;
+  fetchMatching(table: string, match: Row): Promise<Row | null>;
+  insert(table: string, row: Row): Promise<Row>;
+  insertMany(table: string, rows: Row[]): Promise<Row[]>; // All or none, returned in the order sent
+  update(table: string, id: number, changes: Row): Promise<Row>;
+  remove(table: string, id: number): Promise<void>;
+  invoke(fn: string, body: Row): Promise<any>;
+}
+
+// Changes the server rejected are retried with exponential backoff
+const RETRY_BASE_DELAY_MS = 30000;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+
+// Postgres unique_violation, and the columns of each table's unique constraint
+const UNIQUE_VIOLATION = '23505';
+const UNIQUE_KEYS: Partial<Record<SyncedTable, string[]>> = {
+  words: ['user_id', 'word'], // unique_user_word
+  learning_progress: ['user_id', 'word_id'], // unique_user_word_progress
+};
+const RETRY_INTERVAL_MS = 60000; // Retry pending changes every minute while the app is open
+const PULL_PAGE_SIZE = 1000; // max_rows of the API (supabase/config.toml)
+const PUSH_BATCH_SIZE = 100; // Queued inserts into one table sent per request
+
+/**
+ * The fields of a queued update that should be sent to the server
+ */
+export function resolveFieldConflicts(
+  changes: Row,
+  base: Row,
+  serverRow: Row,
+  changedAt: string
+): Row {
+  const serverUpdatedAt = serverRow.updated_at ? new Date(serverRow.updated_at).getTime() : 0;
+  const localChangedAt = new Date(changedAt).getTime();
+  const winners: Row = {};
+
+  for (const [field, value] of Object.entries(changes)) {
+    const changedOnServer = !sameValue(serverRow[field], base[field]);
+    if (!changedOnServer || localChangedAt >= serverUpdatedAt) {
+      winners[field] = value;
+    }
+  }
+
+  return winners;
+}
+
+/**
+ * Merge a server row with local edits that haven't been pushed yet
+ */
+export function applyPendingChanges(serverRow: Row, pending: OutboxEntry[]): Row {
+  return pending.reduce((row, entry) => ({ ...row, ...entry.payload }), serverRow);
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+/**
+ * True for errors where the request never reached the server
+ */
+export function isNetworkError(error: any): boolean {
+  if (!error) return false;
+  if (error.name === 'FunctionsFetchError') return true;
+  const message = String(error.message || error);
+  return /network request failed|failed to fetch|network error|timed? ?out/i.test(message);
+}
+
+/**
+ * Wait before the next try of a change that failed attempts times
+ */
+export function retryDelay(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1), MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * The queued inserts into the same table starting at ops[start]
+ */
+function insertRun(ops: OutboxEntry[], start: number): OutboxEntry[] {
+  const run: OutboxEntry[] = [];
+  for (let i = start; i < ops.length && run.length < PUSH_BATCH_SIZE; i++) {
+    if (ops[i].op !== 'insert' || ops[i].table_name !== ops[start].table_name) break;
+    run.push(ops[i]);
+  }
+  return run;
+}
+
+export const supabaseRemote: RemoteAdapter = {
+  async fetchPage(table, userId, afterId, limit) {
+    const { data, error, count } = await supabase
+      .from(table)
+      .select('*', { count: 'exact' })
+      .eq('user_id', userId)
+      .gt('id', afterId)
+      .order('id', { ascending: true })
+      .limit(limit);
+    if (error) throw error;
+    return { rows: data || [], count: count ?? Number.POSITIVE_INFINITY };
+  },
+
+  async fetchOne(table, id) {
+    const { data, error } = await supabase.from(table).select('*').eq('id', id).maybeSingle();
+    if (error) throw error;
+    return data;
+  },
+
+  async fetchMatching(table, match) {
+    const { data, error } = await supabase.from(table).select('*').match(match).maybeSingle();
+    if (error) throw error;
+    return data;
+  },
+
+  async insert(table, row) {
+    const { data, error } = await supabase.from(table).insert(row).select().single();
+    if (error) throw error;
+    return data;
+  },
+
+  async insertMany(table, rows) {
+    const { data, error } = await supabase.from(table).insert(rows).select();
+    if (error) throw error;
+    return data || [];
+  },
+
+  async update(table, id, changes) {
+    const { data, error } = await supabase
+      .from(table)
+      .update(changes)
+      .eq('id', id)
+      .select()
+      .single();
+    if (error) throw error;
+    return data;
+  },
+
+  async remove(table, id) {
+    const { error } = await supabase.from(table).delete().eq('id', id);
+    if (error) throw error;
+  },
+
+  async invoke(fn, body) {
+    const { data, error } = await supabase.functions.invoke(fn, { body });
+    if (error) throw error;
+    return data;
+  },
+};
+
+export class SyncEngine {
+  private running: Promise<void> | null = null;
+  private retryAt = new Map<number, number>(); // Outbox entry id -> time of the next try
+
+  constructor(
+    private local: LocalStore,
+    private remote: RemoteAdapter
+  ) {}
+
+  /**
+   * Push queued changes, then pull the server state. Concurrent calls share
+   * one run. Rejects with a network error when offline; queued changes are
+   * kept for the next run.
+   */
+  sync(userId: string): Promise<void> {
+    if (!this.running) {
+      this.running = this.run(userId).finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  /**
+   * Sync without waiting or failing (e.g. after a local write)
+   */
+  requestSync(userId: string): void {
+    this.sync(userId).catch((error) => {
+      if (!isNetworkError(error)) {
+        console.error('[Sync] Sync failed:', error);
+      }
+    });
+  }
+
+  async hasSynced(userId: string): Promise<boolean> {
+    return (await this.local.getLastSyncedAt(userId)) !== null;
+  }
+
+  /**
+   * Sync now, when the app returns to the foreground and periodically while
+   * changes are waiting. Returns a function that stops auto sync.
+   */
+  startAutoSync(userId: string): () => void {
+    this.requestSync(userId);
+
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        this.requestSync(userId);
+      }
+    });
+
+    const interval = setInterval(async () => {
+      if ((await this.local.pendingCount()) > 0) {
+        this.requestSync(userId);
+      }
+    }, RETRY_INTERVAL_MS);
+
+    return () => {
+      subscription.remove();
+      clearInterval(interval);
+    };
+  }
+
+  private async run(userId: string): Promise<void> {
+    await this.push();
+    await this.pull(userId);
+    await this.local.setLastSyncedAt(userId, new Date().toISOString());
+  }
+
+  private async push(): Promise<void> {
+    const ops = await this.local.pendingOps();
+    if (ops.length > 0) {
+      console.log(`[Sync] Pushing ${ops.length} queued changes`);
+    }
+
+    const ready = ops.filter((op) => (this.retryAt.get(op.id) || 0) <= Date.now());
+    for (let i = 0; i < ready.length; ) {
+      // Inserts queued one after another into the same table (e.g. an
+      // import) go in one request; a rejected batch is sent row by row
+      const batch = insertRun(ready, i);
+      if (batch.length > 1 && (await this.pushInserts(batch))) {
+        i += batch.length;
+        continue;
+      }
+
+      const op = ready[i++];
+      try {
+        await this.pushOp(op);
+        await this.completeOp(op);
+      } catch (error: any) {
+        // Offline: stop here and keep the queue order for the next run
+        if (isNetworkError(error)) throw error;
+
+        console.error(`[Sync] Failed to push ${op.op} on ${op.table_name}:`, error);
+        await this.local.failOp(op.id, error.message || String(error));
+        this.retryAt.set(op.id, Date.now() + retryDelay(op.attempts + 1));
+      }
+    }
+  }
+
+  private async completeOp(op: OutboxEntry): Promise<void> {
+    await this.local.completeOp(op.id);
+    this.retryAt.delete(op.id);
+  }
+
+  /**
+   * Send queued inserts into one table as a multi-row insert. Returns false
+   * when the server rejects it (one of the rows is invalid or already on the
+   * server); nothing was inserted then.
+   */
+  private async pushInserts(ops: OutboxEntry[]): Promise<boolean> {
+    const table = ops[0].table_name as SyncedTable;
+    const rows: Row[] = [];
+    let serverRows: Row[];
+
+    try {
+      for (const op of ops) {
+        const { id: _localId, updated_at: _ignored, ...row } = op.payload;
+        rows.push(await this.resolveForeignKeys(table, row));
+      }
+      serverRows = await this.remote.insertMany(table, rows);
+    } catch (error) {
+      if (isNetworkError(error)) throw error;
+      console.log(`[Sync] Batch of ${ops.length} ${table} inserts rejected, sending them one by one`);
+      return false;
+    }
+
+    for (const [i, op] of ops.entries()) {
+      if (isTempId(op.record_id)) {
+        await this.local.remapId(table, op.record_id!, serverRows[i]);
+        await this.local.requeueAfterInsert(table, op.id, rows[i], serverRows[i].id);
+      }
+      await this.completeOp(op);
+    }
+    return true;
+  }
+
+  private async pushOp(op: OutboxEntry): Promise<void> {
+    const table = op.table_name as SyncedTable;
+
+    switch (op.op) {
+      case 'insert': {
+        const { id: _localId, updated_at: _ignored, ...row } = op.payload;
+        const resolved = await this.resolveForeignKeys(table, row);
+        const serverRow = await this.insertOrMatch(table, resolved);
+        if (isTempId(op.record_id)) {
+          await this.local.remapId(table, op.record_id!, serverRow);
+          await this.local.requeueAfterInsert(table, op.id, resolved, serverRow.id);
+        }
+        return;
+      }
+
+      case 'update': {
+        const serverRow = await this.remote.fetchOne(table, op.record_id!);
+        if (!serverRow) {
+          // Deleted on the server; the pull removes the local copy
+          return;
+        }
+
+        const winners = resolveFieldConflicts(op.payload, op.base || {}, serverRow, op.changed_at);
+        const updated = Object.keys(winners).length > 0
+          ? await this.remote.update(table, op.record_id!, winners)
+          : serverRow;
+
+        await this.storeServerRow(table, updated, op.id);
+        return;
+      }
+
+      case 'delete':
+        await this.remote.remove(table, op.record_id!);
+        return;
+
+      case 'invoke': {
+        const { fn, body, refs } = op.payload;
+        const resolved = { ...body };
+        for (const [key, refTable] of Object.entries(refs || {})) {
+          resolved[key] = await this.local.resolveId(refTable as string, body[key]);
+        }
+        await this.remote.invoke(fn, resolved);
+        return;
+      }
+    }
+  }
+
+  /**
+   * Insert a row. If the server already has one with the same unique key
+   * (e.g. the word was added on another device before this one synced),
+   * the existing row is used instead.
+   */
+  private async insertOrMatch(table: SyncedTable, row: Row): Promise<Row> {
+    try {
+      return await this.remote.insert(table, row);
+    } catch (error: any) {
+      const keys = UNIQUE_KEYS[table];
+      if (error?.code !== UNIQUE_VIOLATION || !keys) throw error;
+
+      const match = Object.fromEntries(keys.map((key) => [key, row[key]]));
+      const existing = await this.remote.fetchMatching(table, match);
+      if (!existing) throw error;
+
+      console.log(`[Sync] ${table} row already on the server, using id ${existing.id}`);
+      return existing;
+    }
+  }
+
+  /**
+   * All of the user's rows of a table, a page at a time by id. The server
+   * may return fewer rows than asked for (max_rows), so paging goes on
+   * until the row count is reached. complete is false when the pages don't
+   * add up to the count, e.g. rows were deleted while paging.
+   */
+  private async fetchAll(table: SyncedTable, userId: string): Promise<{ rows: Row[]; complete: boolean }> {
+    const rows: Row[] = [];
+    let afterId = 0;
+
+    for (;;) {
+      const page = await this.remote.fetchPage(table, userId, afterId, PULL_PAGE_SIZE);
+      rows.push(...page.rows);
+      if (page.rows.length >= page.count) {
+        return { rows, complete: page.rows.length === page.count };
+      }
+      if (page.rows.length === 0) {
+        return { rows, complete: false };
+      }
+      afterId = page.rows[page.rows.length - 1].id;
+    }
+  }
+
+  private async pull(userId: string): Promise<void> {
+    const pending = await this.local.pendingOps();
+
+    for (const table of SYNCED_TABLES) {
+      const { rows: serverRows, complete } = await this.fetchAll(table, userId);
+      const serverIds = new Set(serverRows.map((r) => r.id));
+
+      for (const serverRow of serverRows) {
+        const edits = pending.filter(
+          (op) => op.table_name === table && op.op === 'update' && op.record_id === serverRow.id
+        );
+        const deleted = pending.some(
+          (op) => op.table_name === table && op.op === 'delete' && op.record_id === serverRow.id
+        );
+        if (deleted) continue;
+
+        await this.local.put(table, applyPendingChanges(serverRow, edits));
+      }
+
+      // Rows deleted on the server (rows created offline stay until pushed).
+      // Rows missing from an incomplete pull may still be on the server.
+      if (!complete) {
+        console.error(`[Sync] Pulled only part of ${table}, keeping local rows missing from it`);
+        continue;
+      }
+      for (const localRow of await this.local.getAll(table, userId)) {
+        if (!isTempId(localRow.id) && !serverIds.has(localRow.id)) {
+          await this.local.remove(table, localRow.id);
+        }
+      }
+    }
+  }
+
+  /**
+   * Save the server's copy of a row, keeping later local edits on top
+   */
+  private async storeServerRow(table: SyncedTable, serverRow: Row, pushedOpId: number): Promise<void> {
+    const pending = (await this.local.pendingOps()).filter(
+      (op) =>
+        op.id !== pushedOpId &&
+        op.table_name === table &&
+        op.op === 'update' &&
+        op.record_id === serverRow.id
+    );
+    await this.local.put(table, applyPendingChanges(serverRow, pending));
+  }
+
+  private async resolveForeignKeys(table: SyncedTable, row: Row): Promise<Row> {
+    const resolved = { ...row };
+    const parents: Partial<Record<string, SyncedTable>> = {
+      word_id: 'words',
+      puzzle_id: 'puzzles',
+      puzzle_attempt_id: 'puzzle_attempts',
+    };
+
+    for (const [column, parentTable] of Object.entries(parents)) {
+      if (isTempId(resolved[column])) {
+        resolved[column] = await this.local.resolveId(parentTable!, resolved[column]);
+        if (isTempId(resolved[column])) {
+          throw new Error(`${table} references ${parentTable} ${row[column]} that has not synced`);
+        }
+      }
+    }
+
+    return resolved;
+  }
+}
+
+export const syncEngine = new SyncEngine(localStore, supabaseRemote);
@@ -0,0 +1,77 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { DefinitionChain, DefinitionProvider } from '@shared/definitions/definitionChain';
+import { WordsService } from '../words';
+
+jest.mock('../client', () => ({ supabase: {} }));
+jest.mock('../definitionLookup', () => ({ serverDefinitionProvider: {} }));
+jest.mock('../../local/definitionCache', () => ({ localDefinitionCache: {} }));
+jest.mock('../../export/wordExport', () => ({}));
+jest.mock('../../local/sync', () => ({
+  isNetworkError: () => false,
+  syncEngine: { requestSync: jest.fn() },
+}));
+
+const mockRows: Record<string, any[]> = { words: [], learning_progress: [] };
+jest.mock('../../local/database', () => ({
+  localStore: {
+    getAll: async (table: string) => mockRows[table],
+    insert: async (table: string, row: any) => {
+      const saved = { ...row, id: mockRows[table].length + 1 };
+      mockRows[table].push(saved);
+      return saved;
+    },
+  },
+}));
+
+const USER = 'user-1';
+
+// A dictionary that only has the given base forms
+function dictionary(...words: string[]): DefinitionProvider {
+  return {
+    name: 'test_dictionary',
+    lookup: async (word) =>
+      words.includes(word) ? { word, definition: `The meaning of ${word}`, source: 'test_dictionary' } : null,
+  };
+}
+
+describe('WordsService.addWord', () => {
+  const service = new WordsService(new DefinitionChain([dictionary('obfuscate', 'run')]));
+  let errorSpy: ReturnType<typeof jest.spyOn>;
+
+  beforeEach(() => {
+    mockRows.words = [];
+    mockRows.learning_progress = [];
+    errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    errorSpy.mockRestore();
+  });
+
+  it('saves an inflected word no dictionary has as its lemma', async () => {
+    const word = await service.addWord(USER, { word: 'obfuscated' });
+
+    expect(word).toMatchObject({
+      word: 'obfuscate',
+      fetch_status: 'success',
+      definition_source: 'test_dictionary',
+      import_context: { original_form: 'obfuscated' },
+    });
+  });
+
+  it('keeps the word as entered without lemmas', async () => {
+    const word = await service.addWord(USER, { word: 'obfuscated' }, { useLemmas: false });
+
+    expect(word.word).toBe('obfuscated');
+    expect(word.import_context).toBeUndefined();
+  });
+
+  it('rejects a form of a word already in the list', async () => {
+    await service.addWord(USER, { word: 'run' });
+
+    await expect(service.addWord(USER, { word: 'Ran' })).rejects.toThrow(
+      '"Ran" is already in your word list as "run"'
+    );
+    expect(mockRows.words).toHaveLength(1);
+  });
+});
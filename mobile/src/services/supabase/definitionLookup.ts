@@ -0,0 +1,21 @@
+/**
+ * Definitions looked up by the lookup-definition edge function: the
+ * dictionary step of the app's definition chain. The function saves what it
+ * finds to the shared word_definitions table, which the app can only read.
+ */
+
+import { supabase } from './client';
+import { DefinitionProvider, DefinitionResult } from '@shared/definitions/definitionChain';
+
+export const serverDefinitionProvider: DefinitionProvider = {
+  name: 'lookup_definition',
+
+  async lookup(word) {
+    const { data, error } = await supabase.functions.invoke('lookup-definition', {
+      body: { word },
+    });
+
+    if (error) throw error;
+    return (data?.result as DefinitionResult | undefined) ?? null;
+  },
+};
@@ -0,0 +1,71 @@
+import { supabase } from './client';
+import { Word } from '@types/index';
+import { createLocalEmbedder, embeddingText, parseVector } from '@shared/embeddings/embedder';
+import { primarySense } from '@shared/definitions/senses';
+
+// Fewest stored vectors worth building a theme from
+const MIN_STORED_VECTORS = 5;
+
+export class EmbeddingsService {
+  /**
+   * Embedding of each word's definition, by word. Uses the vectors stored in
+   * word_embeddings (of the model most of them share); when too few are
+   * stored or the server can't be reached, embeds the definitions locally.
+   */
+  async vectorsFor(words: Word[]): Promise<Map<string, number[]>> {
+    try {
+      const stored = await this.storedVectors(words);
+      if (stored.size >= MIN_STORED_VECTORS) return stored;
+    } catch (error) {
+      console.error('Fetch embeddings error:', error);
+    }
+    return this.localVectors(words);
+  }
+
+  private async storedVectors(words: Word[]) {
+    const vectors = new Map<string, number[]>();
+    const definitionIds = words
+      .map((w) => w.word_definition_id)
+      .filter((id): id is number => id != null);
+    if (definitionIds.length === 0) return vectors;
+
+    const { data, error } = await supabase
+      .from('word_embeddings')
+      .select('word_definition_id, embedding, model')
+      .in('word_definition_id', [...new Set(definitionIds)]);
+
+    if (error) throw error;
+
+    const modelCounts = new Map<string, number>();
+    for (const e of data || []) {
+      modelCounts.set(e.model, (modelCounts.get(e.model) || 0) + 1);
+    }
+    const [model] = [...modelCounts.entries()].sort((a, b) => b[1] - a[1])[0] || [];
+
+    const byDefinition = new Map<number, number[]>();
+    for (const e of data || []) {
+      const vector = parseVector(e.embedding);
+      if (vector && e.model === model) byDefinition.set(e.word_definition_id, vector);
+    }
+
+    for (const word of words) {
+      const vector = word.word_definition_id != null ? byDefinition.get(word.word_definition_id) : undefined;
+      if (vector) vectors.set(word.word, vector);
+    }
+    return vectors;
+  }
+
+  private async localVectors(words: Word[]) {
+    const embedder = createLocalEmbedder();
+    const texts = words.map((w) =>
+      embeddingText({
+        word: w.word,
+        definition: primarySense(w)?.definition || w.fetched_definition || w.definition || w.custom_definition,
+      })
+    );
+    const embedded = await embedder.embed(texts);
+    return new Map(words.map((w, i) => [w.word, embedded[i]]));
+  }
+}
+
+export const embeddingsService = new EmbeddingsService();
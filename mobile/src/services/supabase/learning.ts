@@ -0,0 +1,116 @@
+import { LearningProgress, Word } from '@types/index';
+import { localStore } from '../local/database';
+import { syncEngine } from '../local/sync';
+import {
+  INITIAL_REVIEW_STATE,
+  masteryLevel,
+  qualityFromRecall,
+  scheduleReview,
+} from '@shared/spacedRepetition';
+
+export class LearningService {
+  /**
+   * Fetch learning progress for all of a user's words
+   */
+  async fetchProgress(userId: string) {
+    try {
+      syncEngine.requestSync(userId);
+      return await localStore.getAll<LearningProgress>('learning_progress', userId);
+    } catch (error) {
+      console.error('Fetch learning progress error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Words whose next review is due, most overdue first
+   */
+  async getWordsDue(userId: string, limit?: number) {
+    try {
+      const now = new Date().toISOString();
+      const progress = await localStore.getAll<LearningProgress>('learning_progress', userId);
+      const words = new Map(
+        (await localStore.getAll<Word>('words', userId)).map((w) => [w.id, w])
+      );
+
+      const due = progress
+        .filter((p) => p.next_review_at <= now)
+        .sort((a, b) => a.next_review_at.localeCompare(b.next_review_at))
+        .map((p) => words.get(p.word_id))
+        .filter((w): w is Word => !!w && w.status !== 'archived');
+
+      return limit ? due.slice(0, limit) : due;
+    } catch (error) {
+      console.error('Get words due error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Record a review of a word outside of a puzzle and reschedule it (SM-2)
+   */
+  async reviewWord(userId: string, wordId: number, correct: boolean, timeToRecall: number) {
+    try {
+      const progress = (
+        await localStore.getAll<LearningProgress>('learning_progress', userId)
+      ).find((p) => p.word_id === wordId);
+
+      const now = new Date();
+      const schedule = scheduleReview(
+        progress
+          ? {
+              easiness_factor: Number(progress.easiness_factor),
+              interval_days: progress.interval_days,
+              repetitions: progress.repetitions,
+              stage: progress.stage,
+            }
+          : INITIAL_REVIEW_STATE,
+        qualityFromRecall(correct, timeToRecall),
+        now
+      );
+
+      const fields = {
+        ...schedule,
+        correct_count: (progress?.correct_count || 0) + (correct ? 1 : 0),
+        incorrect_count: (progress?.incorrect_count || 0) + (correct ? 0 : 1),
+        total_exposures: (progress?.total_exposures || 0) + 1,
+      };
+
+      const data = progress
+        ? await localStore.update<LearningProgress>('learning_progress', progress.id, fields)
+        : await localStore.insert<LearningProgress>('learning_progress', {
+            user_id: userId,
+            word_id: wordId,
+            ...fields,
+          });
+
+      await localStore.enqueueRemoteInsert('word_interactions', {
+        user_id: userId,
+        word_id: wordId,
+        interaction_type: 'review',
+        time_to_solve_seconds: Math.round(timeToRecall),
+        was_correct: correct,
+      });
+
+      // Promote the word once it reaches the mastered stage
+      const word = await localStore.get<Word>('words', wordId);
+      const wordUpdate: Partial<Word> = {
+        mastery_level: masteryLevel(schedule),
+        last_reviewed_at: now.toISOString(),
+      };
+      if (schedule.stage === 'mastered' && word?.status === 'learning') {
+        wordUpdate.status = 'mastered';
+        wordUpdate.mastered_at = now.toISOString();
+      }
+      await localStore.update('words', wordId, wordUpdate);
+
+      syncEngine.requestSync(userId);
+      return data;
+    } catch (error) {
+      console.error('Review word error:', error);
+      throw error;
+    }
+  }
+}
+
+export const learningService = new LearningService();
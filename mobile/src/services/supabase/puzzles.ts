@@ -1,5 +1,7 @@
 import { supabase } from './client';
-import { Puzzle, PuzzleAttempt, PuzzleConfig } from '@types/index';
+import { CheckAnswerResult, Puzzle, PuzzleAttempt, PuzzleConfig, WordResult } from '@types/index';
+import { localStore } from '../local/database';
+import { syncEngine } from '../local/sync';
 
 export class PuzzlesService {
   /**
@@ -14,10 +16,16 @@ export class PuzzlesService {
           grid_size: config.grid_size,
           user_words_count: config.user_words_count,
           include_reverse_clues: config.include_reverse_clues,
+          themed: config.themed,
+          seed: config.seed,
         },
       });
 
       if (error) throw error;
+
+      // Keep a local copy so the puzzle can be played offline (the function
+      // leaves the answers out; check-answer grades on the server)
+      await localStore.put('puzzles', data.puzzle);
       return data.puzzle as Puzzle;
     } catch (error) {
       console.error('Generate puzzle error:', error);
@@ -30,6 +38,11 @@ export class PuzzlesService {
    */
   async getPuzzle(puzzleId: number) {
     try {
+      const local = await localStore.get<Puzzle>('puzzles', puzzleId);
+      if (local) return local;
+
+      // Not synced to this device yet (puzzle rows hold no answers; those
+      // are in puzzle_solutions, which only the Edge Functions read)
       const { data, error } = await supabase
         .from('puzzles')
         .select('*')
@@ -37,6 +50,7 @@ export class PuzzlesService {
         .single();
 
       if (error) throw error;
+      await localStore.put('puzzles', data);
       return data as Puzzle;
     } catch (error) {
       console.error('Get puzzle error:', error);
@@ -49,20 +63,15 @@ export class PuzzlesService {
    */
   async getUserPuzzles(userId: string, status?: string) {
     try {
-      let query = supabase
-        .from('puzzles')
-        .select('*')
-        .eq('user_id', userId)
-        .order('created_at', { ascending: false });
+      syncEngine.requestSync(userId);
+
+      let puzzles = await localStore.getAll<Puzzle>('puzzles', userId);
 
       if (status) {
-        query = query.eq('status', status);
+        puzzles = puzzles.filter((p) => p.status === status);
       }
 
-      const { data, error } = await query;
-
-      if (error) throw error;
-      return data as Puzzle[];
+      return puzzles.sort((a, b) => b.created_at.localeCompare(a.created_at));
     } catch (error) {
       console.error('Get user puzzles error:', error);
       throw error;
@@ -74,25 +83,22 @@ export class PuzzlesService {
    */
   async startAttempt(userId: string, puzzleId: number) {
     try {
-      const { data, error } = await supabase
-        .from('puzzle_attempts')
-        .insert({
-          puzzle_id: puzzleId,
-          user_id: userId,
-          current_grid: {},
-          completed: false,
-          hints_used: 0,
-          checks_used: 0,
-          reveals_used: 0,
-          correct_words: 0,
-          incorrect_words: 0,
-          accuracy_percentage: 0,
-        })
-        .select()
-        .single();
+      const data = await localStore.insert<PuzzleAttempt>('puzzle_attempts', {
+        puzzle_id: puzzleId,
+        user_id: userId,
+        current_grid: {},
+        completed: false,
+        start_time: new Date().toISOString(),
+        hints_used: 0,
+        checks_used: 0,
+        reveals_used: 0,
+        correct_words: 0,
+        incorrect_words: 0,
+        accuracy_percentage: 0,
+      });
 
-      if (error) throw error;
-      return data as PuzzleAttempt;
+      syncEngine.requestSync(userId);
+      return data;
     } catch (error) {
       console.error('Start attempt error:', error);
       throw error;
@@ -104,18 +110,9 @@ export class PuzzlesService {
    */
   async updateAttempt(attemptId: number, updates: Partial<PuzzleAttempt>) {
     try {
-      const { data, error } = await supabase
-        .from('puzzle_attempts')
-        .update({
-          ...updates,
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', attemptId)
-        .select()
-        .single();
-
-      if (error) throw error;
-      return data as PuzzleAttempt;
+      const data = await localStore.update<PuzzleAttempt>('puzzle_attempts', attemptId, updates);
+      syncEngine.requestSync(data.user_id);
+      return data;
     } catch (error) {
       console.error('Update attempt error:', error);
       throw error;
@@ -123,30 +120,38 @@ export class PuzzlesService {
   }
 
   /**
-   * Check answer(s) via Edge Function
+   * Check answer(s) via Edge Function. Answers stay on the server; the
+   * result only says which cells and words are right.
    */
   async checkAnswer(
     puzzleId: number,
     attemptId: number,
     scope: 'square' | 'word' | 'puzzle',
-    position?: { row?: number; col?: number; clueNumber?: number; direction?: string }
+    position?: { row?: number; col?: number; clueNumber?: number; direction?: string },
+    answers?: Record<string, string>
   ) {
     try {
+      const ids = await this.syncForServer(puzzleId, attemptId);
+
       const { data, error } = await supabase.functions.invoke('check-answer', {
         body: {
-          puzzle_id: puzzleId,
-          attempt_id: attemptId,
+          puzzle_id: ids.puzzleId,
+          attempt_id: ids.attemptId,
           scope,
           ...position,
+          answers,
         },
       });
 
       if (error) throw error;
 
       // Update checks used count
-      await supabase.rpc('increment_checks_used', { attempt_id: attemptId });
+      await supabase.rpc('increment_checks_used', { attempt_id: ids.attemptId });
 
-      return data;
+      // Pick up the results stored on the attempt
+      syncEngine.requestSync(ids.userId);
+
+      return data as CheckAnswerResult;
     } catch (error) {
       console.error('Check answer error:', error);
       throw error;
@@ -154,7 +159,8 @@ export class PuzzlesService {
   }
 
   /**
-   * Request hint via Edge Function
+   * Request hint via Edge Function. Repeated requests for the same clue give
+   * stronger hints: part of speech, first letter, usage example, synonyms.
    */
   async requestHint(
     puzzleId: number,
@@ -163,10 +169,12 @@ export class PuzzlesService {
     direction: 'across' | 'down'
   ) {
     try {
+      const ids = await this.syncForServer(puzzleId, attemptId);
+
       const { data, error } = await supabase.functions.invoke('generate-hint', {
         body: {
-          puzzle_id: puzzleId,
-          attempt_id: attemptId,
+          puzzle_id: ids.puzzleId,
+          attempt_id: ids.attemptId,
           clue_number: clueNumber,
           direction,
         },
@@ -175,7 +183,8 @@ export class PuzzlesService {
       if (error) throw error;
 
       // Update hints used count
-      await supabase.rpc('increment_hints_used', { attempt_id: attemptId });
+      await supabase.rpc('increment_hints_used', { attempt_id: ids.attemptId });
+      syncEngine.requestSync(ids.userId);
 
       return data.hint;
     } catch (error) {
@@ -185,7 +194,9 @@ export class PuzzlesService {
   }
 
   /**
-   * Reveal answer(s)
+   * Reveal answer(s). The puzzle on the device has no answers, so the
+   * letters come from the reveal-answer Edge Function and revealing needs
+   * a connection. Revealed letters are entered in the attempt's grid.
    */
   async revealAnswer(
     puzzleId: number,
@@ -194,19 +205,86 @@ export class PuzzlesService {
     position?: { row?: number; col?: number; clueNumber?: number; direction?: string }
   ) {
     try {
-      // Get puzzle to retrieve answers
       const puzzle = await this.getPuzzle(puzzleId);
-      
-      // Update reveals used count
-      await supabase.rpc('increment_reveals_used', { attempt_id: attemptId });
+      const ids = await this.syncForServer(puzzleId, attemptId);
+
+      const { data, error } = await supabase.functions.invoke('reveal-answer', {
+        body: {
+          puzzle_id: ids.puzzleId,
+          attempt_id: ids.attemptId,
+          scope,
+          ...position,
+        },
+      });
+
+      if (error) throw error;
+      const letters = data.letters as Record<string, string>;
 
-      return { puzzle, scope, position };
+      const attempt = await localStore.get<PuzzleAttempt>('puzzle_attempts', ids.attemptId);
+      if (!attempt) throw new Error('Attempt not found');
+
+      const updates: Partial<PuzzleAttempt> = {
+        reveals_used: attempt.reveals_used + 1,
+        current_grid: { ...(attempt.current_grid || {}), ...letters },
+      };
+
+      // Revealed words are graded as not recalled when the puzzle is completed.
+      // A single revealed square is treated like a hint and not recorded.
+      if (scope !== 'square') {
+        updates.word_results = this.markWordsRevealed(attempt, puzzle, scope, position);
+      }
+
+      await this.updateAttempt(ids.attemptId, updates);
+
+      return { letters, scope, position };
     } catch (error) {
       console.error('Reveal answer error:', error);
       throw error;
     }
   }
 
+  /**
+   * The attempt's word_results with revealed words flagged
+   */
+  private markWordsRevealed(
+    attempt: PuzzleAttempt,
+    puzzle: Puzzle,
+    scope: 'word' | 'puzzle',
+    position?: { clueNumber?: number; direction?: string }
+  ) {
+    const clues = [...puzzle.clues_across, ...puzzle.clues_down].filter(
+      (clue) =>
+        scope === 'puzzle' ||
+        (clue.number === position?.clueNumber && clue.direction === position?.direction)
+    );
+
+    const wordResults: Record<string, WordResult> = { ...(attempt.word_results || {}) };
+    for (const clue of clues) {
+      const key = `${clue.number}-${clue.direction}`;
+      const previous = wordResults[key] || { correct: false, checks: 0, wrong_checks: 0 };
+      wordResults[key] = { ...previous, revealed: true };
+    }
+
+    return wordResults;
+  }
+
+  /**
+   * Push local changes before an edge function reads the attempt, and map
+   * ids of rows created offline to their server ids
+   */
+  private async syncForServer(puzzleId: number, attemptId: number) {
+    const attempt = await localStore.get<PuzzleAttempt>('puzzle_attempts', attemptId);
+    if (!attempt) throw new Error('Attempt not found');
+
+    await syncEngine.sync(attempt.user_id);
+
+    return {
+      userId: attempt.user_id,
+      puzzleId: await localStore.resolveId('puzzles', puzzleId),
+      attemptId: await localStore.resolveId('puzzle_attempts', attemptId),
+    };
+  }
+
   /**
    * Complete puzzle attempt
    */
@@ -215,11 +293,7 @@ export class PuzzlesService {
       const endTime = new Date().toISOString();
 
       // Get attempt to calculate stats
-      const { data: attempt } = await supabase
-        .from('puzzle_attempts')
-        .select('*, puzzles(*)')
-        .eq('id', attemptId)
-        .single();
+      const attempt = await localStore.get<PuzzleAttempt>('puzzle_attempts', attemptId);
 
       if (!attempt) throw new Error('Attempt not found');
 
@@ -229,35 +303,29 @@ export class PuzzlesService {
       );
 
       // Update attempt
-      const { data, error } = await supabase
-        .from('puzzle_attempts')
-        .update({
-          completed: true,
-          end_time: endTime,
-          total_time_seconds: totalTimeSeconds,
-        })
-        .eq('id', attemptId)
-        .select()
-        .single();
-
-      if (error) throw error;
+      const data = await localStore.update<PuzzleAttempt>('puzzle_attempts', attemptId, {
+        completed: true,
+        end_time: endTime,
+        total_time_seconds: totalTimeSeconds,
+      });
 
       // Update puzzle status
-      await supabase
-        .from('puzzles')
-        .update({ status: 'completed' })
-        .eq('id', attempt.puzzle_id);
+      await localStore.update('puzzles', attempt.puzzle_id, { status: 'completed' });
 
-      // Trigger learning progress update via Edge Function
-      await supabase.functions.invoke('update-learning-progress', {
-        body: {
+      // Trigger learning progress update via Edge Function (queued, so it also
+      // runs for puzzles finished offline once they have synced)
+      await localStore.enqueueInvoke(
+        'update-learning-progress',
+        {
           user_id: attempt.user_id,
           puzzle_id: attempt.puzzle_id,
-          attempt_id: attemptId,
+          attempt_id: attempt.id,
         },
-      });
+        { puzzle_id: 'puzzles', attempt_id: 'puzzle_attempts' }
+      );
+      syncEngine.requestSync(attempt.user_id);
 
-      return data as PuzzleAttempt;
+      return data;
     } catch (error) {
       console.error('Complete puzzle error:', error);
       throw error;
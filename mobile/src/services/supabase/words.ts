@@ -1,90 +1,189 @@
 import { supabase } from './client';
-import { Word, WordFilters } from '@types/index';
+import {
+  AddWordOptions,
+  BulkImportOptions,
+  BulkImportReport,
+  BulkImportResult,
+  ImportProgress,
+  ImportWord,
+  LearningProgress,
+  Word,
+  WordFilters,
+} from '@types/index';
+import { localStore } from '../local/database';
+import { isNetworkError, syncEngine } from '../local/sync';
+import { buildExportFile, ExportFormat, shareExportFile } from '../export/wordExport';
+import { invalidWordReason } from '../import/delimited';
+import { localDefinitionCache } from '../local/definitionCache';
+import { serverDefinitionProvider } from './definitionLookup';
+import { DefinitionChain, DefinitionLookup } from '@shared/definitions/definitionChain';
+import { deriveClues, pickClue } from '@shared/clues/clueDerivation';
+import { definitionFetchFields, isDefinitionRetryDue } from '@shared/definitions/definitionFetch';
+import { primarySenseFields } from '@shared/definitions/senses';
+import { lemmaCandidates } from '@shared/lemmatizer';
+import { createWordDefinitionsProvider } from '@shared/definitions/wordDefinitionsTable';
+
+// Bulk import: parallel dictionary requests, and words saved (and synced) per chunk
+const DEFINITION_LOOKUP_CONCURRENCY = 4;
+const BULK_IMPORT_CHUNK_SIZE = 50;
+
+/**
+ * Map with at most `limit` calls in flight, keeping result order
+ */
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
 
-// Free Dictionary API response types
-interface DictionaryDefinition {
-  definition: string;
-  example?: string;
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
 }
 
-interface DictionaryMeaning {
-  partOfSpeech: string;
-  definitions: DictionaryDefinition[];
+/**
+ * Words without a usable definition (no notes, lookup failed or not found)
+ */
+export function needsDefinition(word: Word): boolean {
+  return !word.custom_definition && word.fetch_status !== 'success';
 }
 
-interface DictionaryResponse {
-  word: string;
-  phonetic?: string;
-  meanings: DictionaryMeaning[];
+/**
+ * Device cache → shared word_definitions table (read only) → the
+ * lookup-definition edge function, which asks Free Dictionary API and saves
+ * the answer to the table. Pass a chain with a Wiktionary provider
+ * (@shared/definitions/wiktionary) to fall back to a Wiktionary dump.
+ */
+export function createDefinitionChain(): DefinitionChain {
+  return new DefinitionChain([
+    localDefinitionCache,
+    createWordDefinitionsProvider(supabase, { readOnly: true }),
+    serverDefinitionProvider,
+  ]);
 }
 
 export class WordsService {
+  constructor(private definitions: DefinitionChain = createDefinitionChain()) {}
+
   /**
-   * Fetch definition from Free Dictionary API
+   * Look up a word, falling back to its lemma when no dictionary has the
+   * word itself ("sesquipedalians" → "sesquipedalian"). `stem` is a lemma
+   * the import source already knows (Kindle's vocab.db has one).
    */
-  private async fetchDefinitionFromAPI(word: string): Promise<{
-    definition: string;
-    partOfSpeech?: string;
-    phonetic?: string;
-    example?: string;
-  } | null> {
-    try {
-      const response = await fetch(
-        `https://api.dictionaryapi.dev/api/v2/entries/en/${encodeURIComponent(word)}`
-      );
-
-      if (!response.ok) {
-        return null;
-      }
+  private async lookupWithLemma(
+    wordText: string,
+    stem?: string
+  ): Promise<{ word: string; lookup: DefinitionLookup }> {
+    const lookup = await this.definitions.lookup(wordText);
+    if (lookup.status !== 'not_found') {
+      return { word: wordText, lookup };
+    }
 
-      const data: DictionaryResponse[] = await response.json();
-      
-      if (!data || data.length === 0 || !data[0].meanings || data[0].meanings.length === 0) {
-        return null;
+    const candidates = [stem, ...lemmaCandidates(wordText)].filter(
+      (c): c is string => !!c && c.toLowerCase() !== wordText.toLowerCase()
+    );
+    for (const candidate of new Set(candidates)) {
+      const candidateLookup = await this.definitions.lookup(candidate);
+      if (candidateLookup.status === 'success') {
+        return { word: candidate, lookup: candidateLookup };
       }
+      if (candidateLookup.status === 'error') break; // Can't check the rest; keep the word as entered
+    }
 
-      const firstMeaning = data[0].meanings[0];
-      const firstDefinition = firstMeaning.definitions[0];
+    return { word: wordText, lookup };
+  }
 
-      return {
-        definition: firstDefinition.definition,
-        partOfSpeech: firstMeaning.partOfSpeech,
-        phonetic: data[0].phonetic,
-        example: firstDefinition.example,
-      };
+  /**
+   * The dictionary lemma to add instead of an inflected word, or null if
+   * the word is fine as it is
+   */
+  async suggestLemma(wordText: string): Promise<string | null> {
+    try {
+      const { word } = await this.lookupWithLemma(wordText.trim());
+      return word !== wordText.trim() ? word : null;
     } catch (error) {
-      console.error('Free Dictionary API error:', error);
-      return null;
+      console.error('Suggest lemma error:', error);
+      throw error;
     }
   }
+
   /**
-   * Fetch user's words with optional filters
+   * Clues for the filler answers of a fixed-size grid, derived from their
+   * definitions. Answers without a definition (or that can't be looked up
+   * right now) are missing from the result; when none could be looked up
+   * (e.g. offline) it throws, so the grid falls back to the free-form layout.
+   */
+  async fillerClues(answers: string[], difficulty: number): Promise<Map<string, string>> {
+    const clues = new Map<string, string>();
+    const errors: string[] = [];
+    await mapWithConcurrency(answers, DEFINITION_LOOKUP_CONCURRENCY, async (answer) => {
+      const lookup = await this.definitions.lookup(answer.toLowerCase());
+      if (lookup.status === 'error') errors.push(lookup.error);
+      if (lookup.status !== 'success') return;
+      const clue = pickClue(deriveClues({ ...lookup.result, word: answer }), difficulty);
+      if (clue) clues.set(answer, clue.clue_text);
+    });
+
+    if (answers.length > 0 && errors.length === answers.length) {
+      throw new Error(`Definitions can't be looked up: ${errors[0]}`);
+    }
+    return clues;
+  }
+
+  /**
+   * Fetch user's words with optional filters (from the local database)
    */
   async fetchWords(userId: string, filters?: WordFilters) {
     try {
-      let query = supabase
-        .from('words')
-        .select('*')
-        .eq('user_id', userId);
+      // First launch: wait for the initial download, otherwise refresh in the
+      // background. Offline on first launch shows what is stored locally.
+      if (await syncEngine.hasSynced(userId)) {
+        syncEngine.requestSync(userId);
+      } else {
+        await syncEngine.sync(userId).catch((error) => {
+          if (!isNetworkError(error)) throw error;
+        });
+      }
+
+      let words = await localStore.getAll<Word>('words', userId);
 
       // Apply filters
       if (filters?.status) {
-        query = query.eq('status', filters.status);
+        words = words.filter((w) => w.status === filters.status);
+      }
+
+      if (filters?.source) {
+        words = words.filter((w) => w.source === filters.source);
+      }
+
+      if (filters?.needs_definition) {
+        words = words.filter(needsDefinition);
       }
 
       if (filters?.search) {
-        query = query.ilike('word', `%${filters.search}%`);
+        const search = filters.search.toLowerCase();
+        words = words.filter((w) => w.word.toLowerCase().includes(search));
       }
 
       // Apply sorting
       const sortBy = filters?.sort_by || 'added_at';
-      const order = filters?.order || 'desc';
-      query = query.order(sortBy, { ascending: order === 'asc' });
-
-      const { data, error } = await query;
+      const direction = filters?.order === 'asc' ? 1 : -1;
+      words.sort((a, b) => {
+        const aValue = a[sortBy];
+        const bValue = b[sortBy];
+        if (aValue === bValue) return 0;
+        return (aValue < bValue ? -1 : 1) * direction;
+      });
 
-      if (error) throw error;
-      return data as Word[];
+      return words;
     } catch (error) {
       console.error('Fetch words error:', error);
       throw error;
@@ -92,58 +191,55 @@ export class WordsService {
   }
 
   /**
-   * Add a new word with automatic definition lookup
+   * Add a new word with automatic definition lookup. An inflected word no
+   * dictionary has is saved as its lemma ("obfuscated" → "obfuscate") with
+   * the form it was entered in as import_context.original_form, unless
+   * useLemmas is false. Lookups that fail because no source can be reached
+   * leave the word 'pending' so it is looked up again later.
    */
-  async addWord(userId: string, wordData: Partial<Word>) {
+  async addWord(userId: string, wordData: Partial<Word>, options: AddWordOptions = {}) {
     try {
-      const wordText = wordData.word?.trim();
-      if (!wordText) {
+      const { useLemmas = true } = options;
+      const entered = wordData.word?.trim();
+      if (!entered) {
         throw new Error('Word is required');
       }
 
-      // Fetch definition from Free Dictionary API
-      const apiResult = await this.fetchDefinitionFromAPI(wordText);
-      
-      let fetchStatus: 'success' | 'not_found' | 'failed' = 'not_found';
-      let fetchedDefinition: string | null = null;
-      let fetchError: string | null = null;
-
-      if (apiResult) {
-        fetchStatus = 'success';
-        fetchedDefinition = apiResult.definition;
-        if (apiResult.example) {
-          fetchedDefinition += `\n\nExample: ${apiResult.example}`;
-        }
-      } else {
-        fetchError = 'Definition not found in Free Dictionary API';
+      // Case variants count as duplicates, as in imports (unique_user_word on
+      // the server only rejects exact ones)
+      const existing = await localStore.getAll<Word>('words', userId);
+      const isListed = (text: string) =>
+        existing.some((w) => w.word.trim().toLowerCase() === text.toLowerCase());
+      if (isListed(entered)) {
+        throw new Error(`"${entered}" is already in your word list`);
       }
 
-      // Insert word with fetched definition
-      const { data, error } = await supabase
-        .from('words')
-        .insert({
-          user_id: userId,
-          word: wordText,
-          fetched_definition: fetchedDefinition,
-          definition_source: 'free_dictionary_api',
-          fetch_status: fetchStatus,
-          fetch_error: fetchError,
-          fetched_at: new Date().toISOString(),
-          custom_definition: wordData.custom_definition,
-          source: wordData.source || 'manual',
-          status: 'learning',
-          mastery_level: 0,
-          import_context: wordData.import_context,
-        })
-        .select()
-        .single();
-
-      if (error) throw error;
+      const { word: wordText, lookup } = useLemmas
+        ? await this.lookupWithLemma(entered)
+        : { word: entered, lookup: await this.definitions.lookup(entered) };
+      if (wordText !== entered && isListed(wordText)) {
+        throw new Error(`"${entered}" is already in your word list as "${wordText}"`);
+      }
+
+      // Insert word with fetched definition (saved locally, synced in the background)
+      const data = await localStore.insert<Word>('words', {
+        user_id: userId,
+        word: wordText,
+        ...definitionFetchFields(lookup),
+        custom_definition: wordData.custom_definition,
+        source: wordData.source || 'manual',
+        status: 'learning',
+        mastery_level: 0,
+        import_context:
+          wordText !== entered ? { ...wordData.import_context, original_form: entered } : wordData.import_context,
+        added_at: new Date().toISOString(),
+      });
 
       // Initialize learning progress for this word
       await this.initializeLearningProgress(userId, data.id);
 
-      return data as Word;
+      syncEngine.requestSync(userId);
+      return data;
     } catch (error) {
       console.error('Add word error:', error);
       throw error;
@@ -151,103 +247,270 @@ export class WordsService {
   }
 
   /**
-   * Bulk import words with automatic definition lookup
+   * Bulk import words as a job:
+   * - Invalid words and case-insensitive duplicates (of the list or earlier in
+   *   the import) are skipped, or with onDuplicate 'update' fill in missing
+   *   notes on the existing word
+   * - Definitions are looked up a few at a time; inflected words no dictionary
+   *   has are saved as their lemma, with the original form in import_context
+   * - Words are saved in chunks, each synced as soon as it's saved
+   * Returns a result for every input word; one failure doesn't stop the rest.
    */
-  async bulkImport(userId: string, words: string[], source: string) {
+  async bulkImport(
+    userId: string,
+    words: (string | ImportWord)[],
+    source: string,
+    options: BulkImportOptions & { onProgress?: (progress: ImportProgress) => void } = {}
+  ): Promise<BulkImportReport> {
     try {
-      // Process words in parallel with definition lookup
-      const wordPromises = words.map(async (word) => {
-        const wordText = word.trim();
-        const apiResult = await this.fetchDefinitionFromAPI(wordText);
-        
-        let fetchStatus: 'success' | 'not_found' | 'failed' = 'not_found';
-        let fetchedDefinition: string | null = null;
-        let fetchError: string | null = null;
-
-        if (apiResult) {
-          fetchStatus = 'success';
-          fetchedDefinition = apiResult.definition;
-          if (apiResult.example) {
-            fetchedDefinition += `\n\nExample: ${apiResult.example}`;
+      const { onDuplicate = 'skip', useLemmas = true, onProgress } = options;
+      const existing = new Map(
+        (await localStore.getAll<Word>('words', userId)).map((w) => [w.word.trim().toLowerCase(), w])
+      );
+
+      const results: BulkImportResult[] = [];
+      const toInsert: { index: number; word: ImportWord }[] = [];
+      const toUpdate: { index: number; word: ImportWord; existing: Word }[] = [];
+      const seen = new Set<string>();
+
+      words.forEach((entry, index) => {
+        const word: ImportWord = typeof entry === 'string' ? { word: entry } : entry;
+        const wordText = word.word.trim();
+        const key = wordText.toLowerCase();
+        results.push({ word: wordText, row: word.row, status: 'imported' });
+
+        const reason = invalidWordReason(wordText);
+        if (reason) {
+          results[index] = { ...results[index], status: 'invalid', reason };
+        } else if (seen.has(key)) {
+          results[index] = { ...results[index], status: 'duplicate', reason: 'Repeated in this import' };
+        } else if (existing.has(key)) {
+          if (onDuplicate === 'update') {
+            toUpdate.push({ index, word: { ...word, word: wordText }, existing: existing.get(key)! });
+          } else {
+            results[index] = {
+              ...results[index],
+              status: 'duplicate',
+              reason: 'Already in your list',
+              word_id: existing.get(key)!.id,
+            };
           }
         } else {
-          fetchError = 'Definition not found in Free Dictionary API';
+          toInsert.push({ index, word: { ...word, word: wordText } });
         }
-
-        return {
-          user_id: userId,
-          word: wordText,
-          fetched_definition: fetchedDefinition,
-          definition_source: 'free_dictionary_api',
-          fetch_status: fetchStatus,
-          fetch_error: fetchError,
-          fetched_at: new Date().toISOString(),
-          source,
-          status: 'learning' as const,
-          mastery_level: 0,
-        };
+        seen.add(key);
       });
 
-      const wordsToInsert = await Promise.all(wordPromises);
+      const progress: ImportProgress = { done: 0, total: toInsert.length + toUpdate.length };
+      const advance = () => {
+        progress.done++;
+        onProgress?.({ ...progress });
+      };
+      onProgress?.({ ...progress });
+
+      const imported: Word[] = [];
 
-      const { data, error } = await supabase
-        .from('words')
-        .insert(wordsToInsert)
-        .select();
+      for (const { index, word, existing: current } of toUpdate) {
+        const changes: Partial<Word> = {};
+        if (word.custom_definition && !current.custom_definition) {
+          changes.custom_definition = word.custom_definition;
+        }
+        if (word.import_context) {
+          changes.import_context = { ...word.import_context, ...current.import_context };
+        }
+
+        if (Object.keys(changes).length === 0) {
+          results[index] = {
+            ...results[index],
+            status: 'duplicate',
+            reason: 'Already up to date',
+            word_id: current.id,
+          };
+        } else {
+          try {
+            const updated = await localStore.update<Word>('words', current.id, changes);
+            imported.push(updated);
+            results[index] = { ...results[index], status: 'updated', word_id: current.id };
+          } catch (error: any) {
+            results[index] = { ...results[index], status: 'failed', reason: error.message || String(error) };
+          }
+        }
+        advance();
+      }
 
-      if (error) throw error;
+      for (let start = 0; start < toInsert.length; start += BULK_IMPORT_CHUNK_SIZE) {
+        const chunk = toInsert.slice(start, start + BULK_IMPORT_CHUNK_SIZE);
 
-      // Initialize learning progress for all words
-      if (data) {
-        await Promise.all(
-          data.map((word) => this.initializeLearningProgress(userId, word.id))
+        // A few lookups at a time instead of hundreds of parallel requests
+        const lookups = await mapWithConcurrency(chunk, DEFINITION_LOOKUP_CONCURRENCY, async ({ word }) =>
+          useLemmas
+            ? this.lookupWithLemma(word.word, word.import_context?.stem)
+            : { word: word.word, lookup: await this.definitions.lookup(word.word) }
         );
+
+        // Saved locally first, synced in the background
+        for (let i = 0; i < chunk.length; i++) {
+          const { index, word } = chunk[i];
+          const lemma = lookups[i].word;
+          const lemmaKey = lemma.toLowerCase();
+
+          if (lemma !== word.word) {
+            // The lemma may already be in the list, or earlier in this import
+            const duplicateOf = existing.get(lemmaKey);
+            if (duplicateOf || seen.has(lemmaKey)) {
+              results[index] = {
+                ...results[index],
+                status: 'duplicate',
+                reason: duplicateOf ? `Already in your list as "${lemma}"` : `Repeated in this import as "${lemma}"`,
+                word_id: duplicateOf?.id,
+              };
+              advance();
+              continue;
+            }
+            seen.add(lemmaKey);
+          }
+
+          try {
+            const inserted = await localStore.insert<Word>('words', {
+              user_id: userId,
+              word: lemma,
+              ...definitionFetchFields(lookups[i].lookup),
+              custom_definition: word.custom_definition,
+              source,
+              import_context:
+                lemma !== word.word ? { ...word.import_context, original_form: word.word } : word.import_context,
+              status: 'learning',
+              mastery_level: 0,
+              added_at: new Date().toISOString(),
+            });
+            await this.initializeLearningProgress(userId, inserted.id);
+            imported.push(inserted);
+            results[index] = {
+              ...results[index],
+              status: 'imported',
+              reason: lemma !== word.word ? `Added as "${lemma}"` : undefined,
+              word_id: inserted.id,
+            };
+          } catch (error: any) {
+            console.error(`Bulk import failed for "${word.word}":`, error);
+            results[index] = { ...results[index], status: 'failed', reason: error.message || String(error) };
+          }
+          advance();
+        }
+
+        syncEngine.requestSync(userId);
+      }
+
+      if (toUpdate.length > 0) {
+        syncEngine.requestSync(userId);
       }
 
-      return data as Word[];
+      return { imported, results };
     } catch (error) {
       console.error('Bulk import error:', error);
       throw error;
     }
   }
 
+  /**
+   * Foreground sweep: look up definitions again for words whose earlier
+   * lookup failed and whose backoff has expired. Returns the updated words.
+   */
+  async retryPendingDefinitions(userId: string) {
+    try {
+      const due = (await localStore.getAll<Word>('words', userId)).filter(
+        (w) => !w.custom_definition && isDefinitionRetryDue(w)
+      );
+      if (due.length === 0) return [];
+
+      const lookups = await mapWithConcurrency(due, DEFINITION_LOOKUP_CONCURRENCY, (word) =>
+        this.definitions.lookup(word.word)
+      );
+
+      // Every lookup failing means we're offline; don't spend the words' attempts
+      if (lookups.every((lookup) => lookup.status === 'error')) {
+        return [];
+      }
+
+      const updated: Word[] = [];
+      for (let i = 0; i < due.length; i++) {
+        const fields = definitionFetchFields(lookups[i], due[i].fetch_attempts || 0);
+        updated.push(await localStore.update<Word>('words', due[i].id, fields));
+      }
+
+      syncEngine.requestSync(userId);
+      return updated;
+    } catch (error) {
+      console.error('Retry definitions error:', error);
+      throw error;
+    }
+  }
+
   /**
    * Update a word
    */
   async updateWord(wordId: number, updates: Partial<Word>) {
     try {
-      const { data, error } = await supabase
-        .from('words')
-        .update(updates)
-        .eq('id', wordId)
-        .select()
-        .single();
-
-      if (error) throw error;
-      return data as Word;
+      const data = await localStore.update<Word>('words', wordId, updates);
+      syncEngine.requestSync(data.user_id);
+      return data;
     } catch (error) {
       console.error('Update word error:', error);
       throw error;
     }
   }
 
+  /**
+   * Choose which of the word's senses the user is learning
+   */
+  async selectSense(wordId: number, senseIndex: number) {
+    try {
+      const word = await localStore.get<Word>('words', wordId);
+      if (!word) {
+        throw new Error(`Word ${wordId} not found`);
+      }
+      return await this.updateWord(wordId, primarySenseFields(word, senseIndex));
+    } catch (error) {
+      console.error('Select sense error:', error);
+      throw error;
+    }
+  }
+
   /**
    * Delete a word
    */
   async deleteWord(wordId: number) {
     try {
-      const { error } = await supabase
-        .from('words')
-        .delete()
-        .eq('id', wordId);
+      const word = await localStore.get<Word>('words', wordId);
+      await localStore.delete('words', wordId);
 
-      if (error) throw error;
+      // The server cascades to learning_progress; the next pull removes local copies
+      if (word) {
+        syncEngine.requestSync(word.user_id);
+      }
     } catch (error) {
       console.error('Delete word error:', error);
       throw error;
     }
   }
 
+  /**
+   * Export words (with filters) as CSV or an Anki deck and open the share sheet
+   */
+  async exportWords(userId: string, format: ExportFormat, filters?: WordFilters) {
+    try {
+      const words = await this.fetchWords(userId, { sort_by: 'word', order: 'asc', ...filters });
+      const progress = await localStore.getAll<LearningProgress>('learning_progress', userId);
+
+      const exportFile = buildExportFile(format, words, progress);
+      await shareExportFile(exportFile);
+      return words.length;
+    } catch (error) {
+      console.error('Export words error:', error);
+      throw error;
+    }
+  }
+
   /**
    * Subscribe to realtime changes for user's words
    */
@@ -272,7 +535,7 @@ export class WordsService {
    */
   private async initializeLearningProgress(userId: string, wordId: number) {
     try {
-      await supabase.from('learning_progress').insert({
+      await localStore.insert('learning_progress', {
         user_id: userId,
         word_id: wordId,
         easiness_factor: 2.5,
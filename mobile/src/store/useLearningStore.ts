@@ -0,0 +1,81 @@
+import { create } from 'zustand';
+import { LearningState } from '../types';
+import { learningService } from '../services/supabase/learning';
+import { useAuthStore } from './useAuthStore';
+import { useWordsStore } from './useWordsStore';
+
+export const useLearningStore = create<LearningState>((set, get) => ({
+  progress: [],
+  stats: {
+    total_words: 0,
+    learning_words: 0,
+    mastered_words: 0,
+    words_due: 0,
+  },
+  loading: false,
+
+  fetchProgress: async () => {
+    const userId = get().getUserId();
+    if (!userId) return;
+
+    try {
+      set({ loading: true });
+      const progress = await learningService.fetchProgress(userId);
+      const now = Date.now();
+
+      set({
+        progress,
+        stats: {
+          total_words: progress.length,
+          learning_words: progress.filter((p) => p.stage !== 'mastered').length,
+          mastered_words: progress.filter((p) => p.stage === 'mastered').length,
+          words_due: progress.filter((p) => new Date(p.next_review_at).getTime() <= now).length,
+        },
+        loading: false,
+      });
+    } catch (error) {
+      console.error('Fetch progress error:', error);
+      set({ loading: false });
+    }
+  },
+
+  reviewWord: async (wordId, correct, timeToRecall) => {
+    const userId = get().getUserId();
+    if (!userId) return;
+
+    try {
+      const updated = await learningService.reviewWord(userId, wordId, correct, timeToRecall);
+      set((state) => ({
+        progress: state.progress.some((p) => p.word_id === wordId)
+          ? state.progress.map((p) => (p.word_id === wordId ? updated : p))
+          : [...state.progress, updated],
+      }));
+
+      // Mastery level and status may have changed
+      await useWordsStore.getState().fetchWords();
+    } catch (error) {
+      console.error('Review word error:', error);
+      throw error;
+    }
+  },
+
+  getWordsDue: async () => {
+    const userId = get().getUserId();
+    if (!userId) return [];
+
+    try {
+      const words = await learningService.getWordsDue(userId);
+      set((state) => ({ stats: { ...state.stats, words_due: words.length } }));
+      return words;
+    } catch (error) {
+      console.error('Get words due error:', error);
+      return [];
+    }
+  },
+
+  // Helper to get current user ID
+  getUserId: () => {
+    const user = useAuthStore.getState().user;
+    return user?.id || null;
+  },
+}));
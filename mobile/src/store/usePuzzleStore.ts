@@ -59,7 +59,7 @@ export const usePuzzleStore = create<PuzzleState>((set, get) => ({
   },
 
   checkAnswer: async (scope) => {
-    const { currentPuzzle, currentAttempt, selectedClue } = get();
+    const { currentPuzzle, currentAttempt, selectedClue, userAnswers } = get();
     if (!currentPuzzle || !currentAttempt) return false;
 
     try {
@@ -75,7 +75,8 @@ export const usePuzzleStore = create<PuzzleState>((set, get) => ({
         currentPuzzle.id,
         currentAttempt.id,
         scope,
-        position
+        position,
+        userAnswers
       );
 
       return result.correct;
@@ -117,15 +118,14 @@ export const usePuzzleStore = create<PuzzleState>((set, get) => ({
             }
           : undefined;
 
-      const result = await puzzlesService.revealAnswer(
+      const { letters } = await puzzlesService.revealAnswer(
         currentPuzzle.id,
         currentAttempt.id,
         scope,
         position
       );
 
-      // Update user answers with revealed data
-      // Implementation depends on reveal logic
+      set((state) => ({ userAnswers: { ...state.userAnswers, ...letters } }));
     } catch (error) {
       console.error('Reveal answer error:', error);
     }
@@ -7,6 +7,7 @@ export const useWordsStore = create<WordsState>((set, get) => ({
   words: [],
   loading: false,
   error: null,
+  importProgress: null,
 
   fetchWords: async (filters) => {
     const userId = get().getUserId();
@@ -21,13 +22,13 @@ export const useWordsStore = create<WordsState>((set, get) => ({
     }
   },
 
-  addWord: async (wordData) => {
+  addWord: async (wordData, options) => {
     const userId = get().getUserId();
     if (!userId) return;
 
     try {
       set({ loading: true, error: null });
-      const newWord = await wordsService.addWord(userId, wordData);
+      const newWord = await wordsService.addWord(userId, wordData, options);
       set((state) => ({
         words: [newWord, ...state.words],
         loading: false,
@@ -66,23 +67,85 @@ export const useWordsStore = create<WordsState>((set, get) => ({
     }
   },
 
-  bulkImport: async (words, source) => {
+  selectSense: async (id, senseIndex) => {
+    try {
+      set({ error: null });
+      const updatedWord = await wordsService.selectSense(id, senseIndex);
+      set((state) => ({
+        words: state.words.map((w) => (w.id === id ? updatedWord : w)),
+      }));
+    } catch (error: any) {
+      set({ error: error.message });
+      throw error;
+    }
+  },
+
+  suggestLemma: async (word) => {
+    try {
+      return await wordsService.suggestLemma(word);
+    } catch (error: any) {
+      // Only a suggestion; add the word as typed
+      console.error('[Words] Lemma lookup failed:', error);
+      return null;
+    }
+  },
+
+  bulkImport: async (words, source, options) => {
     const userId = get().getUserId();
-    if (!userId) return;
+    if (!userId) return { imported: [], results: [] };
 
     try {
-      set({ loading: true, error: null });
-      const importedWords = await wordsService.bulkImport(userId, words, source);
+      set({ loading: true, error: null, importProgress: { done: 0, total: words.length } });
+      const report = await wordsService.bulkImport(userId, words, source, {
+        ...options,
+        onProgress: (importProgress) => set({ importProgress }),
+      });
+
+      // Updated words replace their old copy, new words go on top
+      const importedIds = new Set(report.imported.map((w) => w.id));
       set((state) => ({
-        words: [...importedWords, ...state.words],
+        words: [...report.imported, ...state.words.filter((w) => !importedIds.has(w.id))],
         loading: false,
+        importProgress: null,
       }));
+      return report;
     } catch (error: any) {
-      set({ error: error.message, loading: false });
+      set({ error: error.message, loading: false, importProgress: null });
+      throw error;
+    }
+  },
+
+  exportWords: async (format, filters) => {
+    const userId = get().getUserId();
+    if (!userId) return;
+
+    try {
+      set({ error: null });
+      await wordsService.exportWords(userId, format, filters);
+    } catch (error: any) {
+      set({ error: error.message });
       throw error;
     }
   },
 
+  retryDefinitions: async () => {
+    const userId = get().getUserId();
+    if (!userId) return;
+
+    try {
+      const updated = await wordsService.retryPendingDefinitions(userId);
+      if (updated.length === 0) return;
+
+      const byId = new Map(updated.map((w) => [w.id, w]));
+      set((state) => ({
+        words: state.words.map((w) => byId.get(w.id) || w),
+      }));
+    } catch (error: any) {
+      // Background work; the next sweep tries again
+      console.error('[Words] Definition retry failed:', error);
+    }
+  },
+
   // Helper to get current user ID
   getUserId: () => {
     const user = useAuthStore.getState().user;
@@ -23,20 +23,32 @@ export interface Word {
   id: number;
   user_id: string;
   word: string;
+  word_definition_id?: number; // Shared word_definitions row, once looked up
   definition?: string; // Legacy field
   custom_definition?: string;
-  fetched_definition?: string; // Auto-fetched from API
+  fetched_definition?: string; // Auto-fetched from API (the primary sense)
+  senses?: WordSense[]; // Every sense the dictionary gave
+  primary_sense?: number; // Index into senses of the sense being learned
   definition_source?: string; // Source of definition
   fetch_status?: 'pending' | 'success' | 'failed' | 'not_found';
   fetch_error?: string;
   fetched_at?: string;
+  fetch_attempts?: number; // Lookups tried; retried with backoff until MAX_FETCH_ATTEMPTS
+  next_fetch_at?: string;
   status: 'learning' | 'mastered' | 'archived';
   mastery_level: number; // 0-5
   source: WordSource;
-  import_context?: Record<string, any>;
+  import_context?: Record<string, any>; // original_form: the inflected form it was added as
   added_at: string;
   last_reviewed_at?: string;
   mastered_at?: string;
+  updated_at?: string;
+}
+
+export interface WordSense {
+  part_of_speech?: string;
+  definition: string;
+  example?: string;
 }
 
 export type WordSource = 
@@ -48,6 +60,43 @@ export type WordSource =
   | 'android_lookup'
   | 'file_upload';
 
+// A word read from an import file (Kindle, Kobo, CSV...)
+export interface ImportWord {
+  word: string;
+  row?: number; // Row/line in the import file, for import reports
+  custom_definition?: string;
+  import_context?: Record<string, any>; // e.g. stem, usage sentence, book title
+}
+
+export type BulkImportStatus = 'imported' | 'updated' | 'duplicate' | 'invalid' | 'failed';
+
+export interface BulkImportResult {
+  word: string;
+  row?: number;
+  status: BulkImportStatus;
+  reason?: string;
+  word_id?: number;
+}
+
+export interface BulkImportReport {
+  imported: Word[]; // New and updated words
+  results: BulkImportResult[]; // One per input word, in input order
+}
+
+export interface AddWordOptions {
+  useLemmas?: boolean; // Save an inflected word no dictionary has as its lemma (default true)
+}
+
+export interface BulkImportOptions {
+  onDuplicate?: 'skip' | 'update'; // update = fill in missing notes/import context
+  useLemmas?: boolean; // Save inflected words no dictionary has as their lemma (default true)
+}
+
+export interface ImportProgress {
+  done: number;
+  total: number;
+}
+
 export interface WordDefinition {
   id: number;
   word: string;
@@ -71,14 +120,18 @@ export interface Puzzle {
   grid_data: GridData;
   clues_across: Clue[];
   clues_down: Clue[];
-  user_words: string[];
-  filler_words: string[];
+  seed?: number; // PRNG seed; regenerating with it reproduces the puzzle
+  theme?: string | null; // Name of the theme of a themed puzzle
+  generation_time_ms?: number;
   status: 'active' | 'completed' | 'abandoned';
   created_at: string;
+  updated_at?: string;
 }
 
+// Answers stay on the server: the client copy has '' for white squares and
+// null for black ones, and clues without their answers
 export interface GridData {
-  grid: Cell[][];
+  grid: (string | null)[][];
   black_squares: [number, number][];
 }
 
@@ -95,19 +148,38 @@ export interface Cell {
 export interface Clue {
   number: number;
   clue: string;
-  answer: string;
   row: number;
   col: number;
   length: number;
+  enumeration?: string; // e.g. "(6,5)" for a phrase; missing on older puzzles
+  clue_id?: number | null; // Clue bank entry the clue came from
+  reverse?: boolean; // The answer is a synonym or gloss and the user's word is in the clue
   is_user_word: boolean;
   direction: 'across' | 'down';
 }
 
+export interface CheckAnswerResult {
+  correct: boolean; // Every checked cell is filled and right
+  cells: { row: number; col: number; filled: boolean; correct: boolean }[];
+  words: { number: number; direction: 'across' | 'down'; filled: boolean; correct: boolean }[];
+  correct_words: number;
+  incorrect_words: number;
+  accuracy_percentage: number;
+}
+
+export interface WordResult {
+  correct: boolean; // Result of the latest check
+  checks: number;
+  wrong_checks: number;
+  revealed?: boolean; // Counts as not recalled for learning progress
+  solve_seconds?: number; // Seconds into the attempt when first checked correct
+}
+
 export interface PuzzleAttempt {
   id: number;
   puzzle_id: number;
   user_id: string;
-  current_grid: Record<string, string>;
+  current_grid: Record<string, string>; // "row,col" -> letter
   completed: boolean;
   start_time: string;
   end_time?: string;
@@ -118,6 +190,7 @@ export interface PuzzleAttempt {
   correct_words: number;
   incorrect_words: number;
   accuracy_percentage: number;
+  word_results?: Record<string, WordResult>; // Keyed "<number>-<direction>"
   updated_at: string;
 }
 
@@ -225,15 +298,26 @@ export interface WordsState {
   words: Word[];
   loading: boolean;
   error: string | null;
+  importProgress: ImportProgress | null; // Set while bulkImport runs
   fetchWords: (filters?: WordFilters) => Promise<void>;
-  addWord: (word: Omit<Word, 'id' | 'user_id' | 'added_at'>) => Promise<void>;
+  addWord: (word: Omit<Word, 'id' | 'user_id' | 'added_at'>, options?: AddWordOptions) => Promise<void>;
   deleteWord: (id: number) => Promise<void>;
   updateWord: (id: number, updates: Partial<Word>) => Promise<void>;
-  bulkImport: (words: string[], source: WordSource) => Promise<void>;
+  bulkImport: (
+    words: (string | ImportWord)[],
+    source: WordSource,
+    options?: BulkImportOptions
+  ) => Promise<BulkImportReport>;
+  exportWords: (format: 'csv' | 'anki', filters?: WordFilters) => Promise<void>;
+  retryDefinitions: () => Promise<void>;
+  selectSense: (id: number, senseIndex: number) => Promise<void>;
+  suggestLemma: (word: string) => Promise<string | null>;
 }
 
 export interface WordFilters {
   status?: 'learning' | 'mastered' | 'archived';
+  source?: WordSource;
+  needs_definition?: boolean; // No custom notes and no fetched definition yet
   search?: string;
   sort_by?: 'added_at' | 'word' | 'mastery_level';
   order?: 'asc' | 'desc';
@@ -256,9 +340,11 @@ export interface PuzzleState {
 
 export interface PuzzleConfig {
   difficulty: number;
-  grid_size: number;
+  grid_size?: number; // N×N grid completed with filler words; free-form layout when omitted
   user_words_count: number;
   include_reverse_clues?: boolean;
+  themed?: boolean; // Build the puzzle from a group of related words
+  seed?: number; // Reproduce a puzzle (shared links, daily puzzle); random if omitted
 }
 
 export interface LearningState {
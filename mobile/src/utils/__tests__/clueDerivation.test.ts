@@ -0,0 +1,53 @@
+import { describe, expect, it } from '@jest/globals';
+import { leaksAnswer, maskAnswer } from '@shared/clues/clueDerivation';
+
+describe('leaksAnswer', () => {
+  it('finds the answer and its inflections', () => {
+    expect(leaksAnswer('Run for office', 'run')).toBe(true);
+    expect(leaksAnswer('Fast running', 'run')).toBe(true);
+    expect(leaksAnswer('She ran home', 'run')).toBe(true);
+    expect(leaksAnswer('Stopped short', 'stop')).toBe(true);
+    expect(leaksAnswer('Hoping for more', 'hope')).toBe(true);
+    expect(leaksAnswer('Obfuscated on purpose', 'obfuscate')).toBe(true);
+    expect(leaksAnswer('Lots of berries', 'berry')).toBe(true);
+  });
+
+  it('does not match other words that start with the answer', () => {
+    expect(leaksAnswer('Rung of a ladder', 'run')).toBe(false);
+    expect(leaksAnswer('Runway lights', 'run')).toBe(false);
+    expect(leaksAnswer('Feline pet', 'cat')).toBe(false);
+  });
+
+  it.each([
+    ['A bedtime story', 'store'],
+    ['In particular', 'part'],
+    ['Of great significance', 'sign'],
+    ['A distant planet', 'plane'],
+    ['Stories of old', 'store'],
+    ['Planets and moons', 'plane'],
+  ])('does not find the answer in %j for %s', (clue, word) => {
+    expect(leaksAnswer(clue, word)).toBe(false);
+  });
+
+  it('finds phrases, also run together', () => {
+    expect(leaksAnswer('Icecream flavor', 'ice cream')).toBe(true);
+  });
+});
+
+describe('maskAnswer', () => {
+  it('masks inflections of short answers', () => {
+    expect(maskAnswer('He was running late', 'run')).toBe('He was _____ late');
+    expect(maskAnswer('The dogs ran off', 'dog', '~')).toBe('The ~ ran off');
+  });
+
+  it('leaves words that only start with the answer alone', () => {
+    expect(maskAnswer('Having great significance in a particular story', 'sign')).toBe(
+      'Having great significance in a particular story'
+    );
+    expect(maskAnswer('Signs of a signed story', 'sign')).toBe('_____ of a _____ story');
+  });
+
+  it('masks phrases and leaves other words alone', () => {
+    expect(maskAnswer('A scoop of ice-cream on a runway', 'ice cream')).toBe('A scoop of _____ on a runway');
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, expect, it } from '@jest/globals';
+import { findClueLeaks, fixClueLeaks, LeakCheckWord } from '@shared/crossword/clueLeaks';
+
+function entry(number: number, direction: 'across' | 'down', answer: string, clue: string): LeakCheckWord {
+  return { number, direction, answer, clue };
+}
+
+const STORY = 'Having great significance in a particular story';
+
+describe('findClueLeaks', () => {
+  it('finds a clue with its own answer or an inflection of it', () => {
+    expect(
+      findClueLeaks([entry(1, 'across', 'RUN', 'She ran for office'), entry(2, 'down', 'TIDE', 'Ebb and flow')])
+    ).toEqual([{ number: 1, direction: 'across', leaked: 'RUN', ownAnswer: true }]);
+  });
+
+  it('finds a clue with another answer of the puzzle', () => {
+    expect(
+      findClueLeaks([entry(1, 'across', 'OCEAN', 'Where the tide turns'), entry(2, 'down', 'TIDE', 'Ebb and flow')])
+    ).toEqual([{ number: 1, direction: 'across', leaked: 'TIDE', ownAnswer: false }]);
+  });
+
+  it('finds the lemma of an inflected answer', () => {
+    expect(findClueLeaks([entry(1, 'across', 'OBFUSCATED', 'Obfuscate on purpose')])).toEqual([
+      { number: 1, direction: 'across', leaked: 'OBFUSCATED', ownAnswer: true },
+    ]);
+  });
+
+  it('finds a phrase answer in another clue only as the whole phrase', () => {
+    const iceCream = { ...entry(2, 'down', 'ICECREAM', 'Frozen dessert'), enumeration: '(3,5)' };
+    expect(findClueLeaks([entry(1, 'across', 'SORBET', 'Fruit ice'), iceCream])).toEqual([]);
+    expect(findClueLeaks([entry(1, 'across', 'SUNDAE', 'Ice cream with toppings'), iceCream])).toEqual([
+      { number: 1, direction: 'across', leaked: 'ICE CREAM', ownAnswer: false },
+    ]);
+  });
+
+  it('does not take words that start with an answer for the answer', () => {
+    const words = [
+      entry(1, 'across', 'MOMENTOUS', STORY),
+      entry(2, 'down', 'STORE', 'Shop'),
+      entry(3, 'down', 'PART', 'Piece'),
+      entry(4, 'across', 'SIGN', 'Omen'),
+      entry(5, 'across', 'PLANE', 'Aircraft'),
+      entry(6, 'down', 'ORBIT', 'Path of a planet'),
+    ];
+    expect(findClueLeaks(words)).toEqual([]);
+  });
+});
+
+describe('fixClueLeaks', () => {
+  it('swaps a leaking clue for the first variant that does not leak', () => {
+    const words = [entry(1, 'across', 'RUN', 'She ran for office'), entry(2, 'down', 'TIDE', 'Ebb and flow')];
+    const fixed = fixClueLeaks(words, (word) => [
+      { ...word, clue: 'Running total' },
+      { ...word, clue: 'Sprint' },
+    ]);
+
+    expect(fixed.map((w) => w.clue)).toEqual(['Sprint', 'Ebb and flow']);
+  });
+
+  it('masks the leaked words without a variant that does not leak', () => {
+    const words = [entry(1, 'across', 'RUN', 'She ran for the runway'), entry(2, 'down', 'TIDE', 'Tides turn')];
+    expect(fixClueLeaks(words).map((w) => w.clue)).toEqual(['She ~ for the runway', '~ turn']);
+  });
+
+  it('leaves clues that do not leak as they are', () => {
+    const words = [entry(1, 'across', 'MOMENTOUS', STORY), entry(2, 'down', 'SIGN', 'Omen')];
+    expect(fixClueLeaks(words)).toEqual(words);
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, expect, it } from '@jest/globals';
+import { entryText, normalizeEntry, toAnswer } from '@shared/crossword/crosswordEntry';
+
+describe('normalizeEntry', () => {
+  it.each([
+    ['ephemeral', 'EPHEMERAL', '(9)'],
+    ["raison d'être", 'RAISONDETRE', '(6,5)'],
+    ['ad-hoc', 'ADHOC', '(2-3)'],
+    ['ad hoc', 'ADHOC', '(2,3)'],
+    ['  Ice   Cream ', 'ICECREAM', '(3,5)'],
+    ['well—known', 'WELLKNOWN', '(4-5)'],
+    ['jack-in-the-box', 'JACKINTHEBOX', '(4-2-3-3)'],
+    ['café', 'CAFE', '(4)'],
+    ['Straße', 'STRASSE', '(7)'],
+    ['Æsop', 'AESOP', '(5)'],
+    ['e.g.', 'EG', '(2)'],
+    ["o'clock", 'OCLOCK', '(6)'],
+    ['-prefix-', 'PREFIX', '(6)'],
+  ])('writes %j as %s %s', (text, answer, enumeration) => {
+    expect(normalizeEntry(text)).toEqual({ ok: true, answer, enumeration });
+  });
+
+  it.each([
+    ['', 'No letters'],
+    ['   ', 'No letters'],
+    ["'.-", 'No letters'],
+    ['B2B', `"2" can't be written in the grid`],
+    ['rock & roll', `"&" can't be written in the grid`],
+    ['naïve?', `"?" can't be written in the grid`],
+    ['日本', `"日" can't be written in the grid`],
+  ])('rejects %j: %s', (text, reason) => {
+    expect(normalizeEntry(text)).toEqual({ ok: false, reason });
+  });
+});
+
+describe('toAnswer', () => {
+  it('is empty for text that has no answer', () => {
+    expect(toAnswer("raison d'être")).toBe('RAISONDETRE');
+    expect(toAnswer('B2B')).toBe('');
+  });
+});
+
+describe('entryText', () => {
+  it.each([
+    ['RAISONDETRE', '(6,5)', 'RAISON DETRE'],
+    ['ADHOC', '(2-3)', 'AD-HOC'],
+    ['EPHEMERAL', '(9)', 'EPHEMERAL'],
+    ['EPHEMERAL', undefined, 'EPHEMERAL'],
+    ['ADHOC', '(3,3)', 'ADHOC'],
+  ])('writes %s %s out as %s', (answer, enumeration, text) => {
+    expect(entryText(answer, enumeration)).toBe(text);
+  });
+});
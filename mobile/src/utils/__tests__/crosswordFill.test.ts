@@ -0,0 +1,204 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { generateFilledCrossword, generateFilledCrosswordWithClues } from '../crosswordFill';
+import { PuzzleGrid, WordInput } from '../crosswordGenerator';
+import { getBundledLexicon } from '../fillerLexicon';
+
+const USER_WORDS: WordInput[] = [
+  { word: 'ocean', clue: 'Large body of salt water' },
+  { word: 'Stone', clue: 'Small rock' },
+  { word: 'tea', clue: 'Hot drink' },
+];
+
+const fillerClue = (word: string) => `Filler ${word}`;
+
+/**
+ * Maximal runs of white cells in both directions, with where they start
+ */
+function runs(puzzle: PuzzleGrid) {
+  const found: Array<{ row: number; col: number; direction: 'across' | 'down'; letters: string }> = [];
+  for (const direction of ['across', 'down'] as const) {
+    for (let i = 0; i < puzzle.size; i++) {
+      let start = 0;
+      let letters = '';
+      for (let j = 0; j <= puzzle.size; j++) {
+        const cell = j < puzzle.size ? (direction === 'across' ? puzzle.grid[i][j] : puzzle.grid[j][i]) : null;
+        if (cell) {
+          if (!letters) start = j;
+          letters += cell;
+        } else if (letters) {
+          const [row, col] = direction === 'across' ? [i, start] : [start, i];
+          found.push({ row, col, direction, letters });
+          letters = '';
+        }
+      }
+    }
+  }
+  return found;
+}
+
+describe('generateFilledCrossword', () => {
+  let lexicon: ReturnType<typeof getBundledLexicon>;
+  let fills: Array<{ size: number; puzzle: PuzzleGrid }> = [];
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    lexicon = getBundledLexicon();
+    fills = [5, 7].flatMap((size) =>
+      [1, 2, 3].map((seed) => ({
+        size,
+        puzzle: generateFilledCrossword(USER_WORDS, { size, seed, source: lexicon, fillerClue, maxPatterns: 5 })!,
+      }))
+    );
+    jest.restoreAllMocks();
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('fills a grid of the requested size', () => {
+    for (const { size, puzzle } of fills) {
+      expect(puzzle.size).toBe(size);
+      expect(puzzle.grid).toHaveLength(size);
+      expect(puzzle.grid.every((row) => row.length === size)).toBe(true);
+    }
+  });
+
+  it('places black squares with rotational symmetry', () => {
+    for (const { size, puzzle } of fills) {
+      for (let r = 0; r < size; r++) {
+        for (let c = 0; c < size; c++) {
+          expect(puzzle.grid[r][c] === null).toBe(puzzle.grid[size - 1 - r][size - 1 - c] === null);
+        }
+      }
+    }
+  });
+
+  it('leaves no unchecked squares', () => {
+    for (const { puzzle } of fills) {
+      const entries = runs(puzzle);
+      // Every white cell is in an across and a down entry of 3+ letters
+      expect(entries.every((entry) => entry.letters.length >= 3)).toBe(true);
+      for (let r = 0; r < puzzle.size; r++) {
+        for (let c = 0; c < puzzle.size; c++) {
+          if (puzzle.grid[r][c] === null) continue;
+          expect(entries.some((e) => e.direction === 'across' && e.row === r && c >= e.col && c < e.col + e.letters.length)).toBe(true);
+          expect(entries.some((e) => e.direction === 'down' && e.col === c && r >= e.row && r < e.row + e.letters.length)).toBe(true);
+        }
+      }
+    }
+  });
+
+  it('makes every entry a lexicon or user word, with a clue', () => {
+    const userAnswers = new Set(['OCEAN', 'STONE', 'TEA']);
+    for (const { puzzle } of fills) {
+      const entries = runs(puzzle);
+      expect(puzzle.words).toHaveLength(entries.length);
+      for (const entry of entries) {
+        const word = puzzle.words.find(
+          (w) => w.startRow === entry.row && w.startCol === entry.col && w.direction === entry.direction
+        )!;
+        expect(word.answer).toBe(entry.letters);
+        if (word.isUserWord) {
+          expect(userAnswers.has(word.answer)).toBe(true);
+          expect(word.clue).toBe(USER_WORDS.find((u) => u.word.toUpperCase() === word.answer)!.clue);
+        } else {
+          expect(lexicon.has(word.answer)).toBe(true);
+          expect(word.clue).toBe(fillerClue(word.answer));
+        }
+      }
+      expect(new Set(puzzle.words.map((w) => w.answer)).size).toBe(puzzle.words.length);
+    }
+  });
+
+  it('gives the same grid and clue numbers for a seed on any device', () => {
+    const options = { size: 7, seed: 'daily-2024-01-01', source: lexicon, fillerClue, maxTotalNodes: 8000 };
+    const puzzle = generateFilledCrossword(USER_WORDS, options);
+
+    // A device so slow that every clock reading is a second later
+    let now = Date.now();
+    jest.spyOn(Date, 'now').mockImplementation(() => (now += 1000));
+    const slow = generateFilledCrossword(USER_WORDS, options);
+
+    expect(slow!.grid).toEqual(puzzle!.grid);
+    expect(slow!.words.map((w) => [w.number, w.direction, w.answer])).toEqual(
+      puzzle!.words.map((w) => [w.number, w.direction, w.answer])
+    );
+  });
+
+  it('places a word as one of its other forms when only that fits', () => {
+    const input = [{ word: 'obfuscate', clue: 'Make unclear', forms: ['obscured', 'blur'] }];
+    const puzzle = generateFilledCrossword(input, { size: 5, seed: 1, source: lexicon, fillerClue })!;
+    const placed = puzzle.words.find((w) => w.isUserWord)!;
+
+    expect(placed).toMatchObject({ word: 'OBFUSCATE', answer: 'BLUR', clue: 'Make unclear', enumeration: '(4)' });
+    expect(puzzle.unplacedWords).toEqual([]);
+    expect(puzzle.rejectedWords).toEqual([]);
+  });
+
+  it('reports words no form of which fits the grid', () => {
+    const puzzle = generateFilledCrossword([{ word: 'serendipity', clue: 'Happy accident' }], {
+      size: 5,
+      seed: 1,
+      source: lexicon,
+      fillerClue,
+    })!;
+    expect(puzzle.rejectedWords).toEqual([{ word: 'serendipity', reason: 'Needs 3-5 letters for a 5x5 grid' }]);
+  });
+
+  it('needs clues for filler words', () => {
+    expect(generateFilledCrossword(USER_WORDS, { size: 5, seed: 1, source: lexicon })).toBeNull();
+  });
+});
+
+describe('generateFilledCrosswordWithClues', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('leaves out filler words without a clue', async () => {
+    const lookedUp = new Set<string>();
+    const puzzle = await generateFilledCrosswordWithClues(USER_WORDS, {
+      size: 5,
+      seed: 1,
+      source: getBundledLexicon(),
+      // Only words with an E have a definition
+      lookupClues: async (answers) => {
+        answers.forEach((answer) => lookedUp.add(answer));
+        return new Map(answers.filter((a) => a.includes('E')).map((a) => [a, fillerClue(a)]));
+      },
+    });
+
+    const fillers = puzzle!.words.filter((w) => !w.isUserWord);
+    expect(fillers.length).toBeGreaterThan(0);
+    for (const word of fillers) {
+      expect(word.clue).toBe(fillerClue(word.answer));
+      expect(lookedUp.has(word.answer)).toBe(true);
+    }
+  });
+
+  it('gives up at once when clues cannot be looked up', async () => {
+    const lookupClues = jest.fn(async (_answers: string[]): Promise<Map<string, string>> => {
+      throw new TypeError('Network request failed');
+    });
+    const puzzle = await generateFilledCrosswordWithClues(USER_WORDS, {
+      size: 5,
+      seed: 1,
+      source: getBundledLexicon(),
+      lookupClues,
+    });
+
+    expect(puzzle).toBeNull();
+    expect(lookupClues).toHaveBeenCalledTimes(1);
+  });
+});
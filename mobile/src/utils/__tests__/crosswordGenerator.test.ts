@@ -0,0 +1,103 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { generateCrossword, WordInput } from '../crosswordGenerator';
+
+const words = (...list: string[]): WordInput[] => list.map((word) => ({ word, clue: `Clue for ${word}` }));
+
+// Greedy placement boxes itself in on these; backtracking fits all but one
+const HARD_SET = words('JAZZ', 'AXE', 'AHA', 'TOTEM', 'WALTZ', 'LYNX');
+
+describe('generateCrossword', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('backtracking', () => {
+    it('places more words than greedy placement on a hard set', () => {
+      const greedy = generateCrossword(HARD_SET, { mode: 'greedy' });
+      const backtrack = generateCrossword(HARD_SET, { mode: 'backtrack' });
+
+      expect(greedy!.words).toHaveLength(3);
+      expect(backtrack!.words).toHaveLength(5);
+      expect(backtrack!.unplacedWords).toHaveLength(1);
+    });
+
+    it('stops at the node budget', () => {
+      expect(generateCrossword(HARD_SET, { mode: 'backtrack' })).not.toBeNull();
+
+      const log = jest.spyOn(console, 'log');
+      log.mockClear();
+      const maxNodes = 3;
+      // Two words placed within the budget: too few for a puzzle
+      expect(generateCrossword(HARD_SET, { mode: 'backtrack', maxNodes })).toBeNull();
+
+      const explored = log.mock.calls
+        .map(([message]) => /explored (\d+) nodes/.exec(String(message)))
+        .filter((match): match is RegExpExecArray => match !== null)
+        .map((match) => Number(match[1]));
+      expect(explored).toEqual([maxNodes + 1]); // Counting the node that hit the limit
+      expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('Search budget exhausted'));
+    });
+  });
+
+  describe('mustInclude', () => {
+    it('always places required words', () => {
+      for (const mode of ['greedy', 'backtrack'] as const) {
+        for (const seed of [1, 2, 3, 4, 5]) {
+          const puzzle = generateCrossword(HARD_SET, { mode, seed, mustInclude: ['lynx', 'Waltz'] });
+          const answers = puzzle!.words.map((w) => w.answer);
+          expect(answers).toEqual(expect.arrayContaining(['LYNX', 'WALTZ']));
+        }
+      }
+    });
+
+    it('retries greedy placement with backtracking for a required word', () => {
+      const greedy = generateCrossword(HARD_SET, { mode: 'greedy' });
+      const missing = HARD_SET.map((w) => w.word).find((word) => !greedy!.words.some((w) => w.answer === word))!;
+
+      const puzzle = generateCrossword(HARD_SET, { mode: 'greedy', mustInclude: [missing] });
+      expect(puzzle!.words.map((w) => w.answer)).toContain(missing);
+    });
+
+    it('fails when a required word cannot be placed', () => {
+      // No letters in common with the other words
+      const input = [...words('CAT', 'ACT', 'TAN', 'ANT'), { word: 'QUIZ', clue: 'Test' }];
+
+      expect(generateCrossword(input, { mode: 'greedy', onMissingRequired: 'fail', mustInclude: ['QUIZ'] })).toBeNull();
+      expect(generateCrossword(input, { mode: 'greedy', mustInclude: ['QUIZ'] })).toBeNull();
+      expect(generateCrossword(input, { mode: 'backtrack', mustInclude: ['QUIZ'] })).toBeNull();
+      expect(generateCrossword(input, { mode: 'backtrack' })!.unplacedWords).toEqual(['QUIZ']);
+    });
+
+    it('fails when a required word is not in the input', () => {
+      expect(generateCrossword(HARD_SET, { mustInclude: ['OBOE'] })).toBeNull();
+    });
+  });
+
+  describe('seeded runs', () => {
+    // A device so slow that every clock reading is a second later
+    const slowClock = () => {
+      let now = Date.now();
+      jest.spyOn(Date, 'now').mockImplementation(() => (now += 1000));
+    };
+
+    it('give the same grid and clue numbers on any device', () => {
+      for (const mode of ['greedy', 'backtrack'] as const) {
+        const puzzle = generateCrossword(HARD_SET, { mode, seed: 'daily-2024-01-01' });
+        slowClock();
+        const slow = generateCrossword(HARD_SET, { mode, seed: 'daily-2024-01-01' });
+        jest.mocked(Date.now).mockRestore();
+
+        expect(slow!.grid).toEqual(puzzle!.grid);
+        expect(slow!.words.map((w) => [w.number, w.direction, w.answer])).toEqual(
+          puzzle!.words.map((w) => [w.number, w.direction, w.answer])
+        );
+      }
+    });
+  });
+});
@@ -0,0 +1,190 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import {
+  DefinitionChain,
+  DefinitionProvider,
+  DefinitionResult,
+  definitionKey,
+} from '@shared/definitions/definitionChain';
+import { createFreeDictionaryProvider } from '@shared/definitions/freeDictionary';
+import { createWordDefinitionsProvider } from '@shared/definitions/wordDefinitionsTable';
+
+const EPHEMERAL_ENTRY = {
+  word: 'ephemeral',
+  phonetic: '/ɪˈfɛm(ə)rəl/',
+  meanings: [
+    {
+      partOfSpeech: 'adjective',
+      definitions: [{ definition: 'Lasting for a very short time.', example: 'ephemeral pleasures' }],
+      synonyms: ['fleeting'],
+    },
+  ],
+};
+
+// In-memory stand-in for the device cache
+function stubCache(entries: Record<string, DefinitionResult> = {}) {
+  const cache = new Map(Object.entries(entries));
+  return {
+    cache,
+    provider: {
+      name: 'local_cache',
+      lookup: jest.fn(async (word: string) => cache.get(definitionKey(word)) ?? null),
+      store: jest.fn(async (result: DefinitionResult, word: string) => {
+        cache.set(definitionKey(word), result);
+      }),
+    } satisfies DefinitionProvider,
+  };
+}
+
+// The parts of a Supabase client the table provider uses
+function stubSupabase(rows: Record<string, any>[] = []) {
+  const rpc = jest.fn(async (_fn: string, _args: Record<string, unknown>) => ({ data: 42, error: null }));
+  const from = jest.fn((_table: string) => {
+    let wordLower = '';
+    const query = {
+      select: () => query,
+      eq: (_column: string, value: string) => {
+        wordLower = value;
+        return query;
+      },
+      limit: () => query,
+      maybeSingle: async () => ({ data: rows.find((r) => r.word_lower === wordLower) ?? null, error: null }),
+    };
+    return query;
+  });
+  return { from, rpc };
+}
+
+function stubFetch(status: number, body: unknown = []) {
+  return jest.fn(async (_url: string) => ({ status, ok: status >= 200 && status < 300, json: async () => body }));
+}
+
+describe('DefinitionChain', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  function chainOf(cache: DefinitionProvider, supabase: ReturnType<typeof stubSupabase>, fetchFn: ReturnType<typeof stubFetch>) {
+    return new DefinitionChain([
+      cache,
+      createWordDefinitionsProvider(supabase),
+      createFreeDictionaryProvider(fetchFn as unknown as typeof fetch),
+    ]);
+  }
+
+  it('stops at a cache hit', async () => {
+    const cached = { word: 'ephemeral', definition: 'Short-lived.', source: 'free_dictionary_api', word_definition_id: 7 };
+    const { provider } = stubCache({ ephemeral: cached });
+    const supabase = stubSupabase();
+    const fetchFn = stubFetch(200, [EPHEMERAL_ENTRY]);
+
+    expect(await chainOf(provider, supabase, fetchFn).lookup(' Ephemeral ')).toEqual({
+      status: 'success',
+      result: cached,
+    });
+    expect(supabase.from).not.toHaveBeenCalled();
+    expect(fetchFn).not.toHaveBeenCalled();
+    expect(provider.store).not.toHaveBeenCalled();
+  });
+
+  it('caches a definition from the table on the device', async () => {
+    const { provider, cache } = stubCache();
+    const supabase = stubSupabase([
+      { id: 7, word: 'ephemeral', word_lower: 'ephemeral', definition: 'Short-lived.', source: 'seed' },
+    ]);
+    const fetchFn = stubFetch(200, [EPHEMERAL_ENTRY]);
+
+    const lookup = await chainOf(provider, supabase, fetchFn).lookup('Ephemeral');
+
+    expect(lookup).toEqual({
+      status: 'success',
+      result: expect.objectContaining({ definition: 'Short-lived.', source: 'seed', word_definition_id: 7 }),
+    });
+    expect(cache.get('ephemeral')).toMatchObject({ word_definition_id: 7 });
+    expect(fetchFn).not.toHaveBeenCalled();
+    expect(supabase.rpc).not.toHaveBeenCalled();
+  });
+
+  it('falls back to Free Dictionary and saves the answer to the table and the cache', async () => {
+    const { provider, cache } = stubCache();
+    const supabase = stubSupabase();
+    const fetchFn = stubFetch(200, [EPHEMERAL_ENTRY]);
+
+    const lookup = await chainOf(provider, supabase, fetchFn).lookup('ephemeral');
+
+    expect(lookup).toEqual({
+      status: 'success',
+      result: expect.objectContaining({
+        definition: 'Lasting for a very short time.',
+        usage_example: 'ephemeral pleasures',
+        source: 'free_dictionary_api',
+        word_definition_id: 42,
+      }),
+    });
+    expect(supabase.rpc).toHaveBeenCalledWith(
+      'cache_word_definition',
+      expect.objectContaining({ p_word: 'ephemeral', p_source: 'free_dictionary_api' })
+    );
+    // The table's id reaches the cache, which is stored to after the table
+    expect(cache.get('ephemeral')).toMatchObject({ word_definition_id: 42 });
+  });
+
+  it('reports a word no provider has as not found', async () => {
+    const { provider } = stubCache();
+    const supabase = stubSupabase();
+
+    expect(await chainOf(provider, supabase, stubFetch(404)).lookup('qwzx')).toEqual({ status: 'not_found' });
+    expect(provider.store).not.toHaveBeenCalled();
+    expect(supabase.rpc).not.toHaveBeenCalled();
+  });
+
+  it('goes on past a provider that fails', async () => {
+    const { provider } = stubCache();
+    const supabase = stubSupabase();
+    supabase.from.mockImplementation(() => {
+      throw new Error('connection refused');
+    });
+
+    const lookup = await chainOf(provider, supabase, stubFetch(200, [EPHEMERAL_ENTRY])).lookup('ephemeral');
+    expect(lookup.status).toBe('success');
+  });
+
+  it('reports an error, not not_found, when a provider failed and none has the word', async () => {
+    const { provider } = stubCache();
+    const supabase = stubSupabase();
+
+    expect(await chainOf(provider, supabase, stubFetch(429)).lookup('ephemeral')).toEqual({
+      status: 'error',
+      error: 'free_dictionary_api: Free Dictionary API responded 429',
+    });
+    expect(provider.store).not.toHaveBeenCalled();
+  });
+
+  it('returns the definition when saving it fails', async () => {
+    const { provider, cache } = stubCache();
+    const supabase = stubSupabase();
+    supabase.rpc.mockResolvedValueOnce({ data: null, error: { message: 'permission denied' } } as any);
+
+    const lookup = await chainOf(provider, supabase, stubFetch(200, [EPHEMERAL_ENTRY])).lookup('ephemeral');
+
+    expect(lookup.status).toBe('success');
+    expect(cache.get('ephemeral')).toMatchObject({ source: 'free_dictionary_api' });
+    expect(cache.get('ephemeral')?.word_definition_id).toBeUndefined();
+  });
+
+  it('does not save to a read-only table', async () => {
+    const supabase = stubSupabase();
+    const table = createWordDefinitionsProvider(supabase, { readOnly: true });
+    expect(table.store).toBeUndefined();
+
+    const chain = new DefinitionChain([
+      table,
+      createFreeDictionaryProvider(stubFetch(200, [EPHEMERAL_ENTRY]) as unknown as typeof fetch),
+    ]);
+    expect((await chain.lookup('ephemeral')).status).toBe('success');
+    expect(supabase.rpc).not.toHaveBeenCalled();
+  });
+});
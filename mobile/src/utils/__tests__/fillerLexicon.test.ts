@@ -0,0 +1,77 @@
+import { describe, expect, it } from '@jest/globals';
+import { FillerLexicon, getBundledLexicon, parseWordList } from '../fillerLexicon';
+
+const FIXTURE = `# Small fixture list
+AREA;60
+ORCA;40
+ARIA;70
+URGE
+AREAS;80
+ERA;55
+OKRA;30;Gumbo pod
+`;
+
+describe('FillerLexicon', () => {
+  const lexicon = FillerLexicon.fromText(FIXTURE);
+
+  it('matches letter patterns, best scores first', () => {
+    expect(lexicon.match('?R?A')).toEqual(['ARIA', 'AREA', 'ORCA']);
+    expect(lexicon.match('?r?a')).toEqual(['ARIA', 'AREA', 'ORCA']);
+    expect(lexicon.match('A???')).toEqual(['ARIA', 'AREA']);
+  });
+
+  it('only returns words of the pattern length', () => {
+    expect(lexicon.match('???')).toEqual(['ERA']);
+    expect(lexicon.match('?????')).toEqual(['AREAS']);
+    expect(lexicon.match('??????')).toEqual([]);
+  });
+
+  it('applies minScore and limit', () => {
+    expect(lexicon.match('????', { minScore: 50 })).toEqual(['ARIA', 'AREA', 'URGE']);
+    expect(lexicon.match('????', { limit: 2 })).toEqual(['ARIA', 'AREA']);
+    expect(lexicon.withMinScore(50).match('?R?A')).toEqual(['ARIA', 'AREA']);
+  });
+
+  it('scores words, with 50 for entries without a score', () => {
+    expect(lexicon.score('area')).toBe(60);
+    expect(lexicon.score('URGE')).toBe(50);
+    expect(lexicon.score('ZZZ')).toBeUndefined();
+  });
+
+  it('updates the score of a word added again', () => {
+    const copy = FillerLexicon.fromText(FIXTURE);
+    copy.add('orca', 90);
+    expect(copy.size).toBe(lexicon.size);
+    expect(copy.match('?R?A')[0]).toBe('ORCA');
+  });
+
+  it('reads the optional clue column', () => {
+    expect(lexicon.clue('OKRA')).toBe('Gumbo pod');
+    expect(lexicon.clue('AREA')).toBeUndefined();
+    expect(lexicon.withMinScore(0).clue?.('OKRA')).toBe('Gumbo pod');
+  });
+});
+
+describe('parseWordList', () => {
+  it('skips comments, blank lines and bad scores', () => {
+    expect(parseWordList('# comment\n\nAREA;60\nORCA;high\nURGE')).toEqual([
+      { word: 'AREA', score: 60 },
+      { word: 'URGE', score: 50 },
+    ]);
+  });
+
+  it('keeps semicolons inside clues', () => {
+    expect(parseWordList('ETUI;20;Needle case; small one')).toEqual([
+      { word: 'ETUI', score: 20, clue: 'Needle case; small one' },
+    ]);
+  });
+});
+
+describe('getBundledLexicon', () => {
+  it('loads the shared word list', () => {
+    const bundled = getBundledLexicon();
+    expect(bundled.size).toBeGreaterThan(50000);
+    expect(bundled.has('AREA')).toBe(true);
+    expect(bundled.match('?R?A')).toEqual(expect.arrayContaining(['AREA', 'ARIA']));
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, expect, it } from '@jest/globals';
+import { lemmaCandidates } from '@shared/lemmatizer';
+
+describe('lemmaCandidates', () => {
+  it.each([
+    ['ran', 'run'],
+    ['rung', 'ring'],
+    ['went', 'go'],
+    ['lying', 'lie'],
+    ['children', 'child'],
+    ['mice', 'mouse'],
+    ['analyses', 'analysis'],
+    ['better', 'good'],
+  ])('gives the irregular %s only its lemma %s', (form, lemma) => {
+    expect(lemmaCandidates(form)).toEqual([lemma]);
+  });
+
+  it.each([
+    ['cats', 'cat'],
+    ['boxes', 'box'],
+    ['heroes', 'hero'],
+    ['berries', 'berry'],
+    ['knives', 'knife'],
+    ['sesquipedalians', 'sesquipedalian'],
+    ['walked', 'walk'],
+    ['hoped', 'hope'],
+    ['obfuscated', 'obfuscate'],
+    ['stopped', 'stop'],
+    ['called', 'call'],
+    ['agreed', 'agree'],
+    ['argued', 'argue'],
+    ['studied', 'study'],
+    ['running', 'run'],
+    ['making', 'make'],
+    ['hopping', 'hop'],
+    ['bigger', 'big'],
+    ['fastest', 'fast'],
+    ['happiest', 'happy'],
+  ])('gives %s the lemma %s first', (form, lemma) => {
+    expect(lemmaCandidates(form)[0]).toBe(lemma);
+  });
+
+  it.each([
+    ['wolves', 'wolf'],
+    ['hoped', 'hop'],
+  ])('also offers %s as a form of %s', (form, lemma) => {
+    expect(lemmaCandidates(form)).toContain(lemma);
+  });
+
+  it.each(['news', 'series', 'thus', 'glass', 'bus', 'analysis', 'thing', 'cat', 'ice cream', 'café'])(
+    'leaves %s alone',
+    (word) => {
+      expect(lemmaCandidates(word)).toEqual([]);
+    }
+  );
+
+  it('strips possessives, case and spaces', () => {
+    expect(lemmaCandidates("dog's")).toEqual(['dog']);
+    expect(lemmaCandidates("children's")).toEqual(['children', 'child']);
+    expect(lemmaCandidates('  Running ')[0]).toBe('run');
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, expect, it } from '@jest/globals';
+import { buildEntries, selectScope, solutionLetters, withoutAnswers } from '@shared/puzzleAnswers';
+
+const PUZZLE = {
+  id: 7,
+  user_id: 'user-1',
+  grid_data: {
+    grid: [
+      ['C', 'A', 'T'],
+      ['A', null, null],
+      ['R', null, null],
+    ],
+    black_squares: [[1, 1]],
+  },
+  clues_across: [
+    { number: 1, clue: 'Purring pet', answer: 'CAT', user_word: 'cat', row: 0, col: 0, length: 3, is_user_word: true, direction: 'across' },
+  ],
+  clues_down: [
+    { number: 1, clue: 'Vehicle', answer: 'CAR', user_word: null, row: 0, col: 0, length: 3, is_user_word: false, direction: 'down' },
+  ],
+  user_words: ['cat'],
+  filler_words: ['CAR'],
+  status: 'active',
+};
+
+describe('withoutAnswers', () => {
+  const stripped = withoutAnswers(PUZZLE);
+
+  it('blanks the grid letters and keeps black squares', () => {
+    expect(stripped.grid_data.grid).toEqual([
+      ['', '', ''],
+      ['', null, null],
+      ['', null, null],
+    ]);
+    expect(stripped.grid_data.black_squares).toEqual([[1, 1]]);
+  });
+
+  it('drops answers and answer lists but keeps the clue layout', () => {
+    expect(stripped.clues_across).toEqual([
+      { number: 1, clue: 'Purring pet', row: 0, col: 0, length: 3, is_user_word: true, direction: 'across' },
+    ]);
+    expect(stripped.clues_down[0]).not.toHaveProperty('answer');
+    expect(stripped).not.toHaveProperty('user_words');
+    expect(stripped).not.toHaveProperty('filler_words');
+    expect(JSON.stringify(stripped)).not.toMatch(/CAT|CAR/i);
+  });
+
+  it('leaves the stored puzzle untouched', () => {
+    expect(PUZZLE.clues_across[0].answer).toBe('CAT');
+    expect(buildEntries([...PUZZLE.clues_across, ...PUZZLE.clues_down])[1].cells).toEqual([
+      [0, 0],
+      [1, 0],
+      [2, 0],
+    ]);
+  });
+
+  it('keeps other columns as they are', () => {
+    expect(stripped).toMatchObject({ id: 7, user_id: 'user-1', status: 'active' });
+    expect(withoutAnswers({ id: 1, status: 'completed' })).toEqual({ id: 1, status: 'completed' });
+  });
+});
+
+describe('selectScope', () => {
+  const entries = buildEntries([...PUZZLE.clues_across, ...PUZZLE.clues_down]);
+
+  it('covers a square and the words crossing it', () => {
+    const { entries: crossing, cells } = selectScope(entries, { scope: 'square', row: 0, col: 0 });
+    expect(crossing.map((e) => e.key)).toEqual(['1-across', '1-down']);
+    expect(cells).toEqual([[0, 0]]);
+  });
+
+  it('covers a word', () => {
+    const { entries: words, cells } = selectScope(entries, { scope: 'word', clueNumber: 1, direction: 'down' });
+    expect(words.map((e) => e.answer)).toEqual(['CAR']);
+    expect(cells).toEqual([
+      [0, 0],
+      [1, 0],
+      [2, 0],
+    ]);
+  });
+
+  it('covers each cell of the puzzle once', () => {
+    const { entries: all, cells } = selectScope(entries, { scope: 'puzzle' });
+    expect(all).toHaveLength(2);
+    expect(cells).toHaveLength(5);
+
+    const solution = solutionLetters(entries);
+    expect(cells.map(([r, c]) => solution.get(`${r},${c}`)).join('')).toBe('CATAR');
+  });
+
+  it('rejects squares and clues that are not in the puzzle', () => {
+    expect(() => selectScope(entries, { scope: 'square', row: 1, col: 1 })).toThrow('No word crosses square (1, 1)');
+    expect(() => selectScope(entries, { scope: 'square' })).toThrow('row and col are required');
+    expect(() => selectScope(entries, { scope: 'word', clueNumber: 2, direction: 'across' })).toThrow(
+      'Clue 2 across not found'
+    );
+  });
+});
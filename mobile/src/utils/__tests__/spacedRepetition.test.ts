@@ -0,0 +1,133 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  INITIAL_REVIEW_STATE,
+  MASTERED_INTERVAL_DAYS,
+  MIN_EASINESS,
+  masteryLevel,
+  qualityFromOutcome,
+  qualityFromRecall,
+  ReviewOutcome,
+  ReviewState,
+  scheduleReview,
+} from '@shared/spacedRepetition';
+
+const NOW = new Date('2024-03-01T12:00:00.000Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function state(overrides: Partial<ReviewState>): ReviewState {
+  return { ...INITIAL_REVIEW_STATE, ...overrides };
+}
+
+describe('qualityFromOutcome', () => {
+  it.each<[ReviewOutcome, { hintLevel?: number; wrongChecks?: number }, number]>([
+    ['revealed', {}, 1],
+    ['revealed', { hintLevel: 4, wrongChecks: 3 }, 1],
+    ['wrong', {}, 2],
+    ['wrong', { wrongChecks: 2 }, 2],
+    ['solved_with_hints', { hintLevel: 1 }, 4],
+    ['solved_with_hints', { hintLevel: 1, wrongChecks: 1 }, 3],
+    ['solved_with_hints', { hintLevel: 2 }, 3],
+    ['solved_with_hints', { hintLevel: 4 }, 3],
+    ['solved', {}, 5],
+    ['solved', { wrongChecks: 1 }, 4],
+  ])('grades %s %j as %i', (outcome, signals, quality) => {
+    expect(qualityFromOutcome(outcome, signals)).toBe(quality);
+  });
+});
+
+describe('qualityFromRecall', () => {
+  it.each([
+    [false, 1, 2],
+    [true, 5, 5],
+    [true, 15, 4],
+    [true, 16, 3],
+  ])('grades correct=%s after %is as %i', (correct, seconds, quality) => {
+    expect(qualityFromRecall(correct, seconds)).toBe(quality);
+  });
+});
+
+describe('scheduleReview', () => {
+  it.each([
+    [5, 2.6],
+    [4, 2.5],
+    [3, 2.36],
+    [2, 2.18],
+    [1, 1.96],
+    [0, 1.7],
+  ])('moves the easiness for quality %i to %f', (quality, easiness) => {
+    expect(scheduleReview(INITIAL_REVIEW_STATE, quality, NOW).easiness_factor).toBe(easiness);
+  });
+
+  it.each([
+    [1.4, 0],
+    [1.3, 2],
+    [1.3, 3],
+    [1.5, 1],
+  ])('floors the easiness %f at 1.3 after quality %i', (easiness, quality) => {
+    expect(scheduleReview(state({ easiness_factor: easiness }), quality, NOW).easiness_factor).toBe(MIN_EASINESS);
+  });
+
+  it.each([
+    [0, 1, 1],
+    [1, 6, 2],
+    [2, 15, 3],
+  ])('after %i repetitions waits %i days', (repetitions, interval, nextRepetitions) => {
+    const review = scheduleReview(
+      state({ easiness_factor: 2.5, interval_days: 6, repetitions, stage: 'learning' }),
+      4,
+      NOW
+    );
+    expect(review).toMatchObject({ interval_days: interval, repetitions: nextRepetitions });
+    expect(review.last_review_at).toBe(NOW.toISOString());
+    expect(new Date(review.next_review_at).getTime() - NOW.getTime()).toBe(interval * DAY_MS);
+  });
+
+  it.each([0, 1, 2])('starts the word over after quality %i', (quality) => {
+    const review = scheduleReview(
+      state({ easiness_factor: 2.5, interval_days: 15, repetitions: 3, stage: 'reviewing' }),
+      quality,
+      NOW
+    );
+    expect(review).toMatchObject({ interval_days: 1, repetitions: 0, stage: 'learning' });
+  });
+
+  it('keeps the schedule growing at quality 3', () => {
+    const review = scheduleReview(
+      state({ easiness_factor: 2.5, interval_days: 15, repetitions: 3, stage: 'reviewing' }),
+      3,
+      NOW
+    );
+    expect(review).toMatchObject({ interval_days: 38, repetitions: 4, stage: 'mastered' });
+  });
+
+  it.each([
+    [2.5, 20, 'reviewing'],
+    [2.6, MASTERED_INTERVAL_DAYS, 'mastered'],
+  ])('with easiness %f waits %i days and is %s', (easiness, interval, stage) => {
+    const review = scheduleReview(
+      state({ easiness_factor: easiness, interval_days: 8, repetitions: 2, stage: 'reviewing' }),
+      4,
+      NOW
+    );
+    expect(review).toMatchObject({ interval_days: interval, stage });
+  });
+
+  it('is learning until the second repetition', () => {
+    const first = scheduleReview(INITIAL_REVIEW_STATE, 5, NOW);
+    const second = scheduleReview(first, 5, NOW);
+    expect(first.stage).toBe('learning');
+    expect(second.stage).toBe('reviewing');
+  });
+});
+
+describe('masteryLevel', () => {
+  it.each<[Partial<ReviewState>, number]>([
+    [{ repetitions: 0, stage: 'new' }, 0],
+    [{ repetitions: 1, stage: 'learning' }, 1],
+    [{ repetitions: 3, stage: 'reviewing' }, 3],
+    [{ repetitions: 7, stage: 'reviewing' }, 4],
+    [{ repetitions: 2, stage: 'mastered' }, 5],
+  ])('is %j -> %i', (overrides, level) => {
+    expect(masteryLevel(state(overrides))).toBe(level);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, expect, it } from '@jest/globals';
+import { createLocalEmbedder, embeddingText, EMBEDDING_DIMENSIONS } from '@shared/embeddings/embedder';
+import { cosineSimilarity, findTheme, nameTheme, ThemeCandidate } from '@shared/embeddings/themes';
+
+const DEFINITIONS = [
+  { word: 'violin', definition: 'A bowed musical instrument with four strings' },
+  { word: 'oboe', definition: 'A woodwind musical instrument with a double reed' },
+  { word: 'cello', definition: 'A large bowed musical instrument played between the knees' },
+  { word: 'ephemeral', definition: 'Lasting for a very short time' },
+  { word: 'granite', definition: 'A very hard rock used in building' },
+  { word: 'lenient', definition: 'Permissive or merciful in punishment' },
+  { word: 'harbor', definition: 'A sheltered place where ships moor' },
+];
+
+async function candidates(): Promise<ThemeCandidate<string>[]> {
+  const texts = DEFINITIONS.map(embeddingText);
+  const vectors = await createLocalEmbedder().embed(texts);
+  return DEFINITIONS.map((d, i) => ({ item: d.word, word: d.word, vector: vectors[i], text: d.definition }));
+}
+
+describe('createLocalEmbedder', () => {
+  it('gives the same unit vector for the same text', async () => {
+    const text = embeddingText(DEFINITIONS[0]);
+    const [first, again] = await createLocalEmbedder().embed([text, text]);
+    const [other] = await createLocalEmbedder().embed([text]);
+
+    expect(first).toHaveLength(EMBEDDING_DIMENSIONS);
+    expect(again).toEqual(first);
+    expect(other).toEqual(first);
+    expect(cosineSimilarity(first, first)).toBeCloseTo(1);
+  });
+
+  it('points texts that share words the same way', async () => {
+    const [violin, cello, granite] = await createLocalEmbedder().embed([
+      embeddingText(DEFINITIONS[0]),
+      embeddingText(DEFINITIONS[2]),
+      embeddingText(DEFINITIONS[4]),
+    ]);
+    expect(cosineSimilarity(violin, cello)).toBeGreaterThan(cosineSimilarity(violin, granite));
+  });
+
+  it('names its model after the dimensions', () => {
+    expect(createLocalEmbedder(64).model).toBe('local-hash-64');
+  });
+});
+
+describe('findTheme', () => {
+  it('picks the cluster of related words', async () => {
+    const theme = findTheme(await candidates(), 3);
+
+    expect(theme).not.toBeNull();
+    expect([...theme!.items].sort()).toEqual(['cello', 'oboe', 'violin']);
+    expect(theme!.name).toBe('Instrument');
+    expect(theme!.cohesion).toBeGreaterThan(0);
+  });
+
+  it('needs at least as many candidates as the theme size', async () => {
+    expect(findTheme((await candidates()).slice(0, 2), 3)).toBeNull();
+  });
+});
+
+describe('nameTheme', () => {
+  it('uses the meaning word most definitions share, ignoring the words themselves', () => {
+    expect(
+      nameTheme(['A small sloop', 'A boat rigged like a sloop', 'A rowing boat'], ['dinghy', 'sloop', 'skiff'], 'dinghy')
+    ).toBe('Boat');
+    expect(
+      nameTheme(['A small boat', 'A small sailing boat'], ['dinghy', 'sloop'], 'dinghy')
+    ).toBe('Boat');
+  });
+
+  it('falls back to the center word without a shared meaning word', () => {
+    expect(nameTheme(['A hard rock', 'Lasting a short time'], ['granite', 'ephemeral'], 'granite')).toBe(
+      'Words like "granite"'
+    );
+  });
+});
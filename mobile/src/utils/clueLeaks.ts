@@ -0,0 +1,6 @@
+/**
+ * Clue Leaks (shared with the edge functions, see
+ * supabase/functions/_shared/crossword)
+ */
+
+export * from '@shared/crossword/clueLeaks';
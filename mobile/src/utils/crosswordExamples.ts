@@ -5,7 +5,12 @@
  * with various word lists and configurations.
  */
 
-import { generateCrossword, printGrid, WordInput } from './crosswordGenerator';
+import { generateCrossword, printGrid, PuzzleGrid, WordInput } from './crosswordGenerator';
+import { toAnswer } from './crosswordEntry';
+import { FillWordSource, generateFilledCrossword, generateFilledCrosswordWithClues } from './crosswordFill';
+import { getBundledLexicon } from './fillerLexicon';
+import { createRng, shuffle } from './random';
+import { findTheme } from '@shared/embeddings/themes';
 
 /**
  * Example 1: Simple word list
@@ -122,7 +127,8 @@ export function generateVocabularyPuzzle(vocabularyWords: WordInput[]): void {
  */
 export function generatePuzzleByDifficulty(
   words: WordInput[],
-  difficulty: 'easy' | 'medium' | 'hard'
+  difficulty: 'easy' | 'medium' | 'hard',
+  seed?: number | string
 ): void {
   console.log(`\n========== ${difficulty.toUpperCase()} PUZZLE ==========`);
 
@@ -154,13 +160,13 @@ export function generatePuzzleByDifficulty(
       break;
   }
 
-  const selectedWords = filteredWords
-    .sort(() => Math.random() - 0.5)
-    .slice(0, numWords);
+  const random = seed !== undefined ? createRng(seed) : Math.random;
+  const selectedWords = shuffle(filteredWords, random).slice(0, numWords);
 
   const puzzle = generateCrossword(selectedWords, {
     maxAttempts: 200,
     minIntersections,
+    seed,
   });
 
   if (puzzle) {
@@ -218,34 +224,115 @@ export function runTests(): void {
   console.log('\n========== TESTS COMPLETE ==========\n');
 }
 
+// Review puzzles are topped up with other words to at least this many
+const REVIEW_MIN_WORDS = 5;
+
+// Smallest group of related words a themed puzzle is built from
+const THEME_MIN_WORDS = 5;
+
 // Example export for use in React components
-export function generatePuzzleForApp(
+export async function generatePuzzleForApp(
   userWords: WordInput[],
   options?: {
     difficulty?: 'easy' | 'medium' | 'hard';
     maxWords?: number;
+    layout?: 'freeform' | 'fixed'; // fixed = symmetric N×N grid completed with filler words (free-form if it can't be filled)
+    gridSize?: number; // Grid dimension for the fixed layout
+    fillerSource?: FillWordSource; // Filler words for the fixed layout (default: bundled lexicon)
+    fillerClues?: (answers: string[]) => Promise<Map<string, string>>; // Clues for filler words the source has none for; rejects offline (free-form layout then)
+    seed?: number | string; // Same seed + same words = same puzzle
+    dueWords?: WordInput[]; // Review mode: words due for review, most overdue first
+    themeVectors?: Map<string, number[]>; // Themed mode: definition embedding of each word
   }
-) {
-  const { difficulty = 'medium', maxWords = 12 } = options || {};
+): Promise<(PuzzleGrid & { theme?: string }) | null> {
+  const {
+    difficulty = 'medium',
+    maxWords = 12,
+    layout = 'freeform',
+    gridSize = 7,
+    fillerSource,
+    fillerClues,
+    seed,
+    dueWords,
+    themeVectors,
+  } = options || {};
 
   // Filter and select words based on difficulty
   let selectedWords = userWords;
 
+  // Length in the grid ("ad hoc" is 5 letters). Words that can't be grid
+  // answers stay in so the generator reports them.
+  const fits = (w: WordInput, min: number, max: number) => {
+    const length = toAnswer(w.word).length;
+    return length === 0 || (length >= min && length <= max);
+  };
   if (difficulty === 'easy') {
-    selectedWords = userWords.filter((w) => w.word.length >= 3 && w.word.length <= 5);
+    selectedWords = userWords.filter((w) => fits(w, 3, 5));
   } else if (difficulty === 'medium') {
-    selectedWords = userWords.filter((w) => w.word.length >= 4 && w.word.length <= 8);
+    selectedWords = userWords.filter((w) => fits(w, 4, 8));
+  }
+
+  const random = seed !== undefined ? createRng(seed) : Math.random;
+
+  const buildPuzzle = async (words: WordInput[]): Promise<PuzzleGrid | null> => {
+    if (layout === 'fixed') {
+      const fill = (source: FillWordSource) =>
+        fillerClues
+          ? generateFilledCrosswordWithClues(words, { size: gridSize, source, seed, lookupClues: fillerClues })
+          : generateFilledCrossword(words, { size: gridSize, source, seed });
+
+      // Easier puzzles keep obscure fill and crosswordese out of the grid,
+      // unless the common words alone can't complete it
+      const minFillerScores = difficulty === 'easy' ? [55, 35, 0] : difficulty === 'medium' ? [35, 0] : [0];
+      const sources = fillerSource
+        ? [fillerSource]
+        : minFillerScores.map((minScore) => getBundledLexicon().withMinScore(minScore));
+      for (const source of sources) {
+        const puzzle = await fill(source);
+        if (puzzle) return puzzle;
+      }
+      console.log(`[Crossword] Could not fill a ${gridSize}x${gridSize} grid, using the free-form layout`);
+    }
+
+    // Generate puzzle
+    return generateCrossword(words, {
+      maxAttempts: 200,
+      minIntersections: difficulty === 'hard' ? 2 : 1,
+      seed,
+    });
+  };
+
+  if (dueWords && dueWords.length > 0) {
+    // Due words go in regardless of difficulty; other words only top up
+    // the list when there are too few due words for a valid grid
+    const due = dueWords.slice(0, maxWords);
+    const dueSet = new Set(due.map((w) => w.word));
+    const extras = shuffle(selectedWords.filter((w) => !dueSet.has(w.word)), random);
+
+    const maxTopUp = Math.max(0, maxWords - due.length);
+    const minTopUp = Math.min(maxTopUp, Math.max(0, REVIEW_MIN_WORDS - due.length));
+
+    const puzzle = await buildPuzzle([...due, ...extras.slice(0, minTopUp)]);
+    if (puzzle || maxTopUp <= minTopUp) return puzzle;
+
+    // Too few crossings among the due words, so fill up to maxWords and retry
+    console.log('[Crossword] Review words did not form a grid, topping up with more words');
+    return buildPuzzle([...due, ...extras.slice(0, maxTopUp)]);
+  }
+
+  if (themeVectors) {
+    // The most closely related words, named after what they share; random
+    // words when too few have vectors or the group doesn't form a grid
+    const candidates = selectedWords
+      .filter((w) => themeVectors.has(w.word))
+      .map((w) => ({ item: w, word: w.word, vector: themeVectors.get(w.word)!, text: w.clue }));
+    const theme = findTheme(candidates, Math.max(THEME_MIN_WORDS, Math.min(maxWords, candidates.length)));
+    const puzzle = theme && (await buildPuzzle(theme.items));
+    if (puzzle) return { ...puzzle, theme: theme.name };
+    console.log('[Crossword] No theme formed a grid, using random words');
   }
 
   // Randomly select words
   const numWords = Math.min(maxWords, selectedWords.length);
-  const words = selectedWords
-    .sort(() => Math.random() - 0.5)
-    .slice(0, numWords);
-
-  // Generate puzzle
-  return generateCrossword(words, {
-    maxAttempts: 200,
-    minIntersections: difficulty === 'hard' ? 2 : 1,
-  });
+  return buildPuzzle(shuffle(selectedWords, random).slice(0, numWords));
 }
@@ -0,0 +1,6 @@
+/**
+ * Fixed-Size Crossword Fill (shared with the edge functions, see
+ * supabase/functions/_shared/crossword)
+ */
+
+export * from '@shared/crossword/crosswordFill';
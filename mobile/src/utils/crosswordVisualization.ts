@@ -5,6 +5,7 @@
  */
 
 import { PuzzleGrid, PlacedWord } from './crosswordGenerator';
+import { findClueLeaks } from './clueLeaks';
 
 /**
  * Generate an ASCII representation of the puzzle grid
@@ -108,7 +109,7 @@ export function formatClues(puzzle: PuzzleGrid): string {
     output += '━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n';
     across.forEach(word => {
       output += `${word.number.toString().padStart(2)}. ${word.clue}\n`;
-      output += `    (${word.answer.length} letters)\n`;
+      output += `    ${word.enumeration}\n`;
     });
   }
   
@@ -118,7 +119,7 @@ export function formatClues(puzzle: PuzzleGrid): string {
     output += '━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n';
     down.forEach(word => {
       output += `${word.number.toString().padStart(2)}. ${word.clue}\n`;
-      output += `    (${word.answer.length} letters)\n`;
+      output += `    ${word.enumeration}\n`;
     });
   }
   
@@ -251,6 +252,12 @@ export function validatePuzzle(puzzle: PuzzleGrid): {
     errors.push(`Grid dimensions don't match size property`);
   }
   
+  // Check 4: No clue gives away its answer or another answer
+  for (const leak of findClueLeaks(puzzle.words)) {
+    const whose = leak.ownAnswer ? 'its answer' : 'another answer';
+    errors.push(`Clue ${leak.number} ${leak.direction} contains ${whose} (${leak.leaked})`);
+  }
+  
   return {
     valid: errors.length === 0,
     errors,
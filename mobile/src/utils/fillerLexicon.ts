@@ -0,0 +1,22 @@
+/**
+ * Filler Lexicon (shared with the edge functions, see
+ * supabase/functions/_shared/crossword)
+ */
+
+import { FillerLexicon, FillerWordList } from '@shared/crossword/fillerLexicon';
+import fillerWords from '@shared/crossword/fillerWords.json';
+
+export * from '@shared/crossword/fillerLexicon';
+
+let bundledLexicon: FillerLexicon | null = null;
+
+/**
+ * The filler lexicon bundled with the app (parsed once, on first use)
+ */
+export function getBundledLexicon(): FillerLexicon {
+  if (!bundledLexicon) {
+    bundledLexicon = FillerLexicon.fromList(fillerWords as FillerWordList);
+    console.log(`[Lexicon] Loaded ${bundledLexicon.size} filler words`);
+  }
+  return bundledLexicon;
+}
@@ -0,0 +1,6 @@
+/**
+ * Seeded Random Number Generation (shared with the edge functions, see
+ * supabase/functions/_shared/crossword)
+ */
+
+export * from '@shared/crossword/random';
@@ -0,0 +1,155 @@
+/**
+ * Clue Bank
+ *
+ * The clues table holds any number of clues per word definition. A puzzle
+ * takes the clue whose difficulty is closest to the puzzle's, where a clue's
+ * difficulty is its rated difficulty_level adjusted by how often players
+ * actually solve it. Clues from the user's previous puzzle are skipped when
+ * the word has another one. Usage is counted when a puzzle is saved and the
+ * solve outcome of each clue is recorded when an attempt is graded. Words
+ * with no clues yet get variants derived from their definition.
+ */
+
+import { DerivedClue } from './clueDerivation.ts';
+
+// The parts of a Supabase client the clue bank uses
+interface SupabaseLike {
+  from(table: string): any;
+  rpc(fn: string, args: Record<string, unknown>): any;
+}
+
+export interface BankClue {
+  id: number;
+  word_definition_id: number;
+  clue_text: string;
+  difficulty_level: number | null;
+  clue_type: string | null;
+  usage_count: number | null;
+  average_solve_time: number | null;
+  success_rate: number | null; // Percent
+}
+
+export interface ClueOutcome {
+  clue_id: number;
+  attempt_id: number;
+  solved: boolean;
+  solve_time_seconds?: number;
+}
+
+// Uses before success_rate is trusted over the rated difficulty
+const MIN_USES_FOR_STATS = 3;
+
+/**
+ * Difficulty (1-10) of a clue: the rated level, moved halfway towards the
+ * difficulty its success rate shows (100% solved = 1, 0% = 10)
+ */
+export function effectiveDifficulty(clue: BankClue): number {
+  const rated = clue.difficulty_level ?? 5;
+  if (clue.success_rate === null || (clue.usage_count || 0) < MIN_USES_FOR_STATS) {
+    return rated;
+  }
+  const observed = 1 + 9 * (1 - Number(clue.success_rate) / 100);
+  return (rated + observed) / 2;
+}
+
+/**
+ * Best clue for a puzzle of the given difficulty, avoiding the excluded ones
+ * unless there is nothing else. Ties go to the less used clue.
+ */
+export function chooseClue(
+  clues: BankClue[],
+  difficulty: number,
+  exclude: Set<number> = new Set()
+): BankClue | null {
+  const fresh = clues.filter((c) => !exclude.has(c.id));
+  const pool = fresh.length > 0 ? fresh : clues;
+  if (pool.length === 0) return null;
+
+  const distance = (c: BankClue) => Math.abs(effectiveDifficulty(c) - difficulty);
+  return [...pool].sort(
+    (a, b) =>
+      distance(a) - distance(b) || (a.usage_count || 0) - (b.usage_count || 0) || a.id - b.id
+  )[0];
+}
+
+export function createClueBank(supabase: SupabaseLike) {
+  return {
+    /**
+     * All clues of the given word definitions, by word_definition_id
+     */
+    async cluesFor(definitionIds: number[]): Promise<Map<number, BankClue[]>> {
+      const byDefinition = new Map<number, BankClue[]>();
+      if (definitionIds.length === 0) return byDefinition;
+
+      const { data, error } = await supabase
+        .from('clues')
+        .select('id, word_definition_id, clue_text, difficulty_level, clue_type, usage_count, average_solve_time, success_rate')
+        .in('word_definition_id', [...new Set(definitionIds)]);
+
+      if (error) throw error;
+
+      for (const clue of (data || []) as BankClue[]) {
+        const list = byDefinition.get(clue.word_definition_id) || [];
+        list.push(clue);
+        byDefinition.set(clue.word_definition_id, list);
+      }
+      return byDefinition;
+    },
+
+    /**
+     * Clues used in the user's latest puzzle
+     */
+    async recentClueIds(userId: string): Promise<Set<number>> {
+      const { data, error } = await supabase
+        .from('puzzles')
+        .select('clues_across, clues_down')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      const clues = [...(data?.clues_across || []), ...(data?.clues_down || [])];
+      return new Set(clues.map((c: any) => c.clue_id).filter((id: unknown) => typeof id === 'number'));
+    },
+
+    /**
+     * Store derived clue variants for a definition; returns all its clues
+     * (service role only)
+     */
+    async addDerivedClues(definitionId: number, clues: DerivedClue[]): Promise<BankClue[]> {
+      const { data, error } = await supabase.rpc('add_derived_clues', {
+        p_word_definition_id: definitionId,
+        p_clues: clues,
+      });
+      if (error) throw error;
+      return (data || []) as BankClue[];
+    },
+
+    /**
+     * Count a puzzle's use of its clues (service role only)
+     */
+    async recordUsage(clueIds: number[]): Promise<void> {
+      if (clueIds.length === 0) return;
+      const { error } = await supabase.rpc('record_clue_usage', { p_clue_ids: clueIds });
+      if (error) throw error;
+    },
+
+    /**
+     * Solve outcome of a clue in a graded attempt (recorded once per attempt,
+     * and only for a clue of the attempt's puzzle)
+     */
+    async recordOutcome(outcome: ClueOutcome): Promise<void> {
+      const { error } = await supabase.rpc('record_clue_outcome', {
+        p_clue_id: outcome.clue_id,
+        p_attempt_id: outcome.attempt_id,
+        p_solved: outcome.solved,
+        p_solve_time_seconds: outcome.solve_time_seconds ?? null,
+      });
+      if (error) throw error;
+    },
+  };
+}
+
+export type ClueBank = ReturnType<typeof createClueBank>;
@@ -0,0 +1,248 @@
+/**
+ * Clue Derivation
+ *
+ * Builds clue variants from definition data without any outside service:
+ * the trimmed definition, a fill-in-the-blank from the usage example, a
+ * synonym, an antonym ("Opposite of ...") and the definition tagged with its
+ * part of speech. A clue that contains the answer, or another form of it
+ * ("ran" for RUN), is dropped.
+ *
+ * Reverse clues turn this around: the answer is a synonym or a short gloss
+ * and the word itself is in the clue, to practice recognition.
+ */
+
+import { normalizeEntry } from '../crossword/crosswordEntry.ts';
+import { lemmaCandidates } from '../lemmatizer.ts';
+
+export type ClueType = 'definition' | 'fill_in_blank' | 'synonym' | 'antonym' | 'part_of_speech';
+
+// Definition data a clue can be built from (a word_definitions row fits)
+export interface ClueSource {
+  word: string;
+  definition?: string | null;
+  part_of_speech?: string | null;
+  usage_example?: string | null;
+  synonyms?: string[] | null;
+  antonyms?: string[] | null;
+}
+
+export interface ReverseClue {
+  answer: string; // As written, e.g. "short-lived"
+  clue_text: string; // Contains the word
+  clue_type: 'reverse_synonym' | 'reverse_gloss';
+}
+
+export interface DerivedClue {
+  clue_text: string;
+  clue_type: ClueType;
+  difficulty_level: number; // 1-10, as in the clues table
+}
+
+// How hard each type of clue usually is to solve
+const CLUE_DIFFICULTY: Record<ClueType, number> = {
+  fill_in_blank: 3,
+  synonym: 4,
+  part_of_speech: 4,
+  definition: 5,
+  antonym: 6,
+};
+
+const POS_ABBREVIATIONS: Record<string, string> = {
+  noun: 'n.',
+  verb: 'v.',
+  adjective: 'adj.',
+  adverb: 'adv.',
+  pronoun: 'pron.',
+  preposition: 'prep.',
+  conjunction: 'conj.',
+  interjection: 'interj.',
+};
+
+const MAX_CLUE_LENGTH = 80;
+const MAX_GLOSS_WORDS = 2;
+const MIN_ANSWER_LENGTH = 3;
+const MAX_ANSWER_LENGTH = 15;
+const BLANK = '_____';
+
+/**
+ * Lowercase letters without diacritics or apostrophes ("D'Être" → "detre")
+ */
+function plainLetters(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '') // Combining diacritics
+    .replace(/['’‘`ʼ]/g, '');
+}
+
+function tokens(text: string): string[] {
+  return plainLetters(text).split(/[^a-z]+/).filter(Boolean);
+}
+
+/**
+ * The answer's words with their lemmas, and a phrase run together
+ */
+function answerForms(word: string): string[] {
+  const parts = tokens(word);
+  const forms = parts.flatMap((part) => [part, ...lemmaCandidates(part)]);
+  if (parts.length > 1) forms.push(parts.join(''));
+  return [...new Set(forms)].filter((form) => form.length >= 3);
+}
+
+/**
+ * Whether a word of the clue, or one of its lemmas, is a form of the answer
+ * ("running" and "ran" match "run"; "rung", "runway" and "runner" don't)
+ */
+function isAnswerForm(token: string, forms: string[]): boolean {
+  const plain = plainLetters(token);
+  return [plain, ...lemmaCandidates(plain)].some((form) => forms.includes(form));
+}
+
+/**
+ * True if the clue gives the answer away
+ */
+export function leaksAnswer(clue: string, word: string): boolean {
+  const forms = answerForms(word);
+  const clueTokens = tokens(clue);
+  if (clueTokens.some((token) => isAnswerForm(token, forms))) return true;
+
+  // Phrases, also run together ("icecream" for "ice cream")
+  const answerTokens = tokens(word);
+  return answerTokens.length > 1 && clueTokens.join('').includes(answerTokens.join(''));
+}
+
+/**
+ * True if the text has the phrase's words in a row, or run together
+ */
+export function containsPhrase(text: string, phrase: string): boolean {
+  const phraseTokens = tokens(phrase);
+  const textTokens = tokens(text);
+  return (
+    ` ${textTokens.join(' ')} `.includes(` ${phraseTokens.join(' ')} `) ||
+    textTokens.includes(phraseTokens.join(''))
+  );
+}
+
+/**
+ * First clause of a definition, without an appended "Example: ..." and cut
+ * to clue length at a word boundary
+ */
+export function trimDefinition(definition: string): string {
+  let text = definition
+    .split(/\n\s*\n|\s*Example:/)[0]
+    .split(/;\s+/)[0]
+    .trim()
+    .replace(/[.:,]+$/, '');
+
+  if (text.length > MAX_CLUE_LENGTH) {
+    const cut = text.slice(0, MAX_CLUE_LENGTH);
+    text = `${cut.slice(0, Math.max(cut.lastIndexOf(' '), 1))}…`;
+  }
+  return capitalize(text);
+}
+
+/**
+ * The text with the answer (and its inflections) replaced by a mask, a
+ * blank by default
+ */
+export function maskAnswer(text: string, word: string, mask: string = BLANK): string {
+  const parts = word.trim().split(/[\s\-‐–—]+/).filter(Boolean);
+  let masked = text;
+
+  if (parts.length > 1) {
+    const escaped = parts.map((p) => p.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+    masked = masked.replace(new RegExp(escaped.join('[\\s\\-‐–—]+'), 'gi'), mask);
+  }
+
+  const forms = answerForms(word);
+  return masked.replace(/[A-Za-z\u00C0-\u024F'’]+/g, (token) =>
+    isAnswerForm(token, forms) ? mask : token
+  );
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+/**
+ * Every clue variant the definition data allows, none of which leaks the answer
+ */
+export function deriveClues(source: ClueSource): DerivedClue[] {
+  const clues: DerivedClue[] = [];
+  const add = (clue_type: ClueType, clue_text: string | null) => {
+    if (!clue_text || leaksAnswer(clue_text, source.word)) return;
+    if (clues.some((c) => c.clue_text === clue_text)) return;
+    clues.push({ clue_text, clue_type, difficulty_level: CLUE_DIFFICULTY[clue_type] });
+  };
+
+  const definition = source.definition ? trimDefinition(source.definition) : null;
+  add('definition', definition);
+
+  if (definition && source.part_of_speech) {
+    const pos = source.part_of_speech.toLowerCase();
+    add('part_of_speech', `(${POS_ABBREVIATIONS[pos] || pos}) ${definition}`);
+  }
+
+  if (source.usage_example) {
+    const blanked = maskAnswer(source.usage_example.trim(), source.word);
+    add('fill_in_blank', blanked.includes(BLANK) ? `"${blanked}"` : null);
+  }
+
+  const synonym = (source.synonyms || []).find((s) => !leaksAnswer(s, source.word));
+  add('synonym', synonym ? capitalize(synonym) : null);
+
+  const antonym = (source.antonyms || []).find((a) => !leaksAnswer(a, source.word));
+  add('antonym', antonym ? `Opposite of ${antonym}` : null);
+
+  return clues;
+}
+
+/**
+ * The clue closest to a difficulty (1-10); earlier clues win ties
+ */
+export function pickClue(clues: DerivedClue[], difficulty: number): DerivedClue | null {
+  let best: DerivedClue | null = null;
+  for (const clue of clues) {
+    if (!best || Math.abs(clue.difficulty_level - difficulty) < Math.abs(best.difficulty_level - difficulty)) {
+      best = clue;
+    }
+  }
+  return best;
+}
+
+/**
+ * Whether text can be a reverse answer for the word: fits the grid and
+ * neither contains a form of the other
+ */
+function isReverseAnswer(text: string, word: string): boolean {
+  const entry = normalizeEntry(text);
+  if (!entry.ok) return false;
+  if (entry.answer.length < MIN_ANSWER_LENGTH || entry.answer.length > MAX_ANSWER_LENGTH) return false;
+  return !leaksAnswer(text, word) && !leaksAnswer(word, text);
+}
+
+/**
+ * A reverse clue for the word: a common synonym as the answer, or else a
+ * definition short enough to be one ("Brief")
+ */
+export function deriveReverseClue(source: ClueSource): ReverseClue | null {
+  const synonym = (source.synonyms || []).find((s) => isReverseAnswer(s, source.word));
+  if (synonym) {
+    return {
+      answer: synonym.trim(),
+      clue_text: `Another word for "${source.word}"`,
+      clue_type: 'reverse_synonym',
+    };
+  }
+
+  const gloss = source.definition ? trimDefinition(source.definition).toLowerCase() : '';
+  if (gloss && gloss.split(/\s+/).length <= MAX_GLOSS_WORDS && isReverseAnswer(gloss, source.word)) {
+    return {
+      answer: gloss,
+      clue_text: `"${source.word}", in short`,
+      clue_type: 'reverse_gloss',
+    };
+  }
+
+  return null;
+}
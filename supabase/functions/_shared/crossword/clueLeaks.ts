@@ -0,0 +1,86 @@
+/**
+ * Clue Leaks
+ *
+ * Clues built from definitions often contain the answer or another form of
+ * it ("Ran for office" for RUN), or another answer of the same puzzle. findClueLeaks reports them; fixClueLeaks swaps a leaking clue for
+ * a variant that doesn't leak, or else masks the leaked words with "~".
+ */
+
+import { containsPhrase, leaksAnswer, maskAnswer } from '../clues/clueDerivation.ts';
+import { entryText } from './crosswordEntry.ts';
+
+// A clued entry; PlacedWord and the edge function's clues both fit
+export interface LeakCheckWord {
+  number: number;
+  direction: 'across' | 'down';
+  clue: string;
+  answer: string;
+  enumeration?: string;
+  word?: string; // The word the answer stands for, e.g. its lemma
+}
+
+export interface ClueLeak {
+  number: number;
+  direction: 'across' | 'down';
+  leaked: string; // The answer that appears in the clue
+  ownAnswer: boolean; // False when it's the answer of another entry
+}
+
+const MASK = '~';
+
+/**
+ * Spellings of an entry's answer to look for in clues
+ */
+function spellings(word: LeakCheckWord): string[] {
+  const text = entryText(word.answer, word.enumeration);
+  return word.word && word.word.toUpperCase() !== text.toUpperCase() ? [text, word.word] : [text];
+}
+
+/**
+ * Whether a clue names an answer. Its own answer also leaks through a word
+ * of the answer or an inflection of one; another entry's phrase answer only
+ * as the whole phrase ("Fruit ice" doesn't give away ICE CREAM).
+ */
+function mentions(clue: string, spelling: string, own: boolean): boolean {
+  const isPhrase = spelling.trim().split(/[\s\-]+/).length > 1;
+  return own || !isPhrase ? leaksAnswer(clue, spelling) : containsPhrase(clue, spelling);
+}
+
+function leaksOf(clue: string, word: LeakCheckWord, words: LeakCheckWord[]): ClueLeak[] {
+  const leaks: ClueLeak[] = [];
+  for (const other of words) {
+    const leaked = spellings(other).find((spelling) => mentions(clue, spelling, other === word));
+    if (leaked) {
+      leaks.push({ number: word.number, direction: word.direction, leaked, ownAnswer: other === word });
+    }
+  }
+  return leaks;
+}
+
+/**
+ * Every clue that contains its own answer, an inflection of it, or another
+ * answer of the puzzle
+ */
+export function findClueLeaks(words: LeakCheckWord[]): ClueLeak[] {
+  return words.flatMap((word) => leaksOf(word.clue, word, words));
+}
+
+/**
+ * The words with leaking clues fixed: the first variant that doesn't leak
+ * replaces the word, otherwise the leaked words are masked in its clue
+ */
+export function fixClueLeaks<T extends LeakCheckWord>(
+  words: T[],
+  variants: (word: T) => T[] = () => []
+): T[] {
+  return words.map((word) => {
+    const leaks = leaksOf(word.clue, word, words);
+    if (leaks.length === 0) return word;
+
+    const variant = variants(word).find((v) => leaksOf(v.clue, word, words).length === 0);
+    if (variant) return variant;
+
+    const clue = leaks.reduce((text, leak) => maskAnswer(text, leak.leaked, MASK), word.clue);
+    return { ...word, clue };
+  });
+}
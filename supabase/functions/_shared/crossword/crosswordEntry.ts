@@ -0,0 +1,90 @@
+/**
+ * Crossword Entries
+ *
+ * Turns a word or phrase as the user wrote it ("raison d'être", "ad-hoc")
+ * into a grid answer (RAISONDETRE) and its enumeration ("(6,5)"): the
+ * letter count of each word, separated by "," for a space and "-" for a
+ * hyphen. Diacritics become their base letters and apostrophes and periods
+ * are dropped; anything else that isn't a letter can't go in the grid.
+ */
+
+export type NormalizedEntry =
+  | { ok: true; answer: string; enumeration: string }
+  | { ok: false; reason: string };
+
+// Letters that don't decompose into base letter + diacritic
+const SPECIAL_LETTERS: Record<string, string> = {
+  æ: 'ae',
+  œ: 'oe',
+  ß: 'ss',
+  ø: 'o',
+  ł: 'l',
+  đ: 'd',
+  ð: 'd',
+  þ: 'th',
+  ı: 'i',
+};
+
+const SEPARATORS = /[\s\-‐–—]+/;
+
+export function normalizeEntry(text: string): NormalizedEntry {
+  const base = text
+    .trim()
+    .toLowerCase()
+    .replace(/[æœßøłđðþı]/g, (ch) => SPECIAL_LETTERS[ch])
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '') // Combining diacritics
+    .replace(/['’‘`ʼ.]/g, '')
+    .replace(/^[\s\-‐–—]+|[\s\-‐–—]+$/g, '');
+
+  if (!base) {
+    return { ok: false, reason: 'No letters' };
+  }
+
+  const parts = base.split(new RegExp(`(${SEPARATORS.source})`));
+  const lengths: string[] = [];
+
+  for (let i = 0; i < parts.length; i += 2) {
+    const part = parts[i];
+    const invalid = part.match(/[^a-z]/);
+    if (invalid) {
+      return { ok: false, reason: `"${invalid[0]}" can't be written in the grid` };
+    }
+
+    const separator = i > 0 ? (/[\-‐–—]/.test(parts[i - 1]) ? '-' : ',') : '';
+    lengths.push(`${separator}${part.length}`);
+  }
+
+  return {
+    ok: true,
+    answer: parts.filter((_, i) => i % 2 === 0).join('').toUpperCase(),
+    enumeration: `(${lengths.join('')})`,
+  };
+}
+
+/**
+ * Grid answer of a word or phrase, or '' if it can't be normalized
+ */
+export function toAnswer(text: string): string {
+  const entry = normalizeEntry(text);
+  return entry.ok ? entry.answer : '';
+}
+
+/**
+ * A grid answer written out by its enumeration (RAISONDETRE (6,5) →
+ * "RAISON DETRE"); the answer itself if the enumeration doesn't fit it
+ */
+export function entryText(answer: string, enumeration?: string): string {
+  const parts = (enumeration || '').match(/\d+|[,-]/g) || [];
+  let text = '';
+  let position = 0;
+  for (const part of parts) {
+    if (part === ',' || part === '-') {
+      text += part === ',' ? ' ' : '-';
+    } else {
+      text += answer.slice(position, position + Number(part));
+      position += Number(part);
+    }
+  }
+  return position === answer.length ? text : answer;
+}
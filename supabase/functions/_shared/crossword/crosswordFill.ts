@@ -0,0 +1,900 @@
+/**
+ * Fixed-Size Crossword Fill
+ *
+ * Builds a true N×N American-style grid (5×5 mini, 7×7, 15×15, ...) instead of
+ * the free-form layout produced by generateCrossword.
+ *
+ * Algorithm Overview:
+ * 1. Generate a rotationally symmetric pattern of black squares where every
+ *    white cell is part of an across and a down entry of at least 3 letters
+ *    and all white cells are connected
+ * 2. Collect the across/down slots of the pattern
+ * 3. Seed the user's words (or one of their other forms) into matching
+ *    slots, then fill the rest with filler words from the word source (most
+ *    constrained slot first, with backjumping); seeded words that block a
+ *    complete fill are taken out
+ * 4. Repeat with new patterns within the node and time budgets (only the
+ *    node budgets when seeded), keeping the fill that uses the most user words
+ * 5. Number the grid in reading order and return it as a PuzzleGrid
+ */
+
+import { normalizeEntry } from './crosswordEntry.ts';
+import { PlacedWord, PuzzleGrid, RejectedWord, WordInput } from './crosswordGenerator.ts';
+import { createRng, RandomFn, shuffle } from './random.ts';
+
+/**
+ * Anything that can answer letter-pattern queries, e.g. match('?R?A').
+ * '?' matches any single letter. When score is provided, better-scoring
+ * words are tried first; clue supplies the clue of a filler entry.
+ */
+export interface FillWordSource {
+  match(pattern: string): string[];
+  score?(word: string): number | undefined;
+  clue?(word: string): string | undefined;
+}
+
+export interface FillOptions {
+  size: number; // Grid dimension (NxN)
+  source: FillWordSource; // Filler words for slots no user word fits
+  minWordLength?: number; // Shortest allowed entry (default: 3)
+  maxWordLength?: number; // Longest allowed entry (default depends on size)
+  blackSquareRatio?: number; // Target share of black cells (default depends on size)
+  maxPatterns?: number; // Black square patterns to try
+  maxNodes?: number; // Search nodes per pattern
+  maxTotalNodes?: number; // Search nodes across all patterns
+  timeBudgetMs?: number; // Total time budget across all patterns (ignored when seeded)
+  maxCandidatesPerSlot?: number; // Words tried per slot before backtracking
+  fillerClue?: (word: string) => string | undefined; // Clue for a filler entry (default: source.clue)
+  seed?: number | string; // Same seed + same words = same grid
+}
+
+export interface FillClueOptions extends FillOptions {
+  // Clues for filler answers; answers missing from the result are left out.
+  // Rejects when no clues can be looked up right now (e.g. offline).
+  lookupClues: (answers: string[]) => Promise<Map<string, string>>;
+  maxClueRounds?: number; // Fills tried before giving up on clueless fillers
+}
+
+// How many candidates per slot are scored with one-step lookahead
+const LOOKAHEAD_FACTOR = 2;
+
+// Invalid black square patterns allowed per pattern attempt
+const PATTERN_RETRY_FACTOR = 10;
+
+// Score added to filler words whose clue lookup succeeded
+const FOUND_CLUE_BONUS = 100;
+
+interface Slot {
+  row: number;
+  col: number;
+  direction: 'across' | 'down';
+  cells: Array<[number, number]>;
+}
+
+interface FillResult {
+  grid: (string | null)[][];
+  assignments: Map<Slot, string>;
+  userWordsPlaced: number;
+}
+
+// User words by grid answer
+interface UserWords {
+  clues: Map<string, string>;
+  forms: Map<string, string[]>; // Answers the word may be placed as, the word itself first
+  entryOf: Map<string, string>; // User word each form stands for
+}
+
+/**
+ * Simple FillWordSource backed by an in-memory word list, with optional
+ * clues by word
+ */
+export function createWordListSource(words: string[], clues?: Map<string, string>): FillWordSource {
+  const byLength = new Map<number, string[]>();
+  const clueByWord = new Map<string, string>();
+  for (const [word, clue] of clues || []) {
+    clueByWord.set(word.toUpperCase().trim(), clue);
+  }
+  for (const raw of words) {
+    const word = raw.toUpperCase().trim();
+    if (!/^[A-Z]+$/.test(word)) continue;
+    if (!byLength.has(word.length)) {
+      byLength.set(word.length, []);
+    }
+    byLength.get(word.length)!.push(word);
+  }
+
+  return {
+    match(pattern: string): string[] {
+      const candidates = byLength.get(pattern.length) || [];
+      return candidates.filter((word) => matchesPattern(word, pattern));
+    },
+    clue(word: string): string | undefined {
+      return clueByWord.get(word);
+    },
+  };
+}
+
+/**
+ * Generate a fixed-size, rotationally symmetric crossword filled with
+ * the user's words and filler words. Only filler words with a clue are
+ * used, so fillerClue or source.clue is required.
+ */
+export function generateFilledCrossword(
+  wordInputs: WordInput[],
+  options: FillOptions
+): PuzzleGrid | null {
+  return fillCrossword(wordInputs, options);
+}
+
+/**
+ * generateFilledCrossword, or with a previous grid: refill that grid's
+ * pattern, keeping its entries where they still fit
+ */
+function fillCrossword(
+  wordInputs: WordInput[],
+  options: FillOptions,
+  previous?: PuzzleGrid
+): PuzzleGrid | null {
+  const {
+    size,
+    source,
+    minWordLength = 3,
+    // Stacks of long filler entries are what makes big grids hard to fill
+    maxWordLength = size <= 7 ? size : 7,
+    blackSquareRatio = size <= 5 ? 0.12 : 0.2,
+    maxPatterns = 50,
+    maxNodes = 1500,
+    maxTotalNodes = 40000,
+    timeBudgetMs = 3000,
+    maxCandidatesPerSlot = 30,
+    fillerClue = source.clue?.bind(source),
+    seed,
+  } = options;
+
+  // A seeded run must not depend on device speed, so only the node budgets apply
+  const random: RandomFn = seed !== undefined ? createRng(seed) : Math.random;
+  const deadline = seed !== undefined ? Infinity : Date.now() + timeBudgetMs;
+
+  if (size < minWordLength) {
+    console.error(`[CrosswordFill] Grid size ${size} is smaller than minimum word length`);
+    return null;
+  }
+
+  if (!fillerClue) {
+    console.error('[CrosswordFill] No clues for filler words: pass fillerClue or a source with clue()');
+    return null;
+  }
+
+  // Normalize user words; only words (or other forms) that can fit the grid
+  // are usable. A word's own answer goes before other words' forms.
+  const userWords: UserWords = { clues: new Map(), forms: new Map(), entryOf: new Map() };
+  const enumerations = new Map<string, string>();
+  const inputByAnswer = new Map<string, string>();
+  const rejectedWords: RejectedWord[] = [];
+  const accepted: Array<{ input: WordInput; answer: string; enumeration: string }> = [];
+  for (const input of wordInputs || []) {
+    const entry = normalizeEntry(input.word);
+    if ('reason' in entry) {
+      rejectedWords.push({ word: input.word, reason: entry.reason });
+    } else if (inputByAnswer.has(entry.answer)) {
+      rejectedWords.push({ word: input.word, reason: `Duplicate of "${inputByAnswer.get(entry.answer)}"` });
+    } else {
+      inputByAnswer.set(entry.answer, input.word);
+      accepted.push({ input, answer: entry.answer, enumeration: entry.enumeration });
+    }
+  }
+
+  const fitsGrid = (answer: string) => answer.length >= minWordLength && answer.length <= maxWordLength;
+  for (const { input, answer, enumeration } of accepted) {
+    const forms = new Map<string, string>();
+    if (fitsGrid(answer)) forms.set(answer, enumeration);
+    for (const other of input.forms || []) {
+      const form = normalizeEntry(other);
+      if (!form.ok || !fitsGrid(form.answer) || inputByAnswer.has(form.answer) || userWords.entryOf.has(form.answer)) {
+        continue;
+      }
+      if (!forms.has(form.answer)) forms.set(form.answer, form.enumeration);
+    }
+
+    if (forms.size === 0) {
+      rejectedWords.push({
+        word: input.word,
+        reason: `Needs ${minWordLength}-${maxWordLength} letters for a ${size}x${size} grid`,
+      });
+      continue;
+    }
+
+    userWords.clues.set(answer, input.clue.trim());
+    userWords.forms.set(answer, Array.from(forms.keys()));
+    for (const [form, formEnumeration] of forms) {
+      userWords.entryOf.set(form, answer);
+      enumerations.set(form, formEnumeration);
+    }
+  }
+
+  console.log(`[CrosswordFill] Filling ${size}x${size} grid with ${userWords.clues.size} user words`);
+
+  let best: FillResult | null = null;
+
+  // Ranked filler words by pattern, shared by all patterns tried
+  const matchCache = new Map<string, string[]>();
+  const hasClue = (word: string) => fillerClue(word) !== undefined;
+
+  if (previous) {
+    const pattern = previous.grid.map((row) => row.map((cell) => cell !== null));
+    const kept = new Map(previous.words.map((w) => [slotKey(w.startRow, w.startCol, w.direction), w.answer]));
+    const { result } = fillSlots(pattern, findSlots(pattern, minWordLength), userWords, source, {
+      hasClue,
+      kept,
+      maxNodes: maxTotalNodes,
+      deadline,
+      maxCandidatesPerSlot,
+      random,
+      matchCache,
+    });
+    best = result;
+  }
+
+  // Only usable patterns count as attempts (none when the previous grid was refilled)
+  const refilled = best !== null;
+  let attempt = 0;
+  let failedPatterns = 0;
+  let totalNodes = 0;
+  while (!refilled && attempt < maxPatterns && totalNodes < maxTotalNodes && Date.now() < deadline) {
+    const pattern = generateBlockPattern(
+      size,
+      blackSquareRatio,
+      minWordLength,
+      maxWordLength,
+      random
+    );
+    if (!pattern) {
+      // Bound the loop by pattern count too, so seeded runs don't depend on the deadline
+      if (++failedPatterns > maxPatterns * PATTERN_RETRY_FACTOR) break;
+      continue;
+    }
+    attempt++;
+
+    const slots = findSlots(pattern, minWordLength);
+    const { result, nodes } = fillSlots(pattern, slots, userWords, source, {
+      hasClue,
+      maxNodes: Math.min(maxNodes, maxTotalNodes - totalNodes),
+      deadline,
+      maxCandidatesPerSlot,
+      random,
+      matchCache,
+    });
+    totalNodes += nodes;
+
+    if (result && (!best || result.userWordsPlaced > best.userWordsPlaced)) {
+      best = result;
+      console.log(
+        `[CrosswordFill] Pattern ${attempt}: filled with ${result.userWordsPlaced} user words`
+      );
+      if (best.userWordsPlaced === userWords.clues.size) break;
+    }
+  }
+
+  if (!best) {
+    console.error('[CrosswordFill] Could not fill grid within budget');
+    return null;
+  }
+
+  const words = numberSlots(best.assignments).map(({ slot, number }) => {
+    const answer = best!.assignments.get(slot)!;
+    const entry = userWords.entryOf.get(answer);
+    const isUserWord = entry !== undefined;
+    const placed: PlacedWord = {
+      number,
+      word: entry ?? answer,
+      clue: isUserWord ? userWords.clues.get(entry)! : fillerClue(answer)!,
+      answer,
+      enumeration: enumerations.get(answer) || `(${answer.length})`,
+      startRow: slot.row,
+      startCol: slot.col,
+      direction: slot.direction,
+      isUserWord,
+    };
+    return placed;
+  });
+
+  return {
+    size,
+    words,
+    grid: best.grid,
+    unplacedWords: Array.from(userWords.clues.keys()).filter(
+      (word) => !words.some((w) => w.isUserWord && w.word === word)
+    ),
+    rejectedWords,
+  };
+}
+
+/**
+ * generateFilledCrossword for filler words whose clues have to be looked up
+ * (e.g. derived from their definitions). After each fill the clues of its
+ * filler answers are looked up, and answers without one are left out of
+ * the next fill, until every entry has a clue.
+ */
+export async function generateFilledCrosswordWithClues(
+  wordInputs: WordInput[],
+  options: FillClueOptions
+): Promise<PuzzleGrid | null> {
+  const { lookupClues, maxClueRounds = 6, ...fillOptions } = options;
+  const { source } = fillOptions;
+  const knownClue = fillOptions.fillerClue || source.clue?.bind(source);
+  const clues = new Map<string, string>();
+  const clueless = new Set<string>();
+
+  // Words whose clues were found are tried first, so later fills mostly
+  // reuse them instead of bringing in new words to look up
+  const preferClued: FillWordSource = {
+    match: (pattern) => source.match(pattern),
+    score: (word) => (source.score?.(word) ?? 0) + (clues.has(word) ? FOUND_CLUE_BONUS : 0),
+  };
+
+  // Later rounds refill the previous grid without the answers left out;
+  // the entries crossing them are taken out as the fill needs
+  let previous: PuzzleGrid | undefined;
+  for (let round = 1; round <= maxClueRounds; round++) {
+    // Answers not looked up yet get an empty clue until the lookup below
+    const puzzle = fillCrossword(
+      wordInputs,
+      {
+        ...fillOptions,
+        source: preferClued,
+        fillerClue: (word) => knownClue?.(word) ?? clues.get(word) ?? (clueless.has(word) ? undefined : ''),
+      },
+      previous
+    );
+    if (!puzzle) return null;
+
+    const pending = puzzle.words.filter((w) => !w.isUserWord && !w.clue).map((w) => w.answer);
+    let found = new Map<string, string>();
+    try {
+      if (pending.length > 0) found = await lookupClues(pending);
+    } catch (error) {
+      // Every later round would need lookups too
+      console.error('[CrosswordFill] Could not look up filler clues:', error);
+      return null;
+    }
+    for (const answer of pending) {
+      const clue = found.get(answer)?.trim();
+      if (clue) {
+        clues.set(answer, clue);
+      } else {
+        clueless.add(answer);
+      }
+    }
+
+    const missing = pending.filter((answer) => !clues.has(answer));
+    if (missing.length === 0) {
+      return {
+        ...puzzle,
+        words: puzzle.words.map((w) => (w.isUserWord || w.clue ? w : { ...w, clue: clues.get(w.answer)! })),
+      };
+    }
+    console.log(`[CrosswordFill] Round ${round}: no clue for ${missing.join(', ')}, filling again`);
+    previous = { ...puzzle, words: puzzle.words.filter((w) => !clueless.has(w.answer)) };
+  }
+
+  console.error('[CrosswordFill] Could not find clues for every filler word');
+  return null;
+}
+
+/**
+ * Generate a rotationally symmetric black square pattern.
+ * true = white cell, false = black cell.
+ */
+function generateBlockPattern(
+  size: number,
+  blackSquareRatio: number,
+  minWordLength: number,
+  maxWordLength: number,
+  random: RandomFn
+): boolean[][] | null {
+  const pattern: boolean[][] = Array(size)
+    .fill(null)
+    .map(() => Array(size).fill(true));
+
+  const target = Math.floor(size * size * blackSquareRatio);
+  let blackCount = 0;
+  let tries = size * size * 4;
+
+  let longCells = cellsInLongRuns(pattern, maxWordLength, minWordLength);
+  while (tries-- > 0) {
+    // Keep adding blocks until the target density is reached, then only to
+    // break up entries that are still longer than allowed
+    if (blackCount >= target && longCells.length === 0) break;
+
+    const [r, c] =
+      longCells.length > 0
+        ? longCells[Math.floor(random() * longCells.length)]
+        : [Math.floor(random() * size), Math.floor(random() * size)];
+    if (!pattern[r][c]) continue;
+
+    // A block next to a gap shorter than minWordLength fills the gap too
+    // (e.g. a block one cell from the edge becomes a two-cell bar)
+    const cells = symmetricCells(blockWithGaps(pattern, r, c, minWordLength), size);
+    for (const [br, bc] of cells) pattern[br][bc] = false;
+
+    // Only the changed rows and columns need their runs checked
+    const rows = cells.map(([br]) => br);
+    const cols = cells.map(([, bc]) => bc);
+    if (linesValid(pattern, rows, cols, minWordLength) && isConnected(pattern)) {
+      blackCount += cells.length;
+      longCells = cellsInLongRuns(pattern, maxWordLength, minWordLength);
+    } else {
+      // Revert: these black squares would leave a short or unchecked entry
+      for (const [br, bc] of cells) pattern[br][bc] = true;
+    }
+  }
+
+  const valid =
+    isValidPattern(pattern, minWordLength) && cellsInLongRuns(pattern, maxWordLength, minWordLength).length === 0;
+  return valid ? pattern : null;
+}
+
+/**
+ * A block at (row, col) plus the white cells between it and the nearest
+ * block or edge in each direction where fewer than minLength of them are left
+ */
+function blockWithGaps(pattern: boolean[][], row: number, col: number, minLength: number): Array<[number, number]> {
+  const size = pattern.length;
+  const cells: Array<[number, number]> = [[row, col]];
+
+  for (const [dr, dc] of [[-1, 0], [1, 0], [0, -1], [0, 1]]) {
+    const gap: Array<[number, number]> = [];
+    let r = row + dr;
+    let c = col + dc;
+    while (r >= 0 && r < size && c >= 0 && c < size && pattern[r][c]) {
+      gap.push([r, c]);
+      r += dr;
+      c += dc;
+    }
+    if (gap.length < minLength) cells.push(...gap);
+  }
+
+  return cells;
+}
+
+/**
+ * The cells together with their rotationally symmetric counterparts
+ */
+function symmetricCells(cells: Array<[number, number]>, size: number): Array<[number, number]> {
+  const unique = new Map<number, [number, number]>();
+  for (const [r, c] of cells) {
+    unique.set(r * size + c, [r, c]);
+    unique.set((size - 1 - r) * size + (size - 1 - c), [size - 1 - r, size - 1 - c]);
+  }
+  return Array.from(unique.values());
+}
+
+/**
+ * White cells in across or down runs longer than maxLength, limited to the
+ * cells where a block would leave at least minLength letters on each side
+ */
+function cellsInLongRuns(
+  pattern: boolean[][],
+  maxLength: number,
+  minLength: number
+): Array<[number, number]> {
+  const size = pattern.length;
+  const cells: Array<[number, number]> = [];
+
+  for (const direction of ['across', 'down'] as const) {
+    for (let i = 0; i < size; i++) {
+      let run: Array<[number, number]> = [];
+      for (let j = 0; j <= size; j++) {
+        const r = direction === 'across' ? i : j;
+        const c = direction === 'across' ? j : i;
+        if (j < size && pattern[r][c]) {
+          run.push([r, c]);
+        } else {
+          if (run.length > maxLength) {
+            cells.push(...run.slice(minLength, run.length - minLength));
+          }
+          run = [];
+        }
+      }
+    }
+  }
+
+  return cells;
+}
+
+/**
+ * Every run of white cells must be 0 or >= minWordLength long in both
+ * directions (so every white cell is checked), and all white cells connected
+ */
+function isValidPattern(pattern: boolean[][], minWordLength: number): boolean {
+  const all = pattern.map((_, i) => i);
+  return linesValid(pattern, all, all, minWordLength) && isConnected(pattern);
+}
+
+/**
+ * The given rows and columns have no white runs shorter than minWordLength
+ */
+function linesValid(pattern: boolean[][], rows: number[], cols: number[], minWordLength: number): boolean {
+  const size = pattern.length;
+  const runsValid = (isWhite: (j: number) => boolean) => {
+    let run = 0;
+    for (let j = 0; j <= size; j++) {
+      if (j < size && isWhite(j)) {
+        run++;
+      } else {
+        if (run > 0 && run < minWordLength) return false;
+        run = 0;
+      }
+    }
+    return true;
+  };
+
+  return (
+    rows.every((r) => runsValid((j) => pattern[r][j])) &&
+    cols.every((c) => runsValid((j) => pattern[j][c]))
+  );
+}
+
+/**
+ * All white cells are connected (flood fill from the first white cell)
+ */
+function isConnected(pattern: boolean[][]): boolean {
+  const size = pattern.length;
+  const visited = new Uint8Array(size * size);
+  const stack: number[] = [];
+  let whiteCount = 0;
+  for (let r = 0; r < size; r++) {
+    for (let c = 0; c < size; c++) {
+      if (!pattern[r][c]) continue;
+      whiteCount++;
+      if (stack.length === 0 && whiteCount === 1) {
+        visited[r * size + c] = 1;
+        stack.push(r * size + c);
+      }
+    }
+  }
+  if (whiteCount === 0) return false;
+
+  let reached = 0;
+  while (stack.length > 0) {
+    const cell = stack.pop()!;
+    reached++;
+    const r = Math.floor(cell / size);
+    const c = cell % size;
+    const neighbors = [
+      r > 0 ? cell - size : -1,
+      r < size - 1 ? cell + size : -1,
+      c > 0 ? cell - 1 : -1,
+      c < size - 1 ? cell + 1 : -1,
+    ];
+    for (const next of neighbors) {
+      if (next < 0 || visited[next] || !pattern[Math.floor(next / size)][next % size]) continue;
+      visited[next] = 1;
+      stack.push(next);
+    }
+  }
+
+  return reached === whiteCount;
+}
+
+/**
+ * Collect across and down slots (maximal runs of white cells)
+ */
+function findSlots(pattern: boolean[][], minWordLength: number): Slot[] {
+  const size = pattern.length;
+  const slots: Slot[] = [];
+
+  for (const direction of ['across', 'down'] as const) {
+    for (let i = 0; i < size; i++) {
+      let cells: Array<[number, number]> = [];
+      for (let j = 0; j <= size; j++) {
+        const r = direction === 'across' ? i : j;
+        const c = direction === 'across' ? j : i;
+        if (j < size && pattern[r][c]) {
+          cells.push([r, c]);
+        } else {
+          if (cells.length >= minWordLength) {
+            slots.push({ row: cells[0][0], col: cells[0][1], direction, cells });
+          }
+          cells = [];
+        }
+      }
+    }
+  }
+
+  return slots;
+}
+
+/**
+ * Backtracking fill of all slots. Kept entries go back into their slots and
+ * user words are seeded into matching slots first, then the remaining slots
+ * are filled from the word source; seeded words that make a complete fill
+ * impossible are taken out again.
+ * The result is null if no complete fill was found within the node budget.
+ */
+function fillSlots(
+  pattern: boolean[][],
+  slots: Slot[],
+  userWords: UserWords,
+  source: FillWordSource,
+  options: {
+    hasClue: (word: string) => boolean;
+    kept?: Map<string, string>; // Entries to put back, by slotKey
+    maxNodes: number;
+    deadline: number;
+    maxCandidatesPerSlot: number;
+    random: RandomFn;
+    matchCache: Map<string, string[]>;
+  }
+): { result: FillResult | null; nodes: number } {
+  const { hasClue, kept, maxNodes, deadline, maxCandidatesPerSlot, random, matchCache } = options;
+  const grid: (string | null)[][] = pattern.map((row) => row.map(() => null));
+  const assignments = new Map<Slot, string>();
+  const filledCells = new Map<Slot, Array<[number, number]>>();
+  const used = new Set<string>();
+  let nodes = 0;
+
+  const slotPattern = (slot: Slot) =>
+    slot.cells.map(([r, c]) => grid[r][c] || '?').join('');
+
+  // The same pattern comes up many times during the search; order once
+  // per generation, with some jitter so repeated generations produce different grids
+  const fillersFor = (p: string): string[] => {
+    if (!matchCache.has(p)) {
+      const fillers = source.match(p).filter((word) => !userWords.entryOf.has(word) && hasClue(word));
+      matchCache.set(p, rankFillers(fillers, source, random));
+    }
+    return matchCache.get(p)!;
+  };
+
+  const assign = (slot: Slot, word: string) => {
+    const filled: Array<[number, number]> = [];
+    slot.cells.forEach(([r, c], i) => {
+      if (grid[r][c] === null) {
+        grid[r][c] = word[i];
+        filled.push([r, c]);
+      }
+    });
+    assignments.set(slot, word);
+    filledCells.set(slot, filled);
+    used.add(word);
+  };
+
+  const unassign = (slot: Slot) => {
+    for (const [r, c] of filledCells.get(slot) || []) {
+      grid[r][c] = null;
+    }
+    used.delete(assignments.get(slot)!);
+    assignments.delete(slot);
+    filledCells.delete(slot);
+  };
+
+  // Every open slot still has at least one word that fits
+  const isViable = () =>
+    slots.every((slot) => assignments.has(slot) || fillersFor(slotPattern(slot)).length > 0);
+
+  // Open slots crossing each cell, with the cell's index in that slot
+  const slotsAtCell = new Map<string, Array<{ slot: Slot; index: number }>>();
+  for (const slot of slots) {
+    slot.cells.forEach(([r, c], index) => {
+      const key = `${r},${c}`;
+      if (!slotsAtCell.has(key)) {
+        slotsAtCell.set(key, []);
+      }
+      slotsAtCell.get(key)!.push({ slot, index });
+    });
+  }
+
+  // Fewest candidates left in any open crossing slot if word goes into slot
+  const crossingOptions = (slot: Slot, word: string): number => {
+    let fewest = Infinity;
+    slot.cells.forEach(([r, c], i) => {
+      if (grid[r][c] !== null) return;
+      for (const crossing of slotsAtCell.get(`${r},${c}`)!) {
+        if (crossing.slot === slot || assignments.has(crossing.slot)) continue;
+        const p = slotPattern(crossing.slot);
+        const withLetter = p.slice(0, crossing.index) + word[i] + p.slice(crossing.index + 1);
+        fewest = Math.min(fewest, fillersFor(withLetter).length);
+      }
+    });
+    return fewest;
+  };
+
+  const outOfBudget = () => nodes > maxNodes || Date.now() > deadline;
+
+  // Entries kept from a previous fill go back into their own slots
+  const seeded: Slot[] = [];
+  for (const slot of slots) {
+    const word = kept?.get(slotKey(slot.row, slot.col, slot.direction));
+    if (word && !used.has(word) && matchesPattern(word, slotPattern(slot))) {
+      assign(slot, word);
+      seeded.push(slot);
+    }
+  }
+
+  // Seed user words (longest first) into random matching slots, trying
+  // the word itself before its other forms
+  const seedWords = shuffle(Array.from(userWords.forms.keys()), random).sort(
+    (a, b) => b.length - a.length
+  );
+  for (const word of seedWords) {
+    const forms = userWords.forms.get(word)!;
+    if (forms.some((form) => used.has(form))) continue;
+    const open = forms.flatMap((form) =>
+      shuffle(
+        slots.filter(
+          (slot) =>
+            !assignments.has(slot) &&
+            slot.cells.length === form.length &&
+            matchesPattern(form, slotPattern(slot))
+        ),
+        random
+      ).map((slot) => ({ slot, form }))
+    );
+    for (const { slot, form } of open) {
+      assign(slot, form);
+      if (isViable()) {
+        seeded.push(slot);
+        break;
+      }
+      unassign(slot);
+    }
+  }
+
+  // Slots sharing a cell with each slot
+  const crossingsOf = new Map<Slot, Set<Slot>>();
+  for (const slot of slots) {
+    const crossings = new Set<Slot>();
+    for (const [r, c] of slot.cells) {
+      for (const crossing of slotsAtCell.get(`${r},${c}`)!) {
+        if (crossing.slot !== slot) crossings.add(crossing.slot);
+      }
+    }
+    crossingsOf.set(slot, crossings);
+  }
+
+  // Filled slots that constrain a slot's options: its crossings, and theirs
+  // (the lookahead drops words because of those)
+  const constraintsOn = (slot: Slot): Set<Slot> => {
+    const culprits = new Set<Slot>();
+    for (const crossing of crossingsOf.get(slot)!) {
+      if (assignments.has(crossing)) culprits.add(crossing);
+      for (const next of crossingsOf.get(crossing)!) {
+        if (next !== slot && assignments.has(next)) culprits.add(next);
+      }
+    }
+    return culprits;
+  };
+
+  // Backtracking with conflict-directed backjumping: a dead end reports the
+  // filled slots that caused it, and the search undoes slots that didn't
+  // contribute without trying their other words. Returns true when every
+  // slot is filled, else the conflicting slots.
+  const search = (): true | Set<Slot> => {
+    nodes++;
+    if (outOfBudget()) return new Set<Slot>();
+
+    // Pick the most constrained open slot
+    let bestSlot: Slot | null = null;
+    let bestCandidates: string[] = [];
+    for (const slot of slots) {
+      if (assignments.has(slot)) continue;
+      const candidates = fillersFor(slotPattern(slot));
+      if (candidates.length === 0) return constraintsOn(slot);
+      // Counts include words already used elsewhere; close enough for ordering
+      if (!bestSlot || candidates.length < bestCandidates.length) {
+        bestSlot = slot;
+        bestCandidates = candidates;
+      }
+    }
+
+    if (!bestSlot) return true; // Every slot filled
+
+    // Look one step ahead: try first the words that leave the crossing
+    // slots the most options, and drop words that leave any slot with none
+    const slot = bestSlot;
+    const ranked = bestCandidates
+      .filter((word) => !used.has(word))
+      .slice(0, maxCandidatesPerSlot * LOOKAHEAD_FACTOR)
+      .map((word) => ({ word, options: crossingOptions(slot, word) }))
+      .filter((c) => c.options > 0)
+      .sort((a, b) => b.options - a.options)
+      .slice(0, maxCandidatesPerSlot);
+
+    const conflicts = constraintsOn(slot);
+    for (const { word } of ranked) {
+      assign(slot, word);
+      const result = search();
+      if (result === true) return true;
+      unassign(slot);
+
+      if (outOfBudget()) return result;
+
+      // This slot's word played no part in the dead end: jump back further
+      if (!result.has(slot)) return result;
+      result.forEach((culprit) => {
+        if (culprit !== slot) conflicts.add(culprit);
+      });
+    }
+
+    return conflicts;
+  };
+
+  // When the user words leave no complete fill, take out the latest seeded
+  // word involved in the dead end and search again
+  let outcome = search();
+  while (outcome !== true && seeded.length > 0 && !outOfBudget()) {
+    const conflicts = outcome;
+    const culprit = [...seeded].reverse().find((slot) => conflicts.has(slot)) || seeded[seeded.length - 1];
+    unassign(culprit);
+    seeded.splice(seeded.indexOf(culprit), 1);
+    outcome = search();
+  }
+  if (outcome !== true) return { result: null, nodes };
+
+  let userWordsPlaced = 0;
+  for (const word of assignments.values()) {
+    if (userWords.entryOf.has(word)) userWordsPlaced++;
+  }
+
+  return {
+    result: {
+      grid: grid.map((row, r) => row.map((cell, c) => (pattern[r][c] ? cell : null))),
+      assignments,
+      userWordsPlaced,
+    },
+    nodes,
+  };
+}
+
+/**
+ * Standard crossword numbering: a cell gets the next number if it starts
+ * an across or down entry, scanning top-to-bottom, left-to-right
+ */
+function numberSlots(
+  assignments: Map<Slot, string>
+): Array<{ slot: Slot; number: number }> {
+  const slots = Array.from(assignments.keys()).sort((a, b) => {
+    if (a.row !== b.row) return a.row - b.row;
+    if (a.col !== b.col) return a.col - b.col;
+    return a.direction === 'across' ? -1 : 1;
+  });
+
+  const numbers = new Map<string, number>();
+  let next = 1;
+
+  return slots.map((slot) => {
+    const key = `${slot.row},${slot.col}`;
+    if (!numbers.has(key)) {
+      numbers.set(key, next++);
+    }
+    return { slot, number: numbers.get(key)! };
+  });
+}
+
+function slotKey(row: number, col: number, direction: 'across' | 'down'): string {
+  return `${row},${col},${direction}`;
+}
+
+function matchesPattern(word: string, pattern: string): boolean {
+  if (word.length !== pattern.length) return false;
+  for (let i = 0; i < pattern.length; i++) {
+    if (pattern[i] !== '?' && pattern[i] !== word[i]) return false;
+  }
+  return true;
+}
+
+/**
+ * Order filler candidates by score plus random jitter (random order when the
+ * source has no scores)
+ */
+function rankFillers(words: string[], source: FillWordSource, random: RandomFn): string[] {
+  const FILLER_SCORE_JITTER = 20;
+  return words
+    .map((word) => ({
+      word,
+      rank: (source.score?.(word) ?? 0) + random() * FILLER_SCORE_JITTER,
+    }))
+    .sort((a, b) => b.rank - a.rank)
+    .map((entry) => entry.word);
+}
@@ -0,0 +1,874 @@
+/**
+ * Crossword Puzzle Generation Algorithm
+ * 
+ * This algorithm takes a list of words with their definitions and generates
+ * a valid crossword puzzle grid where words intersect at common letters.
+ * 
+ * Algorithm Overview:
+ * 1. Sort words by length (longest first) for better grid utilization
+ * 2. Place first word horizontally in center as anchor
+ * 3. For each remaining word, find best intersection point with placed words
+ * 4. Score potential placements based on intersections and grid density
+ * 5. Compact the grid to remove empty rows/columns
+ * 6. Assign clue numbers in reading order (left-to-right, top-to-bottom)
+ *
+ * In 'backtrack' mode step 3-4 becomes a depth-first search that can undo
+ * earlier placements, bounded by a node and time budget (only the node
+ * budget when seeded), and keeps the layout that places the most words
+ * (all "must include" words first).
+ *
+ * A word can come with other forms (e.g. "OBFUSCATED" for "OBFUSCATE");
+ * every form is tried in step 3 and the best-scoring one is placed.
+ *
+ * Words may be phrases or carry diacritics ("raison d'être"); they are
+ * normalized to grid answers with an enumeration ("(6,5)"), and entries
+ * that can't be, or that repeat an earlier word's answer, are reported in
+ * rejectedWords.
+ */
+
+import { normalizeEntry } from './crosswordEntry.ts';
+import { createRng, RandomFn, shuffle } from './random.ts';
+
+export interface WordInput {
+  word: string;
+  clue: string;
+  forms?: string[]; // Other forms that may be the answer instead, e.g. the inflected form it was read as
+}
+
+export interface PlacedWord {
+  number: number;
+  word: string; // The input word as a grid answer
+  clue: string;
+  answer: string; // The form placed in the grid (word, or one of its forms)
+  enumeration: string; // Word lengths of the answer as written, e.g. "(6,5)" or "(2-3)"
+  startRow: number;
+  startCol: number;
+  direction: 'across' | 'down';
+  isUserWord?: boolean; // false for filler entries added to complete a grid
+}
+
+export interface PuzzleGrid {
+  size: number;
+  words: PlacedWord[];
+  grid: (string | null)[][];
+  unplacedWords?: string[]; // Input words that could not be fitted into the grid
+  rejectedWords?: RejectedWord[]; // Input words that can't be grid answers at all
+}
+
+export interface RejectedWord {
+  word: string; // As given
+  reason: string;
+}
+
+export interface CrosswordOptions {
+  maxAttempts?: number; // Maximum placement attempts per word
+  minIntersections?: number; // Minimum intersections to consider placement valid
+  gridPadding?: number; // Extra space around the grid
+  mode?: 'greedy' | 'backtrack'; // Placement strategy (default: greedy)
+  maxNodes?: number; // Backtracking: maximum search nodes to explore
+  timeBudgetMs?: number; // Backtracking: maximum search time in milliseconds (ignored when seeded)
+  maxCandidatesPerWord?: number; // Backtracking: best-scored placements tried per word
+  mustInclude?: string[]; // Words that must appear in the puzzle
+  onMissingRequired?: 'fail' | 'retry'; // What to do when a must-include word cannot be placed
+  seed?: number | string; // Randomizes word order and tie-breaking reproducibly
+}
+
+interface WordPlacement {
+  word: string; // Form placed in the grid
+  entry: string; // Input word it stands for
+  enumeration: string;
+  clue: string;
+  row: number;
+  col: number;
+  direction: 'across' | 'down';
+  score: number; // Higher score = better placement
+}
+
+interface AnswerForm {
+  answer: string;
+  enumeration: string;
+}
+
+interface NormalizedWord {
+  word: string;
+  clue: string;
+  forms: AnswerForm[]; // word first, then valid alternatives
+  required: boolean;
+}
+
+/**
+ * Main function to generate a crossword puzzle from a list of words
+ */
+export function generateCrossword(
+  wordInputs: WordInput[],
+  options: CrosswordOptions = {}
+): PuzzleGrid | null {
+  const {
+    maxAttempts = 50,
+    minIntersections = 1,
+    gridPadding = 2,
+    mode = 'greedy',
+    maxNodes = 20000,
+    timeBudgetMs = 1500,
+    maxCandidatesPerWord = 6,
+    mustInclude = [],
+    onMissingRequired = 'retry',
+    seed,
+  } = options;
+
+  // Without a seed the layout depends only on the input order
+  const random: RandomFn | null = seed !== undefined ? createRng(seed) : null;
+
+  // Validate inputs
+  if (!wordInputs || wordInputs.length === 0) {
+    console.error('[Crossword] No words provided');
+    return null;
+  }
+
+  const required = new Set(mustInclude.map(answerOf));
+
+  // Normalize and validate words. Words that differ only in case, accents
+  // or spacing ("Ocean", "ocean") have the same answer and go in once.
+  const normalizedWords: NormalizedWord[] = [];
+  const rejectedWords: RejectedWord[] = [];
+  const inputByAnswer = new Map<string, string>();
+  for (const input of wordInputs) {
+    const form = normalizeForm(input.word);
+    if ('reason' in form) {
+      rejectedWords.push({ word: input.word, reason: form.reason });
+      continue;
+    }
+
+    const original = inputByAnswer.get(form.answer);
+    if (original !== undefined) {
+      rejectedWords.push({ word: input.word, reason: `Duplicate of "${original}"` });
+      continue;
+    }
+    inputByAnswer.set(form.answer, input.word);
+
+    // Other forms that can't be answers are simply not offered
+    const forms = [form];
+    for (const other of input.forms || []) {
+      const alternative = normalizeForm(other);
+      if ('answer' in alternative && !forms.some((f) => f.answer === alternative.answer)) {
+        forms.push(alternative);
+      }
+    }
+
+    normalizedWords.push({
+      word: form.answer,
+      clue: input.clue.trim(),
+      forms,
+      required: required.has(form.answer),
+    });
+  }
+
+  if (rejectedWords.length > 0) {
+    console.warn(
+      `[Crossword] Skipped words: ${rejectedWords.map((r) => `${r.word} (${r.reason})`).join(', ')}`
+    );
+  }
+
+  if (normalizedWords.length === 0) {
+    console.error('[Crossword] No valid words after normalization');
+    return null;
+  }
+
+  const invalidRequired = Array.from(required).filter(
+    (word) => !normalizedWords.some((w) => w.word === word)
+  );
+  if (invalidRequired.length > 0) {
+    console.error(`[Crossword] Required words are missing or invalid: ${invalidRequired.join(', ')}`);
+    return null;
+  }
+
+  // Sort words by length (longest first) for better grid utilization
+  // Longer words placed first create better anchor points for shorter words.
+  // Required words go ahead of everything else so they are never crowded out.
+  const orderedWords = random ? shuffle(normalizedWords, random) : normalizedWords;
+  const sortedWords = [...orderedWords].sort((a, b) => {
+    if (a.required !== b.required) return a.required ? -1 : 1;
+    return b.word.length - a.word.length;
+  });
+
+  console.log(`[Crossword] Generating puzzle with ${sortedWords.length} words (${mode})`);
+
+  // Initialize grid with generous size (will compact later)
+  // Start with size based on longest word * 3 to give room for growth
+  const maxWordLength = Math.max(...sortedWords.flatMap((w) => w.forms.map((f) => f.answer.length)));
+  const initialGridSize = Math.max(30, maxWordLength * 3);
+  const grid: (string | null)[][] = Array(initialGridSize)
+    .fill(null)
+    .map(() => Array(initialGridSize).fill(null));
+
+  let placedWords: WordPlacement[];
+
+  if (mode === 'backtrack') {
+    placedWords = searchPlacements(grid, sortedWords, {
+      minIntersections,
+      maxNodes,
+      // A seeded run must not depend on device speed, so only the node budget applies
+      timeBudgetMs: random ? Infinity : timeBudgetMs,
+      maxCandidatesPerWord,
+      random,
+    });
+  } else {
+    placedWords = greedyPlacements(grid, sortedWords, { maxAttempts, minIntersections, random });
+
+    const missing = missingRequiredWords(sortedWords, placedWords);
+    if (missing.length > 0 && onMissingRequired === 'retry') {
+      console.warn(`[Crossword] Required words not placed (${missing.join(', ')}), retrying with backtracking`);
+      return generateCrossword(wordInputs, { ...options, mode: 'backtrack' });
+    }
+  }
+
+  const missingRequired = missingRequiredWords(sortedWords, placedWords);
+  if (missingRequired.length > 0) {
+    console.error(`[Crossword] Could not place required words: ${missingRequired.join(', ')}`);
+    return null;
+  }
+
+  // Check if we placed enough words
+  if (placedWords.length < Math.min(3, sortedWords.length)) {
+    console.error('[Crossword] Too few words placed to create valid puzzle');
+    return null;
+  }
+
+  console.log(`[Crossword] Placed ${placedWords.length} of ${sortedWords.length} words`);
+
+  // Compact the grid by removing empty rows and columns
+  const compacted = compactGrid(grid, placedWords);
+
+  // Assign clue numbers in reading order (top-to-bottom, left-to-right)
+  const numberedWords = assignClueNumbers(compacted.words);
+
+  const placedSet = new Set(placedWords.map((p) => p.entry));
+  const unplacedWords = sortedWords
+    .filter((w) => !placedSet.has(w.word))
+    .map((w) => w.word);
+
+  return {
+    size: compacted.size,
+    words: numberedWords,
+    grid: compacted.grid,
+    unplacedWords,
+    rejectedWords,
+  };
+}
+
+/**
+ * Grid answer and enumeration of an input word, or why it can't be one
+ */
+function normalizeForm(word: string): AnswerForm | { reason: string } {
+  const entry = normalizeEntry(word);
+  if ('reason' in entry) return { reason: entry.reason };
+  if (entry.answer.length < 2) return { reason: 'Shorter than 2 letters' };
+  return { answer: entry.answer, enumeration: entry.enumeration };
+}
+
+/**
+ * Grid answer of a word, for matching mustInclude entries
+ */
+function answerOf(word: string): string {
+  const entry = normalizeEntry(word);
+  return entry.ok ? entry.answer : word.toUpperCase().trim();
+}
+
+/**
+ * Single greedy pass: place each word at its best-scoring position,
+ * skipping words that cannot be placed. Mutates the grid.
+ */
+function greedyPlacements(
+  grid: (string | null)[][],
+  sortedWords: NormalizedWord[],
+  options: { maxAttempts: number; minIntersections: number; random: RandomFn | null }
+): WordPlacement[] {
+  const { maxAttempts, minIntersections, random } = options;
+
+  // Track placed words
+  const placedWords: WordPlacement[] = [];
+
+  // Place first word horizontally in the center as anchor point
+  const anchor = anchorPlacement(grid, sortedWords[0]);
+  placeWord(grid, anchor, anchor.row, anchor.col, 'across');
+  placedWords.push(anchor);
+
+  console.log(`[Crossword] Placed anchor word: ${anchor.word} at (${anchor.row}, ${anchor.col})`);
+
+  // Try to place remaining words
+  for (let i = 1; i < sortedWords.length; i++) {
+    const currentWord = sortedWords[i];
+    let bestPlacement: WordPlacement | null = null;
+    let attempts = 0;
+
+    console.log(`[Crossword] Finding placement for: ${currentWord.word}`);
+
+    // Try to find best placement by checking intersections with all placed words
+    while (attempts < maxAttempts && !bestPlacement) {
+      const candidates = findFormPlacements(grid, currentWord, placedWords, random);
+
+      // Select best candidate based on score
+      if (candidates.length > 0) {
+        const best = candidates[0];
+
+        // Only accept if it meets minimum intersection requirement
+        if (best.score >= minIntersections) {
+          bestPlacement = best;
+        }
+      }
+
+      attempts++;
+    }
+
+    // Place the word if we found a valid placement
+    if (bestPlacement) {
+      placeWord(grid, bestPlacement, bestPlacement.row, bestPlacement.col, bestPlacement.direction);
+      placedWords.push(bestPlacement);
+      console.log(
+        `[Crossword] Placed: ${bestPlacement.word} at (${bestPlacement.row}, ${bestPlacement.col}) ${bestPlacement.direction} with score ${bestPlacement.score}`
+      );
+    } else {
+      console.warn(`[Crossword] Could not place: ${currentWord.word} after ${attempts} attempts`);
+    }
+  }
+
+  return placedWords;
+}
+
+/**
+ * Depth-first search over placements that backtracks when a word cannot
+ * be fitted. Each word is either placed at one of its best candidate
+ * positions or skipped (required words are never skipped). The layout with
+ * the most placed words found within the budget is written into the grid.
+ */
+function searchPlacements(
+  grid: (string | null)[][],
+  sortedWords: NormalizedWord[],
+  options: {
+    minIntersections: number;
+    maxNodes: number;
+    timeBudgetMs: number;
+    maxCandidatesPerWord: number;
+    random: RandomFn | null;
+  }
+): WordPlacement[] {
+  const { minIntersections, maxNodes, timeBudgetMs, maxCandidatesPerWord, random } = options;
+  const deadline = Date.now() + timeBudgetMs;
+  const requiredCount = sortedWords.filter((w) => w.required).length;
+
+  const placedWords: WordPlacement[] = [];
+  let best: WordPlacement[] = [];
+  let bestHasRequired = false;
+  let nodes = 0;
+  let exhausted = false;
+
+  const search = (index: number, requiredPlaced: number): void => {
+    if (exhausted) return;
+    nodes++;
+    if (nodes > maxNodes || Date.now() > deadline) {
+      exhausted = true;
+      return;
+    }
+
+    // Record the best layout so far: required words first, then total count
+    const hasRequired = requiredPlaced === requiredCount;
+    if (
+      (hasRequired && !bestHasRequired) ||
+      (hasRequired === bestHasRequired && placedWords.length > best.length)
+    ) {
+      best = [...placedWords];
+      bestHasRequired = hasRequired;
+    }
+
+    if (index >= sortedWords.length) return;
+
+    // Prune: even placing every remaining word can't beat the best layout
+    const remaining = sortedWords.length - index;
+    if (bestHasRequired && placedWords.length + remaining <= best.length) return;
+
+    const currentWord = sortedWords[index];
+    const candidates =
+      placedWords.length === 0
+        ? [anchorPlacement(grid, currentWord)]
+        : findFormPlacements(grid, currentWord, placedWords, random)
+            .filter((c) => c.score >= minIntersections)
+            .slice(0, maxCandidatesPerWord);
+
+    for (const candidate of candidates) {
+      const filled = placeWord(grid, candidate, candidate.row, candidate.col, candidate.direction);
+      placedWords.push(candidate);
+
+      search(index + 1, requiredPlaced + (currentWord.required ? 1 : 0));
+
+      placedWords.pop();
+      removeCells(grid, filled);
+
+      if (exhausted || (bestHasRequired && placedWords.length + remaining === best.length)) return;
+    }
+
+    // Leave this word out and carry on, unless it has to be in the puzzle
+    if (!currentWord.required) {
+      search(index + 1, requiredPlaced);
+    }
+  };
+
+  search(0, 0);
+
+  if (exhausted) {
+    console.warn(`[Crossword] Search budget exhausted after ${nodes} nodes, using best layout found`);
+  }
+
+  for (const placement of best) {
+    placeWord(grid, placement, placement.row, placement.col, placement.direction);
+  }
+
+  console.log(`[Crossword] Backtracking explored ${nodes} nodes, placed ${best.length} words`);
+
+  return best;
+}
+
+/**
+ * Position of the first word: horizontally in the center of the grid
+ */
+function anchorPlacement(grid: (string | null)[][], word: NormalizedWord): WordPlacement {
+  const gridSize = grid.length;
+  return {
+    word: word.word,
+    entry: word.word,
+    enumeration: word.forms[0].enumeration,
+    clue: word.clue,
+    row: Math.floor(gridSize / 2),
+    col: Math.floor((gridSize - word.word.length) / 2),
+    direction: 'across',
+    score: 0,
+  };
+}
+
+/**
+ * Placements of every form of a word, best first. On equal scores the word
+ * itself wins over its other forms.
+ */
+function findFormPlacements(
+  grid: (string | null)[][],
+  currentWord: NormalizedWord,
+  placedWords: WordPlacement[],
+  random: RandomFn | null = null
+): WordPlacement[] {
+  const candidates = currentWord.forms.flatMap((form) =>
+    findCandidatePlacements(grid, { word: form.answer, clue: currentWord.clue }, placedWords, random).map(
+      (placement) => ({ ...placement, entry: currentWord.word, enumeration: form.enumeration })
+    )
+  );
+  return currentWord.forms.length > 1 ? candidates.sort((a, b) => b.score - a.score) : candidates;
+}
+
+/**
+ * Find every valid placement of a word that intersects an already-placed word,
+ * sorted by score (best first). Equal scores are tie-broken randomly when a
+ * random function is given.
+ */
+function findCandidatePlacements(
+  grid: (string | null)[][],
+  currentWord: WordInput,
+  placedWords: WordPlacement[],
+  random: RandomFn | null = null
+): WordPlacement[] {
+  const candidates: WordPlacement[] = [];
+  const seen = new Set<string>();
+
+  // Check intersections with each already-placed word
+  for (const placedWord of placedWords) {
+    const intersections = findIntersections(currentWord.word, placedWord);
+
+    for (const intersection of intersections) {
+      // Calculate position based on intersection point
+      const { currentWordIndex, placedWordIndex } = intersection;
+      const direction = placedWord.direction === 'across' ? 'down' : 'across';
+
+      let row: number, col: number;
+
+      if (direction === 'across') {
+        // Current word goes across, intersects with vertical placed word
+        row = placedWord.row + placedWordIndex;
+        col = placedWord.col - currentWordIndex;
+      } else {
+        // Current word goes down, intersects with horizontal placed word
+        row = placedWord.row - currentWordIndex;
+        col = placedWord.col + placedWordIndex;
+      }
+
+      // The same position can be reached through several intersections
+      const key = `${row},${col},${direction}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      // Validate placement
+      if (canPlaceWord(grid, currentWord.word, row, col, direction)) {
+        // Score this placement based on:
+        // - Number of intersections with other words
+        // - Grid density (prefer placements near existing words)
+        // - Avoid creating invalid adjacent words
+        const score = scorePlacement(
+          grid,
+          currentWord.word,
+          row,
+          col,
+          direction,
+          placedWords
+        );
+
+        candidates.push({
+          word: currentWord.word,
+          entry: currentWord.word,
+          enumeration: `(${currentWord.word.length})`,
+          clue: currentWord.clue,
+          row,
+          col,
+          direction,
+          score,
+        });
+      }
+    }
+  }
+
+  const ordered = random ? shuffle(candidates, random) : candidates;
+  return ordered.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Required words that did not make it into the placed set
+ */
+function missingRequiredWords(
+  sortedWords: NormalizedWord[],
+  placedWords: WordPlacement[]
+): string[] {
+  const placed = new Set(placedWords.map((p) => p.entry));
+  return sortedWords.filter((w) => w.required && !placed.has(w.word)).map((w) => w.word);
+}
+
+/**
+ * Find all possible intersection points between two words
+ * Returns array of {currentWordIndex, placedWordIndex} pairs
+ */
+function findIntersections(
+  currentWord: string,
+  placedWord: WordPlacement
+): Array<{ currentWordIndex: number; placedWordIndex: number }> {
+  const intersections: Array<{ currentWordIndex: number; placedWordIndex: number }> = [];
+
+  // Check each letter in current word against each letter in placed word
+  for (let i = 0; i < currentWord.length; i++) {
+    for (let j = 0; j < placedWord.word.length; j++) {
+      if (currentWord[i] === placedWord.word[j]) {
+        intersections.push({
+          currentWordIndex: i,
+          placedWordIndex: j,
+        });
+      }
+    }
+  }
+
+  return intersections;
+}
+
+/**
+ * Check if a word can be placed at the given position without conflicts
+ */
+function canPlaceWord(
+  grid: (string | null)[][],
+  word: string,
+  row: number,
+  col: number,
+  direction: 'across' | 'down'
+): boolean {
+  const gridSize = grid.length;
+
+  // Check bounds
+  if (direction === 'across') {
+    if (row < 0 || row >= gridSize || col < 0 || col + word.length > gridSize) {
+      return false;
+    }
+  } else {
+    if (col < 0 || col >= gridSize || row < 0 || row + word.length > gridSize) {
+      return false;
+    }
+  }
+
+  // Check each cell of the word
+  for (let i = 0; i < word.length; i++) {
+    const r = direction === 'across' ? row : row + i;
+    const c = direction === 'across' ? col + i : col;
+
+    // Cell must be either empty or contain the same letter
+    if (grid[r][c] !== null && grid[r][c] !== word[i]) {
+      return false;
+    }
+
+    // Check cells perpendicular to the word to avoid creating invalid adjacent words
+    // Words cannot be directly adjacent (must have black cells between them)
+    if (direction === 'across') {
+      // Check above and below
+      if (grid[r][c] === null) {
+        // Only check if this is a new cell (not an intersection)
+        if (r > 0 && grid[r - 1][c] !== null) return false; // Cell above is occupied
+        if (r < gridSize - 1 && grid[r + 1][c] !== null) return false; // Cell below is occupied
+      }
+    } else {
+      // Check left and right
+      if (grid[r][c] === null) {
+        if (c > 0 && grid[r][c - 1] !== null) return false; // Cell to left is occupied
+        if (c < gridSize - 1 && grid[r][c + 1] !== null) return false; // Cell to right is occupied
+      }
+    }
+  }
+
+  // Check cells before and after the word (must be empty or out of bounds)
+  if (direction === 'across') {
+    // Check cell before word
+    if (col > 0 && grid[row][col - 1] !== null) return false;
+    // Check cell after word
+    if (col + word.length < gridSize && grid[row][col + word.length] !== null) return false;
+  } else {
+    // Check cell before word
+    if (row > 0 && grid[row - 1][col] !== null) return false;
+    // Check cell after word
+    if (row + word.length < gridSize && grid[row + word.length][col] !== null) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Place a word in the grid at the specified position
+ * Returns the cells that were empty before, so the placement can be undone
+ */
+function placeWord(
+  grid: (string | null)[][],
+  wordInput: WordInput,
+  row: number,
+  col: number,
+  direction: 'across' | 'down'
+): Array<[number, number]> {
+  const word = wordInput.word;
+  const filled: Array<[number, number]> = [];
+  for (let i = 0; i < word.length; i++) {
+    const r = direction === 'across' ? row : row + i;
+    const c = direction === 'across' ? col + i : col;
+    if (grid[r][c] === null) {
+      filled.push([r, c]);
+    }
+    grid[r][c] = word[i];
+  }
+  return filled;
+}
+
+/**
+ * Clear cells previously filled by placeWord (backtracking)
+ */
+function removeCells(grid: (string | null)[][], cells: Array<[number, number]>): void {
+  for (const [r, c] of cells) {
+    grid[r][c] = null;
+  }
+}
+
+/**
+ * Score a potential word placement
+ * Higher scores indicate better placements
+ */
+function scorePlacement(
+  grid: (string | null)[][],
+  word: string,
+  row: number,
+  col: number,
+  direction: 'across' | 'down',
+  placedWords: WordPlacement[]
+): number {
+  let score = 0;
+
+  // Count intersections (each intersection adds to score)
+  for (let i = 0; i < word.length; i++) {
+    const r = direction === 'across' ? row : row + i;
+    const c = direction === 'across' ? col + i : col;
+
+    if (grid[r][c] === word[i]) {
+      score += 10; // Bonus for each intersection
+    }
+  }
+
+  // Bonus for being close to other words (grid density)
+  // This creates a more compact puzzle
+  const avgDistance = calculateAverageDistance(row, col, placedWords);
+  if (avgDistance < 5) score += 5;
+  if (avgDistance < 3) score += 5;
+
+  // Penalty for very long words with few intersections
+  // Encourages better grid utilization
+  if (word.length > 6 && score < 10) {
+    score -= 5;
+  }
+
+  return score;
+}
+
+/**
+ * Calculate average distance from a position to all placed words
+ * Used to prefer placements near existing words (compact grid)
+ */
+function calculateAverageDistance(
+  row: number,
+  col: number,
+  placedWords: WordPlacement[]
+): number {
+  if (placedWords.length === 0) return 0;
+
+  let totalDistance = 0;
+  for (const word of placedWords) {
+    const distance = Math.abs(row - word.row) + Math.abs(col - word.col);
+    totalDistance += distance;
+  }
+
+  return totalDistance / placedWords.length;
+}
+
+/**
+ * Remove empty rows and columns from the grid to create a compact puzzle
+ */
+function compactGrid(
+  grid: (string | null)[][],
+  words: WordPlacement[]
+): {
+  size: number;
+  grid: (string | null)[][];
+  words: WordPlacement[];
+} {
+  const gridSize = grid.length;
+
+  // Find bounds of actual content
+  let minRow = gridSize,
+    maxRow = -1,
+    minCol = gridSize,
+    maxCol = -1;
+
+  for (let r = 0; r < gridSize; r++) {
+    for (let c = 0; c < gridSize; c++) {
+      if (grid[r][c] !== null) {
+        minRow = Math.min(minRow, r);
+        maxRow = Math.max(maxRow, r);
+        minCol = Math.min(minCol, c);
+        maxCol = Math.max(maxCol, c);
+      }
+    }
+  }
+
+  // Add padding around the content
+  const padding = 0;
+  minRow = Math.max(0, minRow - padding);
+  maxRow = Math.min(gridSize - 1, maxRow + padding);
+  minCol = Math.max(0, minCol - padding);
+  maxCol = Math.min(gridSize - 1, maxCol + padding);
+
+  // Create compacted grid
+  const newSize = Math.max(maxRow - minRow + 1, maxCol - minCol + 1);
+  const newGrid: (string | null)[][] = Array(newSize)
+    .fill(null)
+    .map(() => Array(newSize).fill(null));
+
+  // Copy content to new grid
+  for (let r = minRow; r <= maxRow; r++) {
+    for (let c = minCol; c <= maxCol; c++) {
+      newGrid[r - minRow][c - minCol] = grid[r][c];
+    }
+  }
+
+  // Adjust word positions
+  const adjustedWords = words.map((word) => ({
+    ...word,
+    row: word.row - minRow,
+    col: word.col - minCol,
+  }));
+
+  console.log(`[Crossword] Compacted grid from ${gridSize}x${gridSize} to ${newSize}x${newSize}`);
+
+  return {
+    size: newSize,
+    grid: newGrid,
+    words: adjustedWords,
+  };
+}
+
+/**
+ * Assign clue numbers to words in reading order
+ * Numbers are assigned based on position (top-to-bottom, left-to-right)
+ */
+function assignClueNumbers(words: WordPlacement[]): PlacedWord[] {
+  // Create a map of starting positions to track which cells start words
+  const startPositions = new Map<string, WordPlacement[]>();
+
+  for (const word of words) {
+    const key = `${word.row},${word.col}`;
+    if (!startPositions.has(key)) {
+      startPositions.set(key, []);
+    }
+    startPositions.get(key)!.push(word);
+  }
+
+  // Sort positions by reading order (row first, then column)
+  const sortedPositions = Array.from(startPositions.entries()).sort((a, b) => {
+    const [aRow, aCol] = a[0].split(',').map(Number);
+    const [bRow, bCol] = b[0].split(',').map(Number);
+
+    if (aRow !== bRow) return aRow - bRow;
+    return aCol - bCol;
+  });
+
+  // Assign numbers
+  const numberedWords: PlacedWord[] = [];
+  let clueNumber = 1;
+
+  for (const [position, wordsAtPosition] of sortedPositions) {
+    // All words starting at this position get the same number
+    for (const word of wordsAtPosition) {
+      numberedWords.push({
+        number: clueNumber,
+        word: word.entry,
+        clue: word.clue,
+        answer: word.word,
+        enumeration: word.enumeration,
+        startRow: word.row,
+        startCol: word.col,
+        direction: word.direction,
+      });
+    }
+    clueNumber++;
+  }
+
+  return numberedWords;
+}
+
+/**
+ * Utility function to visualize the grid in console (for debugging)
+ */
+export function printGrid(puzzle: PuzzleGrid): void {
+  console.log('\n=== Crossword Puzzle ===');
+  console.log(`Size: ${puzzle.size}x${puzzle.size}`);
+  console.log(`Words: ${puzzle.words.length}\n`);
+
+  for (let r = 0; r < puzzle.size; r++) {
+    let row = '';
+    for (let c = 0; c < puzzle.size; c++) {
+      row += puzzle.grid[r][c] || '█';
+      row += ' ';
+    }
+    console.log(row);
+  }
+
+  console.log('\nClues:');
+  const across = puzzle.words.filter((w) => w.direction === 'across');
+  const down = puzzle.words.filter((w) => w.direction === 'down');
+
+  console.log('ACROSS:');
+  across.forEach((w) => console.log(`  ${w.number}. ${w.clue} (${w.answer})`));
+
+  console.log('DOWN:');
+  down.forEach((w) => console.log(`  ${w.number}. ${w.clue} (${w.answer})`));
+}
@@ -0,0 +1,201 @@
+/**
+ * Filler Lexicon
+ *
+ * Offline word list used to complete crossword grids around the user's
+ * vocabulary words. Entries are indexed by length and by letter position so
+ * pattern queries like match('?R?A') only scan the smallest matching bucket.
+ * The bundled list is fillerWords.json next to this file, imported by the
+ * app and the edge functions alike (FillerLexicon.fromList).
+ *
+ * Word list format (one entry per line):
+ *   WORD;SCORE;CLUE - clue is optional (looked up elsewhere when missing)
+ *   WORD;SCORE      - score 0-100, higher = more familiar
+ *   WORD            - score defaults to 50
+ * Blank lines and lines starting with # are ignored.
+ */
+
+import { FillWordSource } from './crosswordFill.ts';
+
+export interface LexiconEntry {
+  word: string;
+  score: number; // 0-100, low scores are obscure words or crosswordese
+  clue?: string;
+}
+
+// Shape of fillerWords.json
+export interface FillerWordList {
+  description?: string;
+  attribution?: string;
+  words: string[]; // WORD;SCORE;CLUE entries
+}
+
+export interface MatchOptions {
+  minScore?: number; // Skip entries scoring below this
+  limit?: number; // Maximum number of results
+}
+
+const DEFAULT_SCORE = 50;
+
+export class FillerLexicon implements FillWordSource {
+  private entries: LexiconEntry[] = [];
+  private indexOf = new Map<string, number>();
+  private byLength = new Map<number, number[]>();
+  private byLetter = new Map<string, number[]>(); // "length:position:letter" -> entry indices
+
+  constructor(entries: LexiconEntry[] = []) {
+    for (const entry of entries) {
+      this.add(entry.word, entry.score, entry.clue);
+    }
+  }
+
+  /**
+   * Build a lexicon from the contents of a word list file
+   */
+  static fromText(text: string): FillerLexicon {
+    return new FillerLexicon(parseWordList(text));
+  }
+
+  /**
+   * Build a lexicon from a word list in the fillerWords.json format
+   */
+  static fromList(list: FillerWordList): FillerLexicon {
+    return new FillerLexicon(parseWordLines(list.words));
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Add a word (or update its score and clue if already present)
+   */
+  add(rawWord: string, score: number = DEFAULT_SCORE, clue?: string): void {
+    const word = rawWord.toUpperCase().trim();
+    if (!/^[A-Z]+$/.test(word)) return;
+
+    const entry: LexiconEntry = clue ? { word, score, clue } : { word, score };
+    const existing = this.indexOf.get(word);
+    if (existing !== undefined) {
+      this.entries[existing] = entry;
+      return;
+    }
+
+    const index = this.entries.length;
+    this.entries.push(entry);
+    this.indexOf.set(word, index);
+
+    if (!this.byLength.has(word.length)) {
+      this.byLength.set(word.length, []);
+    }
+    this.byLength.get(word.length)!.push(index);
+
+    for (let i = 0; i < word.length; i++) {
+      const key = `${word.length}:${i}:${word[i]}`;
+      if (!this.byLetter.has(key)) {
+        this.byLetter.set(key, []);
+      }
+      this.byLetter.get(key)!.push(index);
+    }
+  }
+
+  has(word: string): boolean {
+    return this.indexOf.has(word.toUpperCase());
+  }
+
+  score(word: string): number | undefined {
+    const index = this.indexOf.get(word.toUpperCase());
+    return index !== undefined ? this.entries[index].score : undefined;
+  }
+
+  clue(word: string): string | undefined {
+    const index = this.indexOf.get(word.toUpperCase());
+    return index !== undefined ? this.entries[index].clue : undefined;
+  }
+
+  /**
+   * Words matching a letter pattern, best scores first.
+   * '?' matches any letter, e.g. match('?R?A') -> ['AREA', 'ORCA', ...]
+   */
+  match(pattern: string, options: MatchOptions = {}): string[] {
+    return this.matchEntries(pattern, options).map((e) => e.word);
+  }
+
+  /**
+   * Same as match, but returns entries with their scores
+   */
+  matchEntries(pattern: string, options: MatchOptions = {}): LexiconEntry[] {
+    const { minScore = 0, limit } = options;
+    const upper = pattern.toUpperCase();
+
+    // Start from the smallest index bucket that covers the pattern
+    let bucket = this.byLength.get(upper.length) || [];
+    for (let i = 0; i < upper.length; i++) {
+      if (upper[i] === '?') continue;
+      const letterBucket = this.byLetter.get(`${upper.length}:${i}:${upper[i]}`) || [];
+      if (letterBucket.length < bucket.length) {
+        bucket = letterBucket;
+      }
+    }
+
+    const results: LexiconEntry[] = [];
+    for (const index of bucket) {
+      const entry = this.entries[index];
+      if (entry.score < minScore) continue;
+      if (matchesPattern(entry.word, upper)) {
+        results.push(entry);
+      }
+    }
+
+    results.sort((a, b) => b.score - a.score || a.word.localeCompare(b.word));
+    return limit !== undefined ? results.slice(0, limit) : results;
+  }
+
+  /**
+   * A view of this lexicon that skips entries below a minimum score,
+   * e.g. to keep crosswordese out of easy puzzles
+   */
+  withMinScore(minScore: number): FillWordSource {
+    return {
+      match: (pattern: string) => this.match(pattern, { minScore }),
+      score: (word: string) => this.score(word),
+      clue: (word: string) => this.clue(word),
+    };
+  }
+}
+
+/**
+ * Parse a WORD;SCORE;CLUE word list
+ */
+export function parseWordList(text: string): LexiconEntry[] {
+  return parseWordLines(text.split(/\r?\n/));
+}
+
+/**
+ * Parse WORD;SCORE;CLUE entries, one per line
+ */
+export function parseWordLines(lines: string[]): LexiconEntry[] {
+  const entries: LexiconEntry[] = [];
+
+  for (const rawLine of lines) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) continue;
+
+    // Clues may contain semicolons themselves
+    const [word, scoreText, ...clueParts] = line.split(';');
+    const score = scoreText !== undefined ? parseInt(scoreText, 10) : DEFAULT_SCORE;
+    if (!word || isNaN(score)) continue;
+
+    const clue = clueParts.join(';').trim();
+    entries.push(clue ? { word: word.trim(), score, clue } : { word: word.trim(), score });
+  }
+
+  return entries;
+}
+
+function matchesPattern(word: string, pattern: string): boolean {
+  if (word.length !== pattern.length) return false;
+  for (let i = 0; i < pattern.length; i++) {
+    if (pattern[i] !== '?' && pattern[i] !== word[i]) return false;
+  }
+  return true;
+}
@@ -0,0 +1,56 @@
+/**
+ * Seeded Random Number Generation
+ *
+ * Puzzle generation draws all of its randomness from a generator created
+ * here, so the same seed and word list always produce the same puzzle
+ * (bug reports, sharing, daily puzzles).
+ */
+
+export type RandomFn = () => number; // Returns a float in [0, 1), like Math.random
+
+/**
+ * Create a seeded PRNG (mulberry32). String seeds are hashed first,
+ * e.g. createRng('daily-2024-01-15').
+ */
+export function createRng(seed: number | string): RandomFn {
+  let state = (typeof seed === 'string' ? hashSeed(seed) : seed) >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Hash a string to a 32-bit unsigned seed (FNV-1a)
+ */
+export function hashSeed(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * A fresh seed for puzzles that don't specify one
+ */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 4294967296);
+}
+
+/**
+ * Fisher-Yates shuffle using the given random function (returns a new array)
+ */
+export function shuffle<T>(items: T[], random: RandomFn = Math.random): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
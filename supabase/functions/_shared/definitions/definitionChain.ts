@@ -0,0 +1,112 @@
+/**
+ * Definition Provider Chain
+ *
+ * Definitions are looked up through an ordered list of providers, e.g.
+ * local cache → word_definitions table → Free Dictionary → Wiktionary dump.
+ * The first provider with an answer wins, and the answer is written back to
+ * the earlier providers that can store it (so the next lookup of the word,
+ * by any user, stops at the cache or the table).
+ *
+ * Providers are plain objects, so the chain can run against fakes without
+ * network access. Shared by the mobile app and the edge functions.
+ */
+
+export interface DefinitionSense {
+  part_of_speech?: string;
+  definition: string;
+  example?: string;
+}
+
+export interface DefinitionResult {
+  word: string; // Headword as the source spells it
+  definition: string; // First sense
+  part_of_speech?: string;
+  pronunciation?: string;
+  usage_example?: string;
+  synonyms?: string[];
+  antonyms?: string[];
+  senses?: DefinitionSense[]; // Every sense in source order, starting with `definition`
+  source: string; // Provider that found it, e.g. 'free_dictionary_api'
+  word_definition_id?: number; // Row in word_definitions once it's stored there
+}
+
+export interface DefinitionProvider {
+  name: string;
+  /**
+   * The definition, or null if the source doesn't have the word. Throws when
+   * the source can't be reached (the lookup can be retried later).
+   */
+  lookup(word: string): Promise<DefinitionResult | null>;
+  /**
+   * Save a definition found further down the chain for the looked-up word
+   * (result.word may be a different form, e.g. "run" for "running"). May
+   * return it with extra fields filled in (e.g. word_definition_id).
+   */
+  store?(result: DefinitionResult, word: string): Promise<DefinitionResult | void>;
+}
+
+export type DefinitionLookup =
+  | { status: 'success'; result: DefinitionResult }
+  | { status: 'not_found' }
+  | { status: 'error'; error: string }; // No answer and at least one provider failed
+
+/**
+ * Normalized cache key for a word
+ */
+export function definitionKey(word: string): string {
+  return word.trim().toLowerCase();
+}
+
+export class DefinitionChain {
+  constructor(private providers: DefinitionProvider[]) {}
+
+  async lookup(word: string): Promise<DefinitionLookup> {
+    const errors: string[] = [];
+
+    for (let i = 0; i < this.providers.length; i++) {
+      const provider = this.providers[i];
+      let result: DefinitionResult | null;
+
+      try {
+        result = await provider.lookup(word);
+      } catch (error: any) {
+        errors.push(`${provider.name}: ${error?.message || String(error)}`);
+        continue;
+      }
+
+      if (result) {
+        return { status: 'success', result: await this.storeInEarlier(i, word, result) };
+      }
+    }
+
+    return errors.length > 0
+      ? { status: 'error', error: errors.join('; ') }
+      : { status: 'not_found' };
+  }
+
+  /**
+   * Write a result back to the providers before the one that found it,
+   * nearest first (so the table's id reaches the local cache)
+   */
+  private async storeInEarlier(
+    index: number,
+    word: string,
+    result: DefinitionResult
+  ): Promise<DefinitionResult> {
+    let stored = result;
+
+    for (let i = index - 1; i >= 0; i--) {
+      const provider = this.providers[i];
+      if (!provider.store) continue;
+
+      try {
+        stored = (await provider.store(stored, word)) || stored;
+      } catch (error) {
+        // Caching is best effort; the lookup itself succeeded
+        console.error(`[Definitions] Failed to store "${result.word}" in ${provider.name}:`, error);
+      }
+    }
+
+    return stored;
+  }
+}
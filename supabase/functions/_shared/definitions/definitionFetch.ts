@@ -0,0 +1,101 @@
+/**
+ * Definition fetch state of a word (words.fetch_status and friends)
+ *
+ * Lookups that fail because no dictionary could be reached are retried with
+ * exponential backoff (by the retry-definitions edge function and the app's
+ * foreground sweep) and given up on as not_found after MAX_FETCH_ATTEMPTS.
+ */
+
+import { DefinitionLookup, DefinitionSense } from './definitionChain.ts';
+import { formatSense, resultSenses } from './senses.ts';
+
+export const MAX_FETCH_ATTEMPTS = 6;
+const BASE_RETRY_DELAY_MS = 15 * 60 * 1000; // 15 minutes, doubled after each failure
+const MAX_RETRY_DELAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DefinitionFetchFields {
+  fetch_status: 'pending' | 'success' | 'failed' | 'not_found';
+  fetched_definition: string | null;
+  senses: DefinitionSense[] | null;
+  primary_sense: number;
+  definition_source: string | null;
+  word_definition_id: number | null;
+  fetch_error: string | null;
+  fetch_attempts: number;
+  next_fetch_at: string | null;
+  fetched_at: string;
+}
+
+/**
+ * Delay before retry number `attempts` + 1
+ */
+export function retryDelayMs(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1), MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * Word fields after a lookup. previousAttempts is 0 for a new word; its
+ * first failure stays 'pending', later failures are 'failed'.
+ */
+export function definitionFetchFields(
+  lookup: DefinitionLookup,
+  previousAttempts = 0,
+  now = new Date()
+): DefinitionFetchFields {
+  const attempts = previousAttempts + 1;
+  const base = {
+    fetched_definition: null,
+    senses: null,
+    primary_sense: 0,
+    definition_source: null,
+    word_definition_id: null,
+    fetch_attempts: attempts,
+    next_fetch_at: null,
+    fetched_at: now.toISOString(),
+  };
+
+  if (lookup.status === 'success') {
+    const { result } = lookup;
+    const senses = resultSenses(result);
+
+    return {
+      ...base,
+      fetch_status: 'success',
+      fetched_definition: formatSense(senses[0]),
+      senses,
+      definition_source: result.source,
+      word_definition_id: result.word_definition_id ?? null,
+      fetch_error: null,
+    };
+  }
+
+  if (lookup.status === 'not_found') {
+    return { ...base, fetch_status: 'not_found', fetch_error: 'Definition not found in any dictionary' };
+  }
+
+  if (attempts >= MAX_FETCH_ATTEMPTS) {
+    return {
+      ...base,
+      fetch_status: 'not_found',
+      fetch_error: `Gave up after ${attempts} attempts: ${lookup.error}`,
+    };
+  }
+
+  return {
+    ...base,
+    fetch_status: previousAttempts === 0 ? 'pending' : 'failed',
+    fetch_error: lookup.error,
+    next_fetch_at: new Date(now.getTime() + retryDelayMs(attempts)).toISOString(),
+  };
+}
+
+/**
+ * Whether a word's definition should be looked up again now
+ */
+export function isDefinitionRetryDue(
+  word: { fetch_status?: string | null; next_fetch_at?: string | null },
+  now = new Date()
+): boolean {
+  if (word.fetch_status !== 'pending' && word.fetch_status !== 'failed') return false;
+  return !word.next_fetch_at || new Date(word.next_fetch_at).getTime() <= now.getTime();
+}
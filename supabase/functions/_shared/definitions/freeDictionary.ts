@@ -0,0 +1,84 @@
+/**
+ * Free Dictionary API provider (https://dictionaryapi.dev)
+ */
+
+import { DefinitionProvider, DefinitionResult, DefinitionSense } from './definitionChain.ts';
+
+interface FreeDictionaryDefinition {
+  definition: string;
+  example?: string;
+  synonyms?: string[];
+  antonyms?: string[];
+}
+
+interface FreeDictionaryMeaning {
+  partOfSpeech: string;
+  definitions: FreeDictionaryDefinition[];
+  synonyms?: string[];
+  antonyms?: string[];
+}
+
+interface FreeDictionaryEntry {
+  word: string;
+  phonetic?: string;
+  phonetics?: { text?: string }[];
+  meanings: FreeDictionaryMeaning[];
+}
+
+const API_URL = 'https://api.dictionaryapi.dev/api/v2/entries/en/';
+
+/**
+ * Turn an API response into one result: every sense, the first
+ * as the definition, the first example found in any sense, and
+ * synonyms/antonyms from all senses
+ */
+export function parseFreeDictionaryEntries(entries: FreeDictionaryEntry[]): DefinitionResult | null {
+  const entry = entries?.find((e) => e.meanings?.some((m) => m.definitions?.length > 0));
+  if (!entry) return null;
+
+  const meanings = entry.meanings.filter((m) => m.definitions?.length > 0);
+  const senses = meanings.flatMap((m) => m.definitions);
+  // Entries after the first are other etymologies of the same word
+  const allSenses: DefinitionSense[] = entries.flatMap((e) =>
+    (e.meanings || []).flatMap((m) =>
+      (m.definitions || []).map((d) => ({
+        part_of_speech: m.partOfSpeech,
+        definition: d.definition,
+        example: d.example,
+      }))
+    )
+  );
+  const unique = (values: string[]) => [...new Set(values.filter(Boolean))];
+
+  return {
+    word: entry.word,
+    definition: meanings[0].definitions[0].definition,
+    part_of_speech: meanings[0].partOfSpeech,
+    pronunciation: entry.phonetic || entry.phonetics?.find((p) => p.text)?.text,
+    usage_example: senses.find((s) => s.example)?.example,
+    synonyms: unique(meanings.flatMap((m) => [...(m.synonyms || []), ...m.definitions.flatMap((d) => d.synonyms || [])])),
+    antonyms: unique(meanings.flatMap((m) => [...(m.antonyms || []), ...m.definitions.flatMap((d) => d.antonyms || [])])),
+    senses: allSenses,
+    source: 'free_dictionary_api',
+  };
+}
+
+export function createFreeDictionaryProvider(fetchFn: typeof fetch = fetch): DefinitionProvider {
+  return {
+    name: 'free_dictionary_api',
+
+    async lookup(word) {
+      const response = await fetchFn(`${API_URL}${encodeURIComponent(word.trim())}`);
+
+      if (response.status === 404) {
+        return null;
+      }
+      if (!response.ok) {
+        // Rate limits and server errors are worth retrying
+        throw new Error(`Free Dictionary API responded ${response.status}`);
+      }
+
+      return parseFreeDictionaryEntries(await response.json());
+    },
+  };
+}
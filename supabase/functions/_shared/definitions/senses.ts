@@ -0,0 +1,59 @@
+/**
+ * Word Senses
+ *
+ * A looked-up word keeps every sense the dictionary gave (words.senses) and
+ * which one the user is learning (words.primary_sense, an index into
+ * senses). Clues and hints are built from the primary sense.
+ */
+
+import { DefinitionResult, DefinitionSense } from './definitionChain.ts';
+
+export interface WordSenses {
+  senses?: DefinitionSense[] | null;
+  primary_sense?: number | null;
+}
+
+/**
+ * All senses of a result; providers without sense data give one
+ */
+export function resultSenses(result: DefinitionResult): DefinitionSense[] {
+  if (result.senses && result.senses.length > 0) {
+    return result.senses;
+  }
+  return [
+    {
+      part_of_speech: result.part_of_speech,
+      definition: result.definition,
+      example: result.usage_example,
+    },
+  ];
+}
+
+/**
+ * The sense the user is learning (the first one unless they picked another)
+ */
+export function primarySense(word: WordSenses): DefinitionSense | null {
+  const senses = word.senses || [];
+  return senses[word.primary_sense ?? 0] || senses[0] || null;
+}
+
+/**
+ * Display text of a sense, stored as words.fetched_definition
+ */
+export function formatSense(sense: DefinitionSense): string {
+  return sense.example ? `${sense.definition}\n\nExample: ${sense.example}` : sense.definition;
+}
+
+/**
+ * Word fields that make sense `index` the primary one
+ */
+export function primarySenseFields(
+  word: WordSenses,
+  index: number
+): { primary_sense: number; fetched_definition: string } {
+  const sense = word.senses?.[index];
+  if (!sense) {
+    throw new Error(`Sense ${index} not found`);
+  }
+  return { primary_sense: index, fetched_definition: formatSense(sense) };
+}
@@ -0,0 +1,70 @@
+/**
+ * Wiktionary provider
+ *
+ * Reads entries in the JSON format of Wiktextract dumps (kaikki.org), one
+ * object per word and part of speech. Where the dump lives is up to the
+ * caller: a bundled subset, a table, or a server loading the full file.
+ * Not part of the default chain.
+ */
+
+import { DefinitionProvider, DefinitionResult } from './definitionChain.ts';
+
+export interface WiktionaryEntry {
+  word: string;
+  pos?: string;
+  senses?: {
+    glosses?: string[];
+    examples?: { text?: string }[];
+    synonyms?: { word: string }[];
+    antonyms?: { word: string }[];
+    tags?: string[];
+  }[];
+  sounds?: { ipa?: string }[];
+  synonyms?: { word: string }[];
+  antonyms?: { word: string }[];
+}
+
+/**
+ * Entries of a word in the dump, or null if it isn't there
+ */
+export type WiktionarySource = (word: string) => Promise<WiktionaryEntry[] | null>;
+
+export function parseWiktionaryEntries(entries: WiktionaryEntry[]): DefinitionResult | null {
+  const isUsable = (sense: NonNullable<WiktionaryEntry['senses']>[number]) =>
+    !!sense.glosses?.length && !sense.tags?.includes('form-of');
+
+  const entry = entries.find((e) => e.senses?.some(isUsable));
+  if (!entry) return null;
+
+  const senses = entry.senses!.filter(isUsable);
+  const words = (list?: { word: string }[]) => (list || []).map((item) => item.word);
+
+  return {
+    word: entry.word,
+    definition: senses[0].glosses![senses[0].glosses!.length - 1],
+    part_of_speech: entry.pos,
+    pronunciation: entry.sounds?.find((s) => s.ipa)?.ipa,
+    usage_example: senses.flatMap((s) => s.examples || []).find((e) => e.text)?.text,
+    synonyms: [...new Set([...words(entry.synonyms), ...senses.flatMap((s) => words(s.synonyms))])],
+    antonyms: [...new Set([...words(entry.antonyms), ...senses.flatMap((s) => words(s.antonyms))])],
+    senses: entries.flatMap((e) =>
+      (e.senses || []).filter(isUsable).map((s) => ({
+        part_of_speech: e.pos,
+        definition: s.glosses![s.glosses!.length - 1],
+        example: s.examples?.find((x) => x.text)?.text,
+      }))
+    ),
+    source: 'wiktionary',
+  };
+}
+
+export function createWiktionaryProvider(source: WiktionarySource): DefinitionProvider {
+  return {
+    name: 'wiktionary',
+
+    async lookup(word) {
+      const entries = await source(word.trim());
+      return entries && entries.length > 0 ? parseWiktionaryEntries(entries) : null;
+    },
+  };
+}
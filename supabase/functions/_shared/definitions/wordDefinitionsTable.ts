@@ -0,0 +1,77 @@
+/**
+ * word_definitions table provider
+ *
+ * The global definitions table every user shares. Definitions found by
+ * later providers are saved through the cache_word_definition function,
+ * which only the service role may call; clients use a read-only provider
+ * and get new definitions from the lookup-definition edge function.
+ */
+
+import { DefinitionProvider, definitionKey } from './definitionChain.ts';
+
+// The parts of a Supabase client this provider uses
+interface SupabaseLike {
+  from(table: string): any;
+  rpc(fn: string, args: Record<string, unknown>): any;
+}
+
+export interface WordDefinitionsProviderOptions {
+  readOnly?: boolean; // Don't save definitions found further down the chain (saving needs the service role)
+}
+
+export function createWordDefinitionsProvider(
+  supabase: SupabaseLike,
+  options: WordDefinitionsProviderOptions = {}
+): DefinitionProvider {
+  const provider: DefinitionProvider = {
+    name: 'word_definitions',
+
+    async lookup(word) {
+      const { data, error } = await supabase
+        .from('word_definitions')
+        .select('*')
+        .eq('word_lower', definitionKey(word))
+        .limit(1)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) return null;
+
+      return {
+        word: data.word,
+        definition: data.definition,
+        part_of_speech: data.part_of_speech || undefined,
+        pronunciation: data.pronunciation || undefined,
+        usage_example: data.usage_example || undefined,
+        synonyms: data.synonyms || undefined,
+        antonyms: data.antonyms || undefined,
+        senses: data.senses || undefined,
+        source: data.source || 'word_definitions',
+        word_definition_id: data.id,
+      };
+    },
+  };
+
+  if (options.readOnly) return provider;
+
+  return {
+    ...provider,
+
+    async store(result) {
+      const { data, error } = await supabase.rpc('cache_word_definition', {
+        p_word: result.word,
+        p_definition: result.definition,
+        p_part_of_speech: result.part_of_speech ?? null,
+        p_pronunciation: result.pronunciation ?? null,
+        p_usage_example: result.usage_example ?? null,
+        p_synonyms: result.synonyms ?? null,
+        p_antonyms: result.antonyms ?? null,
+        p_senses: result.senses ?? null,
+        p_source: result.source,
+      });
+
+      if (error) throw error;
+      return { ...result, word_definition_id: data as number };
+    },
+  };
+}
@@ -0,0 +1,130 @@
+/**
+ * Embedders
+ *
+ * Turn definition text into vectors for word_embeddings (vector(1536)).
+ * The OpenAI embedder is used when an API key is configured; the local
+ * embedder hashes the text's words into the same number of dimensions, needs
+ * nothing outside the process and always gives the same vector for the same
+ * text, so it also serves tests and offline use. Vectors from different
+ * embedders can't be compared, so each stored vector records its model.
+ */
+
+import { lemmaCandidates } from '../lemmatizer.ts';
+
+export const EMBEDDING_DIMENSIONS = 1536;
+
+export interface Embedder {
+  model: string; // Stored with each vector in word_embeddings.model
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+// Definition data embedded for a word (a word_definitions row fits)
+export interface EmbeddingSource {
+  word: string;
+  definition?: string | null;
+  synonyms?: string[] | null;
+}
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'have', 'in', 'into',
+  'is', 'it', 'its', 'of', 'on', 'or', 'that', 'the', 'their', 'this', 'to', 'was', 'which',
+  'with', 'who', 'something', 'someone', 'one', 'being', 'used', 'very', 'not', 'make', 'made',
+  'relating', 'having', 'quality', 'state', 'act', 'way', 'kind', 'type', 'often', 'especially',
+]);
+
+/**
+ * Words of a text that carry meaning, as lemmas ("Playing the drums" →
+ * ["play", "drum"])
+ */
+export function contentWords(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '') // Combining diacritics
+    .split(/[^a-z]+/)
+    .filter((w) => w.length >= 3 && !STOPWORDS.has(w))
+    .map((w) => lemmaCandidates(w)[0] || w);
+}
+
+/**
+ * Text embedded for a definition: the word, its definition and synonyms
+ */
+export function embeddingText(source: EmbeddingSource): string {
+  return [source.word, source.definition, ...(source.synonyms || [])].filter(Boolean).join('. ');
+}
+
+/**
+ * A vector as returned by PostgREST (pgvector columns come back as "[...]")
+ */
+export function parseVector(value: unknown): number[] | null {
+  if (Array.isArray(value)) return value.map(Number);
+  if (typeof value === 'string' && value.startsWith('[')) {
+    return JSON.parse(value) as number[];
+  }
+  return null;
+}
+
+// FNV-1a, for spreading words over the dimensions
+function hash(text: string, seed: number): number {
+  let h = 0x811c9dc5 ^ seed;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/**
+ * Deterministic embedder: each content word adds +1 or -1 to a few hashed
+ * dimensions, so texts sharing words point the same way
+ */
+export function createLocalEmbedder(dimensions: number = EMBEDDING_DIMENSIONS): Embedder {
+  const embedOne = (text: string) => {
+    const vector = new Array<number>(dimensions).fill(0);
+    for (const word of contentWords(text)) {
+      for (let k = 0; k < 3; k++) {
+        const h = hash(word, k);
+        vector[h % dimensions] += h & 0x80000000 ? -1 : 1;
+      }
+    }
+    const norm = Math.sqrt(vector.reduce((sum, x) => sum + x * x, 0)) || 1;
+    return vector.map((x) => x / norm);
+  };
+
+  return {
+    model: `local-hash-${dimensions}`,
+    async embed(texts) {
+      return texts.map(embedOne);
+    },
+  };
+}
+
+export function createOpenAIEmbedder(
+  apiKey: string,
+  model: string = 'text-embedding-ada-002'
+): Embedder {
+  return {
+    model,
+    async embed(texts) {
+      if (texts.length === 0) return [];
+
+      const response = await fetch('https://api.openai.com/v1/embeddings', {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ model, input: texts }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Embeddings request failed: ${response.status}`);
+      }
+
+      const data = await response.json();
+      return (data.data as { index: number; embedding: number[] }[])
+        .sort((a, b) => a.index - b.index)
+        .map((item) => item.embedding);
+    },
+  };
+}
@@ -0,0 +1,88 @@
+/**
+ * Puzzle Themes
+ *
+ * A themed puzzle uses a cluster of related words: the word whose nearest
+ * neighbours (by cosine similarity of their embeddings) are closest on
+ * average, together with those neighbours. The theme is named after the
+ * meaning word most of the cluster's definitions share.
+ */
+
+import { contentWords } from './embedder.ts';
+
+export interface ThemeCandidate<T> {
+  item: T;
+  word: string;
+  vector: number[];
+  text: string; // Definition or clue, for naming the theme
+}
+
+export interface Theme<T> {
+  name: string;
+  items: T[];
+  cohesion: number; // Average similarity of the cluster to its center, -1 to 1
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Name for a cluster: the meaning word found in the most definitions
+ * (at least two), else "Words like <center word>"
+ */
+export function nameTheme(texts: string[], words: string[], center: string): string {
+  const own = new Set(words.flatMap(contentWords));
+  const counts = new Map<string, number>();
+  for (const text of texts) {
+    for (const word of new Set(contentWords(text))) {
+      if (word.length < 4 || own.has(word)) continue;
+      counts.set(word, (counts.get(word) || 0) + 1);
+    }
+  }
+
+  const [best] = [...counts.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+  if (best && best[1] >= 2) {
+    return best[0].charAt(0).toUpperCase() + best[0].slice(1);
+  }
+  return `Words like "${center}"`;
+}
+
+/**
+ * The most closely related group of `size` candidates, or null when there
+ * are fewer candidates than that
+ */
+export function findTheme<T>(candidates: ThemeCandidate<T>[], size: number): Theme<T> | null {
+  if (size < 2 || candidates.length < size) return null;
+
+  let best: { center: number; members: number[]; cohesion: number } | null = null;
+  for (let i = 0; i < candidates.length; i++) {
+    const neighbours = candidates
+      .map((c, j) => ({ j, similarity: j === i ? -Infinity : cosineSimilarity(candidates[i].vector, c.vector) }))
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, size - 1);
+
+    const cohesion = neighbours.reduce((sum, n) => sum + n.similarity, 0) / neighbours.length;
+    if (!best || cohesion > best.cohesion) {
+      best = { center: i, members: [i, ...neighbours.map((n) => n.j)], cohesion };
+    }
+  }
+
+  const members = best!.members.map((j) => candidates[j]);
+  return {
+    name: nameTheme(
+      members.map((m) => m.text),
+      members.map((m) => m.word),
+      candidates[best!.center].word
+    ),
+    items: members.map((m) => m.item),
+    cohesion: best!.cohesion,
+  };
+}
@@ -0,0 +1,278 @@
+/**
+ * English Lemmatizer
+ *
+ * Rule-based: an exception list for irregular forms, then suffix rules for
+ * plurals, past tenses, participles and comparatives. Rules alone can't tell
+ * "hoped" (hope) from "hopped" (hop), so lemmaCandidates returns every
+ * plausible lemma, most likely first, for the caller to check against a
+ * dictionary.
+ */
+
+// Irregular forms and their lemma
+const IRREGULAR_FORMS: Record<string, string> = {
+  // Nouns
+  children: 'child',
+  men: 'man',
+  women: 'woman',
+  people: 'person',
+  mice: 'mouse',
+  lice: 'louse',
+  geese: 'goose',
+  feet: 'foot',
+  teeth: 'tooth',
+  oxen: 'ox',
+  dice: 'die',
+  criteria: 'criterion',
+  phenomena: 'phenomenon',
+  analyses: 'analysis',
+  crises: 'crisis',
+  theses: 'thesis',
+  hypotheses: 'hypothesis',
+  diagnoses: 'diagnosis',
+  indices: 'index',
+  appendices: 'appendix',
+  matrices: 'matrix',
+  vertices: 'vertex',
+  cacti: 'cactus',
+  fungi: 'fungus',
+  nuclei: 'nucleus',
+  radii: 'radius',
+  stimuli: 'stimulus',
+  syllabi: 'syllabus',
+  alumni: 'alumnus',
+  larvae: 'larva',
+  formulae: 'formula',
+  vertebrae: 'vertebra',
+  // Verbs
+  am: 'be',
+  is: 'be',
+  are: 'be',
+  was: 'be',
+  were: 'be',
+  been: 'be',
+  being: 'be',
+  has: 'have',
+  had: 'have',
+  does: 'do',
+  did: 'do',
+  done: 'do',
+  went: 'go',
+  gone: 'go',
+  ran: 'run',
+  began: 'begin',
+  begun: 'begin',
+  bought: 'buy',
+  brought: 'bring',
+  caught: 'catch',
+  taught: 'teach',
+  thought: 'think',
+  sought: 'seek',
+  fought: 'fight',
+  came: 'come',
+  became: 'become',
+  chose: 'choose',
+  chosen: 'choose',
+  drank: 'drink',
+  drunk: 'drink',
+  drove: 'drive',
+  driven: 'drive',
+  ate: 'eat',
+  eaten: 'eat',
+  fell: 'fall',
+  fallen: 'fall',
+  felt: 'feel',
+  flew: 'fly',
+  flown: 'fly',
+  forgot: 'forget',
+  forgotten: 'forget',
+  froze: 'freeze',
+  frozen: 'freeze',
+  gave: 'give',
+  given: 'give',
+  grew: 'grow',
+  grown: 'grow',
+  hid: 'hide',
+  hidden: 'hide',
+  knew: 'know',
+  known: 'know',
+  laid: 'lay',
+  led: 'lead',
+  left: 'leave',
+  lent: 'lend',
+  lay: 'lie',
+  lain: 'lie',
+  lying: 'lie',
+  dying: 'die',
+  tying: 'tie',
+  lost: 'lose',
+  made: 'make',
+  meant: 'mean',
+  met: 'meet',
+  paid: 'pay',
+  rode: 'ride',
+  ridden: 'ride',
+  rang: 'ring',
+  rung: 'ring',
+  rose: 'rise',
+  risen: 'rise',
+  said: 'say',
+  saw: 'see',
+  seen: 'see',
+  sold: 'sell',
+  sent: 'send',
+  shook: 'shake',
+  shaken: 'shake',
+  shone: 'shine',
+  shot: 'shoot',
+  sang: 'sing',
+  sung: 'sing',
+  sank: 'sink',
+  sunk: 'sink',
+  slept: 'sleep',
+  spoke: 'speak',
+  spoken: 'speak',
+  spent: 'spend',
+  stood: 'stand',
+  stole: 'steal',
+  stolen: 'steal',
+  struck: 'strike',
+  swore: 'swear',
+  sworn: 'swear',
+  swam: 'swim',
+  swum: 'swim',
+  took: 'take',
+  taken: 'take',
+  tore: 'tear',
+  torn: 'tear',
+  told: 'tell',
+  threw: 'throw',
+  thrown: 'throw',
+  understood: 'understand',
+  woke: 'wake',
+  woken: 'wake',
+  wore: 'wear',
+  worn: 'wear',
+  won: 'win',
+  wrote: 'write',
+  written: 'write',
+  // Adjectives
+  better: 'good',
+  best: 'good',
+  worse: 'bad',
+  worst: 'bad',
+  further: 'far',
+  furthest: 'far',
+};
+
+// Words that look inflected but are lemmas themselves
+const UNINFLECTED = new Set([
+  'news',
+  'series',
+  'species',
+  'means',
+  'lens',
+  'bias',
+  'gas',
+  'always',
+  'perhaps',
+  'thus',
+  'chaos',
+  'ethos',
+  'pathos',
+  'kudos',
+  'mathematics',
+  'physics',
+  'ethics',
+  'economics',
+  'politics',
+  'linguistics',
+]);
+
+const VOWELS = 'aeiouy';
+
+/**
+ * Stems need a vowel ("thing" is not "th" + "ing")
+ */
+function isPlausibleStem(stem: string): boolean {
+  return stem.length >= 2 && [...stem].some((ch) => VOWELS.includes(ch));
+}
+
+/**
+ * Consonant-vowel-consonant ending ("hop", "obfuscat"), which usually means
+ * a silent e was dropped ("hoped", "obfuscated")
+ */
+function endsConsonantVowelConsonant(stem: string): boolean {
+  if (stem.length < 3) return false;
+  const [a, b, c] = stem.slice(-3);
+  return !VOWELS.includes(a) && VOWELS.includes(b) && !VOWELS.includes(c) && !'wxy'.includes(c);
+}
+
+/**
+ * Candidate lemmas of a stem left after removing -ed, -ing, -er or -est
+ */
+function stemCandidates(stem: string): string[] {
+  if (!isPlausibleStem(stem)) return [];
+
+  const last = stem[stem.length - 1];
+  const doubled = stem.length >= 3 && last === stem[stem.length - 2] && !VOWELS.includes(last);
+  if (doubled) {
+    // "stopped" → stop, but "called" → call
+    const single = stem.slice(0, -1);
+    return 'lsz'.includes(last) ? [stem, single] : [single, stem];
+  }
+
+  // "hoped" → hope, "walked" → walk; "argued" → argue, "agreed" → agree
+  if (endsConsonantVowelConsonant(stem) || 'cuvgze'.includes(last)) {
+    return [`${stem}e`, stem];
+  }
+  return [stem, `${stem}e`];
+}
+
+/**
+ * Possible lemmas of a word, most likely first. Empty when the word has no
+ * recognizable inflection. Multi-word entries and words with other
+ * characters than letters are left alone.
+ */
+export function lemmaCandidates(word: string): string[] {
+  const lower = word.trim().toLowerCase();
+  const w = lower.replace(/['’]s$/, '');
+  if (!/^[a-z]+$/.test(w)) return [];
+
+  // Possessive: the word itself, then its own lemmas
+  if (w !== lower) {
+    return [...new Set([w, ...lemmaCandidates(w)])];
+  }
+
+  const irregular = IRREGULAR_FORMS[w];
+  if (irregular) return [irregular];
+  if (UNINFLECTED.has(w) || w.length < 4) return [];
+
+  const candidates: string[] = [];
+  const add = (...lemmas: string[]) => candidates.push(...lemmas);
+
+  if (w.endsWith('ies')) {
+    add(`${w.slice(0, -3)}y`, w.slice(0, -1));
+  } else if (w.endsWith('ves')) {
+    add(`${w.slice(0, -3)}fe`, `${w.slice(0, -3)}f`, w.slice(0, -1));
+  } else if (/(ss|sh|ch|x|z|o)es$/.test(w)) {
+    add(w.slice(0, -2), w.slice(0, -1));
+  } else if (w.endsWith('s') && !/(ss|us|is)$/.test(w)) {
+    add(w.slice(0, -1));
+  } else if (w.endsWith('ied')) {
+    add(`${w.slice(0, -3)}y`);
+  } else if (w.endsWith('ed')) {
+    add(...stemCandidates(w.slice(0, -2)));
+  } else if (w.endsWith('ing')) {
+    add(...stemCandidates(w.slice(0, -3)));
+  } else if (w.endsWith('iest')) {
+    add(`${w.slice(0, -4)}y`);
+  } else if (w.endsWith('est')) {
+    add(...stemCandidates(w.slice(0, -3)));
+  } else if (w.endsWith('ier')) {
+    add(`${w.slice(0, -3)}y`);
+  } else if (w.endsWith('er')) {
+    add(...stemCandidates(w.slice(0, -2)));
+  }
+
+  return [...new Set(candidates)].filter((lemma) => lemma !== w && isPlausibleStem(lemma));
+}
@@ -0,0 +1,177 @@
+/**
+ * Puzzle Answer Helpers
+ *
+ * Expands the clues stored on a puzzle into the cells each answer occupies and
+ * compares them with an attempt's grid ("row,col" -> letter). Used by the
+ * edge functions so answers never have to leave the server; they are kept
+ * in puzzle_solutions, apart from the puzzle rows users can read.
+ */
+
+export interface PuzzleSolution {
+  grid: string[][];
+  clues_across: any[]; // The puzzle's clues with their answers
+  clues_down: any[];
+  user_words: string[] | null;
+  filler_words: string[] | null;
+}
+
+/**
+ * The answers to one of the user's puzzles. puzzle_solutions is only
+ * readable with the service role, which skips row level security, so the
+ * puzzle's owner is checked here.
+ */
+export async function fetchSolution(
+  serviceClient: any,
+  puzzleId: number,
+  userId: string
+): Promise<PuzzleSolution> {
+  const { data, error } = await serviceClient
+    .from('puzzle_solutions')
+    .select('grid, clues_across, clues_down, user_words, filler_words, puzzles!inner(user_id)')
+    .eq('puzzle_id', puzzleId)
+    .eq('puzzles.user_id', userId)
+    .single();
+
+  if (error) throw error;
+  const { puzzles: _owner, ...solution } = data;
+  return solution as PuzzleSolution;
+}
+
+export interface Entry {
+  key: string; // "<number>-<direction>", same keys as puzzle_attempts.word_results
+  number: number;
+  direction: 'across' | 'down';
+  answer: string;
+  isUserWord: boolean;
+  cells: [number, number][];
+}
+
+/**
+ * Expand stored clues (clues_across + clues_down) into entries
+ */
+export function buildEntries(clues: any[]): Entry[] {
+  return clues.map((clue) => {
+    const answer = String(clue.answer).toUpperCase();
+    const cells: [number, number][] = [];
+    for (let i = 0; i < answer.length; i++) {
+      cells.push(
+        clue.direction === 'across' ? [clue.row, clue.col + i] : [clue.row + i, clue.col]
+      );
+    }
+    return {
+      key: `${clue.number}-${clue.direction}`,
+      number: clue.number,
+      direction: clue.direction,
+      answer,
+      isUserWord: clue.is_user_word !== false,
+      cells,
+    };
+  });
+}
+
+/**
+ * Solution letter for every cell, keyed "row,col"
+ */
+export function solutionLetters(entries: Entry[]): Map<string, string> {
+  const letters = new Map<string, string>();
+  for (const entry of entries) {
+    entry.cells.forEach(([r, c], i) => letters.set(`${r},${c}`, entry.answer[i]));
+  }
+  return letters;
+}
+
+/**
+ * All cells covered by the entries, without duplicates at crossings
+ */
+export function uniqueCells(entries: Entry[]): [number, number][] {
+  const seen = new Set<string>();
+  const cells: [number, number][] = [];
+  for (const entry of entries) {
+    for (const [r, c] of entry.cells) {
+      const key = `${r},${c}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      cells.push([r, c]);
+    }
+  }
+  return cells;
+}
+
+export interface ScopeRequest {
+  scope: 'square' | 'word' | 'puzzle';
+  row?: number;
+  col?: number;
+  clueNumber?: number;
+  direction?: 'across' | 'down';
+}
+
+/**
+ * The entries and cells a check or reveal covers: a square (with the words
+ * crossing it), a word, or the whole puzzle
+ */
+export function selectScope(
+  entries: Entry[],
+  request: ScopeRequest
+): { entries: Entry[]; cells: [number, number][] } {
+  if (request.scope === 'square') {
+    if (request.row === undefined || request.col === undefined) {
+      throw new Error('row and col are required for a square');
+    }
+    const crossing = entries.filter((e) =>
+      e.cells.some(([r, c]) => r === request.row && c === request.col)
+    );
+    if (crossing.length === 0) {
+      throw new Error(`No word crosses square (${request.row}, ${request.col})`);
+    }
+    return { entries: crossing, cells: [[request.row, request.col]] };
+  }
+
+  if (request.scope === 'word') {
+    const entry = entries.find(
+      (e) => e.number === request.clueNumber && e.direction === request.direction
+    );
+    if (!entry) {
+      throw new Error(`Clue ${request.clueNumber} ${request.direction} not found`);
+    }
+    return { entries: [entry], cells: entry.cells };
+  }
+
+  if (request.scope === 'puzzle') {
+    return { entries, cells: uniqueCells(entries) };
+  }
+
+  throw new Error(`Unknown scope: ${request.scope}`);
+}
+
+/**
+ * Letters entered for an entry ('' for empty cells)
+ */
+export function enteredLetters(entry: Entry, answers: Record<string, string>): string[] {
+  return entry.cells.map(([r, c]) => (answers[`${r},${c}`] || '').toUpperCase());
+}
+
+/**
+ * Copy of a puzzle row that is safe to hand to the client: grid letters
+ * blanked ('' for white squares, null for black) and answers dropped from
+ * the clues. The answer lists (user_words, filler_words) and each clue's
+ * user_word are dropped too, since they spell out the answers.
+ */
+export function withoutAnswers<T extends Record<string, any>>(puzzle: T): T {
+  const { user_words: _userWords, filler_words: _fillerWords, ...row } = puzzle;
+  const stripClue = ({ answer: _answer, user_word: _userWord, ...clue }: any) => clue;
+  const grid = row.grid_data?.grid;
+
+  return {
+    ...row,
+    ...(row.grid_data && {
+      grid_data: {
+        ...row.grid_data,
+        grid: Array.isArray(grid)
+          ? grid.map((cells: any[]) => cells.map((cell) => (cell === null ? null : '')))
+          : grid,
+      },
+    }),
+    ...(row.clues_across && { clues_across: row.clues_across.map(stripClue) }),
+    ...(row.clues_down && { clues_down: row.clues_down.map(stripClue) }),
+  } as unknown as T;
+}
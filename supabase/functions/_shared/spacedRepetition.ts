@@ -0,0 +1,123 @@
+/**
+ * Spaced Repetition (SM-2)
+ *
+ * Turns how a word went in a puzzle into an SM-2 quality grade (0-5) and
+ * computes the next review schedule for its learning_progress row.
+ * https://super-memory.com/english/ol/sm2.htm
+ */
+
+export type LearningStage = 'new' | 'learning' | 'reviewing' | 'mastered';
+
+export type ReviewOutcome = 'solved' | 'solved_with_hints' | 'revealed' | 'wrong';
+
+export interface ReviewState {
+  easiness_factor: number;
+  interval_days: number;
+  repetitions: number;
+  stage: LearningStage;
+}
+
+export interface ScheduledReview extends ReviewState {
+  next_review_at: string;
+  last_review_at: string;
+}
+
+export const MIN_EASINESS = 1.3;
+export const MASTERED_INTERVAL_DAYS = 21; // Intervals this long count as mastered
+const REVIEWING_REPETITIONS = 2;
+
+export const INITIAL_REVIEW_STATE: ReviewState = {
+  easiness_factor: 2.5,
+  interval_days: 1,
+  repetitions: 0,
+  stage: 'new',
+};
+
+/**
+ * SM-2 quality grade for a puzzle outcome.
+ * hintLevel is the strongest hint used (1-4), wrongChecks how often the
+ * word was checked while wrong.
+ */
+export function qualityFromOutcome(
+  outcome: ReviewOutcome,
+  { hintLevel = 0, wrongChecks = 0 }: { hintLevel?: number; wrongChecks?: number } = {}
+): number {
+  switch (outcome) {
+    case 'revealed':
+      return 1;
+    case 'wrong':
+      return 2;
+    case 'solved_with_hints':
+      // Part of speech only is a light nudge; letters, examples and synonyms are not
+      return hintLevel <= 1 && wrongChecks === 0 ? 4 : 3;
+    case 'solved':
+      return wrongChecks > 0 ? 4 : 5;
+  }
+}
+
+/**
+ * SM-2 quality grade for a flashcard-style review, where the only signals
+ * are whether the word was recalled and how long it took (seconds)
+ */
+export function qualityFromRecall(correct: boolean, timeToRecall: number): number {
+  if (!correct) return 2;
+  if (timeToRecall <= 5) return 5;
+  if (timeToRecall <= 15) return 4;
+  return 3;
+}
+
+/**
+ * Apply one review with the given quality (0-5) to a learning state
+ */
+export function scheduleReview(
+  state: ReviewState,
+  quality: number,
+  now: Date = new Date()
+): ScheduledReview {
+  let { repetitions, interval_days } = state;
+
+  if (quality >= 3) {
+    if (repetitions === 0) {
+      interval_days = 1;
+    } else if (repetitions === 1) {
+      interval_days = 6;
+    } else {
+      interval_days = Math.round(interval_days * state.easiness_factor);
+    }
+    repetitions += 1;
+  } else {
+    // Lapse: start the word over
+    repetitions = 0;
+    interval_days = 1;
+  }
+
+  const easiness_factor = Math.max(
+    MIN_EASINESS,
+    state.easiness_factor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  );
+
+  let stage: LearningStage = 'learning';
+  if (interval_days >= MASTERED_INTERVAL_DAYS) {
+    stage = 'mastered';
+  } else if (repetitions >= REVIEWING_REPETITIONS) {
+    stage = 'reviewing';
+  }
+
+  const nextReview = new Date(now.getTime() + interval_days * 24 * 60 * 60 * 1000);
+
+  return {
+    easiness_factor: Math.round(easiness_factor * 100) / 100,
+    interval_days,
+    repetitions,
+    stage,
+    next_review_at: nextReview.toISOString(),
+    last_review_at: now.toISOString(),
+  };
+}
+
+/**
+ * words.mastery_level (0-5) for a learning state
+ */
+export function masteryLevel(state: ReviewState): number {
+  return state.stage === 'mastered' ? 5 : Math.min(4, state.repetitions);
+}
@@ -0,0 +1,155 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import {
+  buildEntries,
+  enteredLetters,
+  fetchSolution,
+  ScopeRequest,
+  selectScope,
+  solutionLetters,
+} from '../_shared/puzzleAnswers.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface CheckRequest extends ScopeRequest {
+  puzzle_id: number;
+  attempt_id: number;
+  answers?: Record<string, string>; // "row,col" -> letter; defaults to the attempt's saved grid
+}
+
+interface WordResult {
+  correct: boolean;
+  checks: number;
+  wrong_checks: number;
+  revealed?: boolean;
+  solve_seconds?: number; // Time from the attempt's start to its first correct check
+}
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: { Authorization: req.headers.get('Authorization')! },
+        },
+      }
+    );
+
+    // Answers are only readable with the service role
+    const serviceClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const request: CheckRequest = await req.json();
+
+    const { data: attempt, error: attemptError } = await supabaseClient
+      .from('puzzle_attempts')
+      .select('id, user_id, puzzle_id, start_time, current_grid, word_results')
+      .eq('id', request.attempt_id)
+      .eq('puzzle_id', request.puzzle_id)
+      .single();
+
+    if (attemptError) throw attemptError;
+
+    const puzzle = await fetchSolution(serviceClient, attempt.puzzle_id, attempt.user_id);
+    const entries = buildEntries([...puzzle.clues_across, ...puzzle.clues_down]);
+    const answers: Record<string, string> = {
+      ...(attempt.current_grid || {}),
+      ...(request.answers || {}),
+    };
+
+    // Work out which cells and words this check covers
+    const { entries: checkedEntries, cells: checkedCells } = selectScope(entries, request);
+
+    const solution = solutionLetters(entries);
+
+    // Per-cell results never include the expected letter
+    const cells = checkedCells.map(([row, col]) => {
+      const key = `${row},${col}`;
+      const letter = (answers[key] || '').toUpperCase();
+      return {
+        row,
+        col,
+        filled: letter !== '',
+        correct: letter !== '' && letter === solution.get(key),
+      };
+    });
+
+    // Only fully filled words count as an answer to the word
+    const wordResults: Record<string, WordResult> = { ...(attempt.word_results || {}) };
+    const elapsedSeconds = Math.round((Date.now() - new Date(attempt.start_time).getTime()) / 1000);
+    const words = checkedEntries.map((entry) => {
+      const letters = enteredLetters(entry, answers);
+      const filled = letters.every((l) => l !== '');
+      const correct = filled && letters.join('') === entry.answer;
+
+      if (filled) {
+        const previous = wordResults[entry.key] || { correct: false, checks: 0, wrong_checks: 0 };
+        wordResults[entry.key] = {
+          ...previous,
+          correct,
+          checks: previous.checks + 1,
+          wrong_checks: previous.wrong_checks + (correct ? 0 : 1),
+        };
+        if (correct && previous.solve_seconds === undefined) {
+          wordResults[entry.key].solve_seconds = elapsedSeconds;
+        }
+      }
+
+      return { number: entry.number, direction: entry.direction, filled, correct };
+    });
+
+    const results = Object.values(wordResults);
+    const correctWords = results.filter((r) => r.correct).length;
+    const incorrectWords = results.length - correctWords;
+    const accuracyPercentage =
+      results.length > 0 ? Math.round((correctWords / results.length) * 10000) / 100 : 0;
+
+    const { error: updateError } = await supabaseClient
+      .from('puzzle_attempts')
+      .update({
+        current_grid: answers,
+        word_results: wordResults,
+        correct_words: correctWords,
+        incorrect_words: incorrectWords,
+        accuracy_percentage: accuracyPercentage,
+      })
+      .eq('id', attempt.id);
+
+    if (updateError) throw updateError;
+
+    return new Response(
+      JSON.stringify({
+        correct: cells.every((c) => c.correct),
+        cells,
+        words,
+        correct_words: correctWords,
+        incorrect_words: incorrectWords,
+        accuracy_percentage: accuracyPercentage,
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      }
+    );
+  } catch (error) {
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 400,
+      }
+    );
+  }
+});
@@ -0,0 +1,79 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import {
+  createLocalEmbedder,
+  createOpenAIEmbedder,
+  Embedder,
+  embeddingText,
+} from '../_shared/embeddings/embedder.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Definitions embedded per run; the schedule picks up the rest on the next run
+const BATCH_SIZE = 100;
+
+/**
+ * Compute embeddings for word_definitions that don't have one from the
+ * current embedder: OpenAI when OPENAI_API_KEY is set, else the local one.
+ * Runs on a schedule with the service role key; see docs/SUPABASE_SETUP.md.
+ */
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+
+    // Works across all definitions, so only the scheduler (service role) may call it
+    if (!serviceRoleKey || req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 401,
+      });
+    }
+
+    const supabaseClient = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceRoleKey);
+
+    const openAIKey = Deno.env.get('OPENAI_API_KEY');
+    const embedder: Embedder = openAIKey ? createOpenAIEmbedder(openAIKey) : createLocalEmbedder();
+
+    const { data: definitions, error } = await supabaseClient.rpc('definitions_missing_embeddings', {
+      p_model: embedder.model,
+      p_limit: BATCH_SIZE,
+    });
+
+    if (error) throw error;
+
+    const rows = definitions || [];
+    const vectors = await embedder.embed(rows.map(embeddingText));
+
+    const { error: upsertError } = await supabaseClient.from('word_embeddings').upsert(
+      rows.map((definition: any, i: number) => ({
+        word_definition_id: definition.id,
+        embedding: JSON.stringify(vectors[i]),
+        model: embedder.model,
+      })),
+      { onConflict: 'word_definition_id' }
+    );
+
+    if (upsertError) throw upsertError;
+
+    const summary = { model: embedder.model, embedded: rows.length };
+    console.log('[EmbedDefinitions] Done:', summary);
+
+    return new Response(JSON.stringify(summary), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status: 200,
+    });
+  } catch (error) {
+    return new Response(JSON.stringify({ error: error.message }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status: 400,
+    });
+  }
+});
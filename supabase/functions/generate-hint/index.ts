@@ -0,0 +1,207 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { toAnswer } from '../_shared/crossword/crosswordEntry.ts';
+import { primarySense } from '../_shared/definitions/senses.ts';
+import { fetchSolution } from '../_shared/puzzleAnswers.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface HintRequest {
+  puzzle_id: number;
+  attempt_id: number;
+  clue_number: number;
+  direction: 'across' | 'down';
+}
+
+// Hints get stronger with each request for the same clue
+const HINT_TYPES = ['part_of_speech', 'first_letter', 'usage_example', 'synonyms'] as const;
+type HintType = typeof HINT_TYPES[number];
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: { Authorization: req.headers.get('Authorization')! },
+        },
+      }
+    );
+
+    // Answers are only readable with the service role
+    const serviceClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const request: HintRequest = await req.json();
+
+    const { data: attempt, error: attemptError } = await supabaseClient
+      .from('puzzle_attempts')
+      .select('id, user_id, puzzle_id')
+      .eq('id', request.attempt_id)
+      .eq('puzzle_id', request.puzzle_id)
+      .single();
+
+    if (attemptError) throw attemptError;
+
+    const puzzle = await fetchSolution(serviceClient, attempt.puzzle_id, attempt.user_id);
+    const clues = request.direction === 'across' ? puzzle.clues_across : puzzle.clues_down;
+    const clue = clues.find((c: any) => c.number === request.clue_number);
+    if (!clue) {
+      throw new Error(`Clue ${request.clue_number} ${request.direction} not found`);
+    }
+
+    const answer = String(clue.answer).toUpperCase();
+    const definition = await getDefinition(
+      supabaseClient,
+      answer,
+      puzzle.user_words || [],
+      attempt.user_id
+    );
+
+    // Continue from the strongest hint already given for this clue
+    const { data: previousHints, error: hintsError } = await supabaseClient
+      .from('puzzle_hints')
+      .select('hint_level')
+      .eq('puzzle_attempt_id', attempt.id)
+      .eq('clue_number', request.clue_number)
+      .eq('direction', request.direction);
+
+    if (hintsError) throw hintsError;
+
+    const lastLevel = Math.max(0, ...(previousHints || []).map((h: any) => h.hint_level));
+    const next = nextHint(answer, definition, lastLevel);
+
+    const { error: insertError } = await supabaseClient.from('puzzle_hints').insert({
+      user_id: attempt.user_id,
+      puzzle_attempt_id: attempt.id,
+      clue_number: request.clue_number,
+      direction: request.direction,
+      hint_level: next.level,
+      hint_type: next.type,
+    });
+
+    if (insertError) throw insertError;
+
+    return new Response(
+      JSON.stringify({
+        hint: next.hint,
+        hint_level: next.level,
+        hint_type: next.type,
+        max_level: HINT_TYPES.length,
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      }
+    );
+  } catch (error) {
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 400,
+      }
+    );
+  }
+});
+
+// Look up the dictionary entry for an answer, preferring the user's spelling
+// ("ice cream" for ICECREAM). The part of speech and example come from the
+// sense the user is learning, when they have the word.
+async function getDefinition(
+  supabaseClient: any,
+  answer: string,
+  userWords: string[],
+  userId: string
+) {
+  const matchingWords = userWords.filter((w) => toAnswer(w) === answer);
+  const spellings = matchingWords.map((w) => w.toLowerCase());
+  spellings.push(answer.toLowerCase());
+
+  const { data } = await supabaseClient
+    .from('word_definitions')
+    .select('word, part_of_speech, usage_example, synonyms')
+    .in('word_lower', spellings)
+    .limit(1);
+
+  const definition = data?.[0] || null;
+  if (matchingWords.length === 0) return definition;
+
+  const { data: userWord } = await supabaseClient
+    .from('words')
+    .select('word, senses, primary_sense')
+    .eq('user_id', userId)
+    .in('word', matchingWords)
+    .limit(1)
+    .maybeSingle();
+
+  const sense = userWord ? primarySense(userWord) : null;
+  if (!sense) return definition;
+
+  return {
+    ...definition,
+    word: definition?.word || userWord.word,
+    part_of_speech: sense.part_of_speech,
+    usage_example: sense.example,
+  };
+}
+
+// The next level above lastLevel that has data, or the strongest one again
+function nextHint(
+  answer: string,
+  definition: any,
+  lastLevel: number
+): { level: number; type: HintType; hint: string } {
+  let fallback: { level: number; type: HintType; hint: string } | null = null;
+
+  for (let level = 1; level <= HINT_TYPES.length; level++) {
+    const type = HINT_TYPES[level - 1];
+    const hint = hintText(type, answer, definition);
+    if (!hint) continue;
+
+    if (level > lastLevel) {
+      return { level, type, hint };
+    }
+    fallback = { level, type, hint };
+  }
+
+  // The first letter is always available, so fallback is never null here
+  return fallback!;
+}
+
+function hintText(type: HintType, answer: string, definition: any): string | null {
+  switch (type) {
+    case 'part_of_speech':
+      return definition?.part_of_speech ? `It's a ${definition.part_of_speech}` : null;
+    case 'first_letter':
+      return `Starts with "${answer[0]}" (${answer.length} letters)`;
+    case 'usage_example': {
+      if (!definition?.usage_example) return null;
+      const blanked = blankWord(definition.usage_example, definition.word);
+      return blanked !== definition.usage_example ? `Used like: "${blanked}"` : null;
+    }
+    case 'synonyms': {
+      const synonyms = (definition?.synonyms || []).filter(
+        (s: string) => !toAnswer(s).includes(answer)
+      );
+      return synonyms.length > 0 ? `Similar to: ${synonyms.slice(0, 5).join(', ')}` : null;
+    }
+  }
+}
+
+// Replace the word and its inflections ("ephemeral", "ephemerally") with a blank
+function blankWord(sentence: string, word: string): string {
+  const escaped = word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return sentence.replace(new RegExp(`\\b${escaped}\\w*`, 'gi'), '_____');
+}
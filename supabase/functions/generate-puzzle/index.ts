@@ -1,17 +1,63 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import {
+  generateCrossword,
+  PlacedWord,
+  PuzzleGrid,
+  RejectedWord,
+  WordInput,
+} from '../_shared/crossword/crosswordGenerator.ts';
+import { generateFilledCrosswordWithClues } from '../_shared/crossword/crosswordFill.ts';
+import { FillerLexicon } from '../_shared/crossword/fillerLexicon.ts';
+import fillerWords from '../_shared/crossword/fillerWords.json' with { type: 'json' };
+import { fixClueLeaks } from '../_shared/crossword/clueLeaks.ts';
+import { toAnswer } from '../_shared/crossword/crosswordEntry.ts';
+import { BankClue, chooseClue, createClueBank } from '../_shared/clues/clueBank.ts';
+import {
+  ClueSource,
+  deriveClues,
+  deriveReverseClue,
+  pickClue,
+  ReverseClue,
+} from '../_shared/clues/clueDerivation.ts';
+import { createRng, randomSeed, shuffle } from '../_shared/crossword/random.ts';
+import { DefinitionChain } from '../_shared/definitions/definitionChain.ts';
+import { createFreeDictionaryProvider } from '../_shared/definitions/freeDictionary.ts';
+import { primarySense } from '../_shared/definitions/senses.ts';
+import { createWordDefinitionsProvider } from '../_shared/definitions/wordDefinitionsTable.ts';
+import { parseVector } from '../_shared/embeddings/embedder.ts';
+import { findTheme } from '../_shared/embeddings/themes.ts';
+import { withoutAnswers } from '../_shared/puzzleAnswers.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+// Share of words clued in reverse when reverse clues are on
+const REVERSE_SHARE = 0.5;
+
+// Learning words a themed puzzle picks its cluster from
+const THEME_CANDIDATES = 200;
+
+// Word ids fetched per request when sampling the user's words (max_rows)
+const ID_PAGE_SIZE = 1000;
+
+// Fixed layout grid sizes (N×N)
+const MIN_GRID_SIZE = 3;
+const MAX_GRID_SIZE = 15;
+
+// Parallel definition lookups when looking up clues for filler words
+const LOOKUP_CONCURRENCY = 4;
+
 interface PuzzleConfig {
   user_id: string;
   difficulty: number;
-  grid_size: number;
+  grid_size?: number; // N×N grid completed with filler words; free-form layout when omitted
   user_words_count: number;
   include_reverse_clues?: boolean;
+  themed?: boolean; // Use a cluster of related words and name the theme
+  seed?: number;
 }
 
 serve(async (req) => {
@@ -30,52 +76,145 @@ serve(async (req) => {
         },
       }
     );
+    // For the shared tables (definitions and clue statistics) and for saving
+    // the puzzle and its answers
+    const serviceClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
 
     const config: PuzzleConfig = await req.json();
 
-    // Get user's words for the puzzle
-    const { data: userWords, error: wordsError } = await supabaseClient
+    // The puzzle is saved with the service role, so it must be for the caller
+    const { data: { user } } = await supabaseClient.auth.getUser();
+    if (!user || user.id !== config.user_id) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 401,
+      });
+    }
+
+    if (config.grid_size && (config.grid_size < MIN_GRID_SIZE || config.grid_size > MAX_GRID_SIZE)) {
+      throw new Error(`grid_size must be between ${MIN_GRID_SIZE} and ${MAX_GRID_SIZE}`);
+    }
+    const seed = config.seed ?? randomSeed();
+    const random = createRng(seed);
+
+    // Sample the user's learning words across the whole list (ids in a
+    // stable order so a seed reproduces the sample), then load the sample
+    const wordIds = shuffle(await learningWordIds(supabaseClient, config.user_id), random)
+      .slice(0, config.themed ? THEME_CANDIDATES : config.user_words_count);
+
+    const { data: sampledWords, error: wordsError } = await supabaseClient
       .from('words')
       .select('*, word_definitions(*)')
-      .eq('user_id', config.user_id)
-      .eq('status', 'learning')
-      .limit(config.user_words_count);
+      .in('id', wordIds);
 
     if (wordsError) throw wordsError;
+    const userWords = wordIds
+      .map((id) => (sampledWords || []).find((w: any) => w.id === id))
+      .filter((w) => w !== undefined);
 
-    // Select random words
-    const selectedWords = userWords
-      ?.sort(() => Math.random() - 0.5)
-      .slice(0, config.user_words_count) || [];
+    // Themed puzzles use the most closely related words; otherwise (or when
+    // too few words have embeddings) select random words
+    const theme = config.themed
+      ? await selectTheme(supabaseClient, userWords, config.user_words_count)
+      : null;
+    const candidateWords = theme ? theme.items : userWords.slice(0, config.user_words_count);
 
-    // Generate puzzle grid (simplified algorithm)
-    const puzzle = await generateCrosswordGrid(
-      selectedWords,
-      config.grid_size,
-      config.difficulty
+    // Get clues for each word from the clue bank, skipping the ones the
+    // user saw in their previous puzzle
+    const clueBank = createClueBank(supabaseClient);
+    const sharedClueBank = createClueBank(serviceClient); // Writes to the shared clues table
+    const recentClueIds = await clueBank.recentClueIds(config.user_id);
+    const bankClues = await clueBank.cluesFor(
+      candidateWords.map((w: any) => w.word_definition_id).filter((id) => id != null)
     );
 
-    // Get clues for each word
-    const cluesAcross = await getCluesForWords(
-      supabaseClient,
+    // Words with no clues in the bank yet get variants derived from their definition
+    for (const word of candidateWords as any[]) {
+      const definition = word.word_definitions;
+      if (!definition || bankClues.has(definition.id)) continue;
+
+      const derived = deriveClues(definition);
+      if (derived.length === 0) continue;
+      try {
+        bankClues.set(definition.id, await sharedClueBank.addDerivedClues(definition.id, derived));
+      } catch (clueError) {
+        console.error(`[GeneratePuzzle] Failed to store clues for "${definition.word}":`, clueError);
+      }
+    }
+
+    // A word nothing can clue is left out rather than clued with itself
+    const selectedWords: any[] = [];
+    const uncluedWords: RejectedWord[] = [];
+    for (const word of candidateWords as any[]) {
+      if (bankClues.has(word.word_definition_id) || deriveClues(clueSourceOf(word)).length > 0) {
+        selectedWords.push(word);
+      } else {
+        uncluedWords.push({ word: word.word, reason: 'No definition to clue it with' });
+      }
+    }
+
+    // Reverse clues: for some words a synonym or short gloss is the answer
+    // and the word itself is in the clue
+    const reverseClues = new Map<number, ReverseClue>();
+    if (config.include_reverse_clues) {
+      for (const word of selectedWords as any[]) {
+        if (random() >= REVERSE_SHARE) continue;
+        const reverse = deriveReverseClue(clueSourceOf(word));
+        if (reverse) reverseClues.set(word.id, reverse);
+      }
+    }
+
+    // Generate puzzle grid with the shared crossword generator
+    const startTime = Date.now();
+    const puzzle = await generateCrosswordGrid(selectedWords, seed, reverseClues, {
+      gridSize: config.grid_size,
+      difficulty: config.difficulty,
+      lookupClues: fillerClueLookup(serviceClient, config.difficulty),
+    });
+    const generationTimeMs = Date.now() - startTime;
+
+    const placedAcross = getCluesForWords(
       puzzle.wordsAcross,
-      config.difficulty,
-      config.include_reverse_clues
+      selectedWords,
+      bankClues,
+      recentClueIds,
+      reverseClues,
+      config.difficulty
     );
 
-    const cluesDown = await getCluesForWords(
-      supabaseClient,
+    const placedDown = getCluesForWords(
       puzzle.wordsDown,
-      config.difficulty,
-      config.include_reverse_clues
+      selectedWords,
+      bankClues,
+      recentClueIds,
+      reverseClues,
+      config.difficulty
     );
 
-    // Save puzzle to database
-    const { data: savedPuzzle, error: saveError } = await supabaseClient
+    // A clue that gives away its answer or another answer is swapped for
+    // another of the word's clues, or else the answer is masked with "~"
+    const clueVariants = (clue: any) => {
+      const userWord = (selectedWords as any[]).find((w) => w.word === clue.user_word);
+      if (!userWord || clue.reverse) return [];
+      return [
+        ...(bankClues.get(userWord.word_definition_id) || []).map((b) => ({ ...clue, clue: b.clue_text, clue_id: b.id })),
+        ...deriveClues(clueSourceOf(userWord)).map((d) => ({ ...clue, clue: d.clue_text, clue_id: null })),
+      ];
+    };
+    const checkedClues = fixClueLeaks([...placedAcross, ...placedDown], clueVariants);
+    const cluesAcross = checkedClues.filter((c) => c.direction === 'across');
+    const cluesDown = checkedClues.filter((c) => c.direction === 'down');
+
+    // Save the puzzle without its answers, which go to puzzle_solutions.
+    // Users can't write either table; the service role saves both.
+    const { data: savedPuzzle, error: saveError } = await serviceClient
       .from('puzzles')
-      .insert({
+      .insert(withoutAnswers({
         user_id: config.user_id,
-        grid_size: config.grid_size,
+        grid_size: puzzle.size, // The free-form layout's size follows from the words
         difficulty: config.difficulty,
         grid_data: {
           grid: puzzle.grid,
@@ -83,18 +222,47 @@ serve(async (req) => {
         },
         clues_across: cluesAcross,
         clues_down: cluesDown,
-        user_words: selectedWords.map(w => w.word),
-        filler_words: puzzle.fillerWords,
         generation_method: 'algorithm',
+        generation_time_ms: generationTimeMs,
+        seed,
+        theme: theme?.name ?? null,
         status: 'active',
-      })
+      }))
       .select()
       .single();
 
     if (saveError) throw saveError;
 
+    const { error: solutionError } = await serviceClient
+      .from('puzzle_solutions')
+      .insert({
+        puzzle_id: savedPuzzle.id,
+        grid: puzzle.grid,
+        clues_across: cluesAcross,
+        clues_down: cluesDown,
+        user_words: puzzle.userWords,
+        filler_words: puzzle.fillerWords,
+      });
+
+    if (solutionError) {
+      // A puzzle without answers can't be graded
+      await serviceClient.from('puzzles').delete().eq('id', savedPuzzle.id);
+      throw solutionError;
+    }
+
+    // The puzzle is saved either way; usage counts only steer clue selection
+    const usedClueIds = [...cluesAcross, ...cluesDown]
+      .map((c) => c.clue_id)
+      .filter((id): id is number => id != null);
+    try {
+      await sharedClueBank.recordUsage(usedClueIds);
+    } catch (usageError) {
+      console.error('[GeneratePuzzle] Failed to record clue usage:', usageError);
+    }
+
+    // Answers stay on the server; check-answer grades the attempt
     return new Response(
-      JSON.stringify({ puzzle: savedPuzzle }),
+      JSON.stringify({ puzzle: savedPuzzle, rejected_words: [...uncluedWords, ...puzzle.rejectedWords] }),
       {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
         status: 200,
@@ -111,78 +279,262 @@ serve(async (req) => {
   }
 });
 
-// Simplified crossword generation algorithm
+// Ids of all the user's learning words, in id order (paged, since a
+// request returns at most max_rows rows)
+async function learningWordIds(supabaseClient: any, userId: string): Promise<number[]> {
+  const ids: number[] = [];
+  for (let from = 0; ; from += ID_PAGE_SIZE) {
+    const { data, error } = await supabaseClient
+      .from('words')
+      .select('id')
+      .eq('user_id', userId)
+      .eq('status', 'learning')
+      .order('id', { ascending: true })
+      .range(from, from + ID_PAGE_SIZE - 1);
+
+    if (error) throw error;
+    ids.push(...(data || []).map((w: any) => w.id));
+    if (!data || data.length < ID_PAGE_SIZE) return ids;
+  }
+}
+
+// Cluster of related words by their definitions' embeddings; only vectors
+// of the most common model are compared
+async function selectTheme(supabaseClient: any, words: any[], size: number) {
+  const definitionIds = words.map((w) => w.word_definition_id).filter((id) => id != null);
+  if (definitionIds.length < size) return null;
+
+  const { data: embeddings, error } = await supabaseClient
+    .from('word_embeddings')
+    .select('word_definition_id, embedding, model')
+    .in('word_definition_id', definitionIds);
+
+  if (error) throw error;
+
+  const modelCounts = new Map<string, number>();
+  for (const e of embeddings || []) {
+    modelCounts.set(e.model, (modelCounts.get(e.model) || 0) + 1);
+  }
+  const [model] = [...modelCounts.entries()].sort((a, b) => b[1] - a[1])[0] || [];
+
+  const vectors = new Map<number, number[]>();
+  for (const e of embeddings || []) {
+    const vector = parseVector(e.embedding);
+    if (vector && e.model === model) vectors.set(e.word_definition_id, vector);
+  }
+
+  return findTheme(
+    words
+      .filter((w) => vectors.has(w.word_definition_id))
+      .map((w) => ({
+        item: w,
+        word: w.word,
+        vector: vectors.get(w.word_definition_id)!,
+        text: primarySense(w)?.definition || w.word_definitions?.definition || '',
+      })),
+    size
+  );
+}
+
+// Definition data of a user word, with the sense they're learning
+function clueSourceOf(userWord: any): ClueSource {
+  const sense = primarySense(userWord);
+  return {
+    ...userWord.word_definitions,
+    word: userWord.word,
+    definition: sense?.definition ?? userWord.word_definitions?.definition,
+    part_of_speech: sense?.part_of_speech ?? userWord.word_definitions?.part_of_speech,
+    usage_example: sense?.example ?? userWord.word_definitions?.usage_example,
+  };
+}
+
+let fillerLexicon: FillerLexicon | null = null;
+
+// The shared filler word list (parsed once per instance, on first use)
+function getFillerLexicon(): FillerLexicon {
+  if (!fillerLexicon) {
+    fillerLexicon = FillerLexicon.fromList(fillerWords);
+  }
+  return fillerLexicon;
+}
+
+// Clues for filler answers, derived from their definitions (the shared
+// table, then Free Dictionary). Answers without a definition are left out.
+// Only the service role may save new definitions to the table.
+function fillerClueLookup(serviceClient: any, difficulty: number) {
+  const chain = new DefinitionChain([
+    createWordDefinitionsProvider(serviceClient),
+    createFreeDictionaryProvider(),
+  ]);
+
+  return async (answers: string[]) => {
+    const clues = new Map<string, string>();
+    const queue = [...answers];
+
+    const worker = async () => {
+      while (queue.length > 0) {
+        const answer = queue.shift()!;
+        const lookup = await chain.lookup(answer.toLowerCase());
+        if (lookup.status !== 'success') continue;
+        const clue = pickClue(deriveClues({ ...lookup.result, word: answer }), difficulty);
+        if (clue) clues.set(answer, clue.clue_text);
+      }
+    };
+
+    await Promise.all(Array.from({ length: LOOKUP_CONCURRENCY }, worker));
+    return clues;
+  };
+}
+
+// Build the crossword with the same generator the app uses: an N×N grid
+// completed with filler words when a grid size is given, else free-form
 async function generateCrosswordGrid(
   words: any[],
-  gridSize: number,
-  difficulty: number
+  seed: number,
+  reverseClues: Map<number, ReverseClue>,
+  options: {
+    gridSize?: number;
+    difficulty: number;
+    lookupClues: (answers: string[]) => Promise<Map<string, string>>;
+  }
 ) {
-  // This is a simplified placeholder
-  // Real implementation would use constraint satisfaction algorithm
-  
-  const grid: string[][] = Array(gridSize).fill(null).map(() => 
-    Array(gridSize).fill('')
-  );
+  const originals = new Map<string, string>();
+  const inputs: WordInput[] = [];
+  for (const wordData of words) {
+    // A reverse-clued word is placed as its synonym or gloss
+    const reverse = reverseClues.get(wordData.id);
+    const entry = reverse ? reverse.answer : wordData.word;
+    const answer = toAnswer(entry);
+    if (answer && originals.has(answer)) continue;
+    originals.set(answer, wordData.word);
 
-  const wordsAcross: any[] = [];
-  const wordsDown: any[] = [];
-  const blackSquares: [number, number][] = [];
-  const fillerWords: string[] = ['ERA', 'AGE', 'ART', 'ORE']; // Example filler words
-
-  // Place words on grid (simplified)
-  words.forEach((wordData, idx) => {
-    const word = wordData.word.toUpperCase();
-    const row = Math.floor(idx * 2) % (gridSize - word.length);
-    const col = 0;
-    
-    // Place horizontally
-    for (let i = 0; i < word.length; i++) {
-      grid[row][col + i] = word[i];
+    // Words saved as their lemma may be placed in the form they were read in;
+    // the generator normalizes phrases and accents and rejects what it can't
+    const originalForm = reverse ? undefined : wordData.import_context?.original_form;
+    inputs.push({ word: entry, clue: '', forms: originalForm ? [originalForm] : undefined });
+  }
+
+  let puzzle: PuzzleGrid | null = null;
+  if (options.gridSize) {
+    // Easier puzzles keep obscure fill and crosswordese out of the grid,
+    // unless the common words alone can't complete it
+    const minFillerScores = options.difficulty <= 3 ? [55, 35, 0] : options.difficulty <= 6 ? [35, 0] : [0];
+    for (const minScore of minFillerScores) {
+      puzzle = await generateFilledCrosswordWithClues(inputs, {
+        size: options.gridSize,
+        source: getFillerLexicon().withMinScore(minScore),
+        seed,
+        lookupClues: options.lookupClues,
+      });
+      if (puzzle) break;
+    }
+    if (!puzzle) {
+      console.error(`[GeneratePuzzle] Could not fill a ${options.gridSize}x${options.gridSize} grid, using the free-form layout`);
     }
+  }
 
-    wordsAcross.push({
-      number: idx + 1,
-      word: word,
-      row,
-      col,
-      length: word.length,
-      is_user_word: true,
-    });
+  puzzle = puzzle || generateCrossword(inputs, { mode: 'backtrack', seed });
+  if (!puzzle) {
+    throw new Error('Could not build a crossword from the selected words');
+  }
+
+  // Empty cells of the compacted grid become black squares
+  const blackSquares: [number, number][] = [];
+  const grid: string[][] = puzzle.grid.map((row, r) =>
+    row.map((cell, c) => {
+      if (cell === null) {
+        blackSquares.push([r, c]);
+        return '';
+      }
+      return cell;
+    })
+  );
+
+  const toWordData = (word: PlacedWord) => ({
+    number: word.number,
+    word: word.answer,
+    row: word.startRow,
+    col: word.startCol,
+    length: word.answer.length,
+    enumeration: word.enumeration,
+    direction: word.direction,
+    is_user_word: word.isUserWord !== false,
+    filler_clue: word.isUserWord === false ? word.clue : null,
   });
 
   return {
+    size: puzzle.size,
     grid,
-    wordsAcross,
-    wordsDown,
+    wordsAcross: puzzle.words.filter((w) => w.direction === 'across').map(toWordData),
+    wordsDown: puzzle.words.filter((w) => w.direction === 'down').map(toWordData),
     blackSquares,
-    fillerWords,
+    userWords: puzzle.words
+      .filter((w) => w.isUserWord !== false)
+      .map((w) => originals.get(w.word) ?? w.word),
+    fillerWords: puzzle.words.filter((w) => w.isUserWord === false).map((w) => w.answer),
+    rejectedWords: puzzle.rejectedWords || [],
   };
 }
 
-// Get clues for words
-async function getCluesForWords(
-  supabaseClient: any,
+// Get clues for words from the clue bank. A sense the user picked over the
+// first one is always clued; otherwise the bank is preferred, then a clue
+// derived from the sense they're learning. Reverse-clued words get their
+// reverse clue. Each clue names the user word it credits (user_word).
+function getCluesForWords(
   words: any[],
-  difficulty: number,
-  includeReverse: boolean = false
+  userWords: any[],
+  bankClues: Map<number, BankClue[]>,
+  recentClueIds: Set<number>,
+  reverseClues: Map<number, ReverseClue>,
+  difficulty: number
 ) {
   const clues = [];
+  const userWordsByAnswer = new Map<string, any>();
+  for (const userWord of userWords) {
+    userWordsByAnswer.set(toAnswer(userWord.word), userWord);
+    if (userWord.import_context?.original_form) {
+      userWordsByAnswer.set(toAnswer(userWord.import_context.original_form), userWord);
+    }
+  }
+  for (const userWord of userWords) {
+    const reverse = reverseClues.get(userWord.id);
+    if (reverse) {
+      userWordsByAnswer.set(toAnswer(reverse.answer), userWord);
+    }
+  }
 
   for (const wordData of words) {
-    // Try to get clue from database
-    const { data: existingClue } = await supabaseClient
-      .from('clues')
-      .select('*, word_definitions(*)')
-      .eq('word_definitions.word_lower', wordData.word.toLowerCase())
-      .gte('difficulty_level', difficulty - 2)
-      .lte('difficulty_level', difficulty + 2)
-      .limit(1)
-      .single();
+    const userWord = userWordsByAnswer.get(wordData.word);
+    const reverse = userWord ? reverseClues.get(userWord.id) : undefined;
+
+    if (reverse && toAnswer(reverse.answer) === wordData.word) {
+      clues.push({
+        number: wordData.number,
+        clue: reverse.clue_text,
+        answer: wordData.word,
+        row: wordData.row,
+        col: wordData.col,
+        length: wordData.length,
+        enumeration: wordData.enumeration,
+        clue_id: null,
+        user_word: userWord.word,
+        reverse: true,
+        is_user_word: wordData.is_user_word,
+        direction: wordData.direction,
+      });
+      continue;
+    }
+
+    const senseClue = userWord ? pickClue(deriveClues(clueSourceOf(userWord)), difficulty) : null;
+    const pickedSense = (userWord?.primary_sense ?? 0) > 0;
 
-    let clueText = existingClue?.clue_text || `Definition: ${wordData.word}`;
+    const bankClue = pickedSense && senseClue
+      ? null
+      : chooseClue(bankClues.get(userWord?.word_definition_id) || [], difficulty, recentClueIds);
 
-    // TODO: Generate AI clue if no existing clue found
-    // Call OpenAI/Claude API here
+    // A word without any clue is clued by its enumeration alone (shown next
+    // to every clue); the answer itself never goes in the clue
+    const clueText = bankClue?.clue_text || senseClue?.clue_text || wordData.filler_clue || 'Unclued';
 
     clues.push({
       number: wordData.number,
@@ -191,8 +543,12 @@ async function getCluesForWords(
       row: wordData.row,
       col: wordData.col,
       length: wordData.length,
+      enumeration: wordData.enumeration,
+      clue_id: bankClue?.id ?? null,
+      user_word: userWord?.word ?? null,
+      reverse: false,
       is_user_word: wordData.is_user_word,
-      direction: 'across', // or 'down'
+      direction: wordData.direction,
     });
   }
 
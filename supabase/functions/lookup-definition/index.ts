@@ -0,0 +1,88 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { DefinitionChain } from '../_shared/definitions/definitionChain.ts';
+import { createFreeDictionaryProvider } from '../_shared/definitions/freeDictionary.ts';
+import { createWordDefinitionsProvider } from '../_shared/definitions/wordDefinitionsTable.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface LookupRequest {
+  word: string;
+}
+
+// Same limit as imported words
+const MAX_WORD_LENGTH = 64;
+
+/**
+ * Look a word up in word_definitions, then in the dictionaries. Definitions
+ * found in a dictionary are saved to word_definitions with the service role,
+ * so the shared table only holds what the server fetched itself.
+ * Responds with { status: 'success', result } or { status: 'not_found' };
+ * when no dictionary could be reached the status is 503.
+ */
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const userClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: { Authorization: req.headers.get('Authorization')! },
+        },
+      }
+    );
+
+    // Writes as the service role, so only signed-in users may call it
+    const { data: { user } } = await userClient.auth.getUser();
+    if (!user) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 401,
+      });
+    }
+
+    const request: LookupRequest = await req.json();
+    const word = String(request.word ?? '').trim();
+    if (!word || word.length > MAX_WORD_LENGTH) {
+      throw new Error(`word is required (at most ${MAX_WORD_LENGTH} characters)`);
+    }
+
+    const serviceClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+    const chain = new DefinitionChain([
+      createWordDefinitionsProvider(serviceClient),
+      createFreeDictionaryProvider(),
+    ]);
+
+    const lookup = await chain.lookup(word);
+    if (lookup.status === 'error') {
+      console.error(`[LookupDefinition] Lookup of "${word}" failed:`, lookup.error);
+    }
+
+    return new Response(
+      JSON.stringify(lookup.status === 'error' ? { error: lookup.error } : lookup),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: lookup.status === 'error' ? 503 : 200,
+      }
+    );
+  } catch (error) {
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 400,
+      }
+    );
+  }
+});
@@ -0,0 +1,97 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { DefinitionChain } from '../_shared/definitions/definitionChain.ts';
+import { definitionFetchFields } from '../_shared/definitions/definitionFetch.ts';
+import { createFreeDictionaryProvider } from '../_shared/definitions/freeDictionary.ts';
+import { createWordDefinitionsProvider } from '../_shared/definitions/wordDefinitionsTable.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Words retried per run; the schedule picks up the rest on the next run
+const BATCH_SIZE = 50;
+const LOOKUP_CONCURRENCY = 4;
+
+/**
+ * Retry definition lookups for words left 'pending' or 'failed' (usually a
+ * network error when the word was added) whose backoff has expired.
+ * Runs on a schedule with the service role key; see docs/SUPABASE_SETUP.md.
+ */
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+
+    // Works across all users, so only the scheduler (service role) may call it
+    if (!serviceRoleKey || req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 401,
+      });
+    }
+
+    const supabaseClient = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceRoleKey);
+
+    const now = new Date();
+    const { data: words, error } = await supabaseClient
+      .from('words')
+      .select('id, word, fetch_attempts')
+      .in('fetch_status', ['pending', 'failed'])
+      .or(`next_fetch_at.is.null,next_fetch_at.lte.${now.toISOString()}`)
+      .order('next_fetch_at', { ascending: true, nullsFirst: true })
+      .limit(BATCH_SIZE);
+
+    if (error) throw error;
+
+    const chain = new DefinitionChain([
+      createWordDefinitionsProvider(supabaseClient),
+      createFreeDictionaryProvider(),
+    ]);
+
+    const summary = { processed: 0, success: 0, not_found: 0, failed: 0 };
+    const queue = [...(words || [])];
+
+    const worker = async () => {
+      while (queue.length > 0) {
+        const word = queue.shift()!;
+        const lookup = await chain.lookup(word.word);
+        const fields = definitionFetchFields(lookup, word.fetch_attempts || 0, now);
+
+        const { error: updateError } = await supabaseClient
+          .from('words')
+          .update(fields)
+          .eq('id', word.id);
+
+        if (updateError) {
+          console.error(`[RetryDefinitions] Failed to update word ${word.id}:`, updateError);
+          continue;
+        }
+
+        summary.processed++;
+        if (fields.fetch_status === 'success') summary.success++;
+        else if (fields.fetch_status === 'not_found') summary.not_found++;
+        else summary.failed++;
+      }
+    };
+
+    await Promise.all(Array.from({ length: LOOKUP_CONCURRENCY }, worker));
+
+    console.log('[RetryDefinitions] Done:', summary);
+
+    return new Response(JSON.stringify(summary), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status: 200,
+    });
+  } catch (error) {
+    return new Response(JSON.stringify({ error: error.message }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status: 400,
+    });
+  }
+});
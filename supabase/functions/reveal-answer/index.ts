@@ -0,0 +1,84 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import {
+  buildEntries,
+  fetchSolution,
+  ScopeRequest,
+  selectScope,
+  solutionLetters,
+} from '../_shared/puzzleAnswers.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface RevealRequest extends ScopeRequest {
+  puzzle_id: number;
+  attempt_id: number;
+}
+
+// The letters of a square, a word or the whole puzzle. The app counts the
+// reveal and marks revealed words on the attempt itself.
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: { Authorization: req.headers.get('Authorization')! },
+        },
+      }
+    );
+
+    // Answers are only readable with the service role
+    const serviceClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const request: RevealRequest = await req.json();
+
+    // Only reveal answers of a puzzle the user is playing
+    const { data: attempt, error: attemptError } = await supabaseClient
+      .from('puzzle_attempts')
+      .select('id, user_id, puzzle_id')
+      .eq('id', request.attempt_id)
+      .eq('puzzle_id', request.puzzle_id)
+      .single();
+
+    if (attemptError) throw attemptError;
+
+    const puzzle = await fetchSolution(serviceClient, attempt.puzzle_id, attempt.user_id);
+    const entries = buildEntries([...puzzle.clues_across, ...puzzle.clues_down]);
+    const { cells } = selectScope(entries, request);
+
+    const solution = solutionLetters(entries);
+    const letters: Record<string, string> = {};
+    for (const [row, col] of cells) {
+      letters[`${row},${col}`] = solution.get(`${row},${col}`)!;
+    }
+
+    return new Response(
+      JSON.stringify({ letters }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      }
+    );
+  } catch (error) {
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 400,
+      }
+    );
+  }
+});
@@ -0,0 +1,227 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { createClueBank } from '../_shared/clues/clueBank.ts';
+import { toAnswer } from '../_shared/crossword/crosswordEntry.ts';
+import { buildEntries, enteredLetters, fetchSolution } from '../_shared/puzzleAnswers.ts';
+import {
+  INITIAL_REVIEW_STATE,
+  masteryLevel,
+  qualityFromOutcome,
+  ReviewOutcome,
+  scheduleReview,
+} from '../_shared/spacedRepetition.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface ProgressRequest {
+  user_id: string;
+  puzzle_id: number;
+  attempt_id: number;
+}
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: { Authorization: req.headers.get('Authorization')! },
+        },
+      }
+    );
+
+    // Answers are only readable with the service role
+    const serviceClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const request: ProgressRequest = await req.json();
+
+    const { data: attempt, error: attemptError } = await supabaseClient
+      .from('puzzle_attempts')
+      .select('id, user_id, puzzle_id, completed, current_grid, word_results')
+      .eq('id', request.attempt_id)
+      .eq('puzzle_id', request.puzzle_id)
+      .single();
+
+    if (attemptError) throw attemptError;
+    if (!attempt.completed) {
+      throw new Error('Attempt is not completed yet');
+    }
+
+    const puzzle = await fetchSolution(serviceClient, attempt.puzzle_id, attempt.user_id);
+    const allClues = [...puzzle.clues_across, ...puzzle.clues_down];
+    const allEntries = buildEntries(allClues);
+    const entries = allEntries.filter((e) => e.isUserWord);
+
+    // Map answers back to the user's word rows: by the word a clue credits
+    // (reverse clues answer with a synonym), else by answer ("ice cream" ->
+    // ICECREAM), also from the form a lemma was read in ("obfuscated" -> obfuscate)
+    const { data: words, error: wordsError } = await supabaseClient
+      .from('words')
+      .select('id, word, status, mastery_level, import_context')
+      .eq('user_id', attempt.user_id)
+      .in('word', puzzle.user_words || []);
+
+    if (wordsError) throw wordsError;
+
+    const wordsByText = new Map<string, any>((words || []).map((w: any) => [w.word, w]));
+    const wordsByAnswer = new Map<string, any>();
+    for (const word of words || []) {
+      wordsByAnswer.set(toAnswer(word.word), word);
+    }
+    for (const word of words || []) {
+      const originalForm = word.import_context?.original_form;
+      const answer = originalForm ? toAnswer(String(originalForm)) : '';
+      if (answer && !wordsByAnswer.has(answer)) {
+        wordsByAnswer.set(answer, word);
+      }
+    }
+
+    // Strongest hint used per clue
+    const { data: hints, error: hintsError } = await supabaseClient
+      .from('puzzle_hints')
+      .select('clue_number, direction, hint_level')
+      .eq('puzzle_attempt_id', attempt.id);
+
+    if (hintsError) throw hintsError;
+
+    const hintLevels = new Map<string, number>();
+    for (const hint of hints || []) {
+      const key = `${hint.clue_number}-${hint.direction}`;
+      hintLevels.set(key, Math.max(hintLevels.get(key) || 0, hint.hint_level));
+    }
+
+    const now = new Date();
+    const grades = [];
+
+    for (const entry of entries) {
+      const clue = allClues.find(
+        (c: any) => c.number === entry.number && c.direction === entry.direction
+      );
+      const word = (clue?.user_word && wordsByText.get(clue.user_word)) || wordsByAnswer.get(entry.answer);
+      if (!word) continue;
+
+      const result = attempt.word_results?.[entry.key];
+      const hintLevel = hintLevels.get(entry.key) || 0;
+      const wrongChecks = result?.wrong_checks || 0;
+      const solved = enteredLetters(entry, attempt.current_grid || {}).join('') === entry.answer;
+
+      let outcome: ReviewOutcome;
+      if (result?.revealed) {
+        outcome = 'revealed';
+      } else if (!solved) {
+        outcome = 'wrong';
+      } else {
+        outcome = hintLevel > 0 ? 'solved_with_hints' : 'solved';
+      }
+
+      const quality = qualityFromOutcome(outcome, { hintLevel, wrongChecks });
+
+      const { data: progress, error: progressError } = await supabaseClient
+        .from('learning_progress')
+        .select('easiness_factor, interval_days, repetitions, stage')
+        .eq('user_id', attempt.user_id)
+        .eq('word_id', word.id)
+        .maybeSingle();
+
+      if (progressError) throw progressError;
+
+      const schedule = scheduleReview(
+        progress
+          ? {
+              easiness_factor: Number(progress.easiness_factor),
+              interval_days: progress.interval_days,
+              repetitions: progress.repetitions,
+              stage: progress.stage,
+            }
+          : INITIAL_REVIEW_STATE,
+        quality,
+        now
+      );
+
+      grades.push({
+        word_id: word.id,
+        ...schedule,
+        mastery_level: masteryLevel(schedule),
+        was_correct: quality >= 3,
+        interaction_type: outcome,
+        clue_used: clue?.clue,
+        attempts_count: Math.max(1, result?.checks || 0),
+        quality,
+      });
+    }
+
+    // Progress, interactions and words are saved in one transaction; an
+    // attempt that was already graded is left as it is
+    const { data: graded, error: gradeError } = await supabaseClient.rpc('grade_puzzle_attempt', {
+      p_attempt_id: attempt.id,
+      p_grades: grades,
+    });
+
+    if (gradeError) throw gradeError;
+
+    // Feed solve outcomes back into the clue bank; learning progress is
+    // already saved, so a failure here only loses clue statistics (outcomes
+    // are recorded once per attempt, so a retried call fills in the gaps)
+    const clueBank = createClueBank(supabaseClient);
+    for (const entry of allEntries) {
+      const clue = allClues.find(
+        (c: any) => c.number === entry.number && c.direction === entry.direction
+      );
+      if (clue?.clue_id == null) continue;
+
+      const result = attempt.word_results?.[entry.key];
+      const solved =
+        !result?.revealed &&
+        enteredLetters(entry, attempt.current_grid || {}).join('') === entry.answer;
+
+      try {
+        await clueBank.recordOutcome({
+          clue_id: clue.clue_id,
+          attempt_id: attempt.id,
+          solved,
+          solve_time_seconds: solved ? result?.solve_seconds : undefined,
+        });
+      } catch (outcomeError) {
+        console.error(`[UpdateLearningProgress] Failed to record outcome of clue ${clue.clue_id}:`, outcomeError);
+      }
+    }
+
+    const updated = graded
+      ? grades.map((g) => ({
+          word_id: g.word_id,
+          outcome: g.interaction_type,
+          quality: g.quality,
+          stage: g.stage,
+          next_review_at: g.next_review_at,
+        }))
+      : [];
+
+    return new Response(
+      JSON.stringify({ updated, skipped: !graded }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      }
+    );
+  } catch (error) {
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 400,
+      }
+    );
+  }
+});
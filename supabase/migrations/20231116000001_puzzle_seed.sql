@@ -0,0 +1,7 @@
+-- Store the PRNG seed used to generate each puzzle
+-- Run this migration after 20231115000001_simplify_words_schema.sql
+
+ALTER TABLE puzzles
+ADD COLUMN seed BIGINT CHECK (seed >= 0 AND seed <= 4294967295);
+
+COMMENT ON COLUMN puzzles.seed IS 'Seed for the puzzle generator; the same seed and words regenerate the same puzzle';
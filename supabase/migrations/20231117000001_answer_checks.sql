@@ -0,0 +1,8 @@
+-- Per-word answer check results for puzzle attempts
+-- Run this migration after 20231116000001_puzzle_seed.sql
+
+ALTER TABLE puzzle_attempts
+ADD COLUMN word_results JSONB DEFAULT '{}'::jsonb;
+
+COMMENT ON COLUMN puzzle_attempts.word_results IS 'Latest check result per word, keyed "<number>-<direction>": { correct, checks, wrong_checks }';
+COMMENT ON COLUMN puzzle_attempts.current_grid IS 'Letters entered so far, keyed "<row>,<col>"';
@@ -0,0 +1,29 @@
+-- Record every hint given during a puzzle attempt
+-- Run this migration after 20231117000001_answer_checks.sql
+
+CREATE TABLE puzzle_hints (
+    id BIGSERIAL PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    puzzle_attempt_id INTEGER NOT NULL REFERENCES puzzle_attempts(id) ON DELETE CASCADE,
+    clue_number INTEGER NOT NULL,
+    direction VARCHAR(10) NOT NULL CHECK (direction IN ('across', 'down')),
+    answer VARCHAR(255) NOT NULL,
+
+    -- 1 = part of speech, 2 = first letter, 3 = usage example, 4 = synonyms
+    hint_level INTEGER NOT NULL CHECK (hint_level >= 1 AND hint_level <= 4),
+    hint_type VARCHAR(50) NOT NULL CHECK (hint_type IN ('part_of_speech', 'first_letter', 'usage_example', 'synonyms')),
+
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_puzzle_hints_attempt ON puzzle_hints(puzzle_attempt_id, clue_number, direction);
+
+ALTER TABLE puzzle_hints ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own puzzle hints"
+    ON puzzle_hints FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own puzzle hints"
+    ON puzzle_hints FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
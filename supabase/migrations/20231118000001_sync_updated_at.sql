@@ -0,0 +1,21 @@
+-- updated_at on every table the app mirrors offline
+-- Run this migration after 20231117000002_puzzle_hints.sql
+--
+-- The mobile sync engine resolves conflicting edits per field by comparing
+-- the time of the local edit with the row's updated_at.
+
+ALTER TABLE words
+ADD COLUMN updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+
+ALTER TABLE puzzles
+ADD COLUMN updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+
+CREATE TRIGGER update_words_updated_at
+    BEFORE UPDATE ON words
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_puzzles_updated_at
+    BEFORE UPDATE ON puzzles
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,59 @@
+-- Let the app fill the global word_definitions table
+-- Run this migration after 20231118000001_sync_updated_at.sql
+--
+-- word_definitions stays read-only for users; definitions found in external
+-- dictionaries are added through cache_word_definition, which returns the
+-- id of the new (or already cached) row for words.word_definition_id.
+
+CREATE OR REPLACE FUNCTION cache_word_definition(
+    p_word TEXT,
+    p_definition TEXT,
+    p_part_of_speech TEXT DEFAULT NULL,
+    p_pronunciation TEXT DEFAULT NULL,
+    p_usage_example TEXT DEFAULT NULL,
+    p_synonyms TEXT[] DEFAULT NULL,
+    p_antonyms TEXT[] DEFAULT NULL,
+    p_source TEXT DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+    definition_id INTEGER;
+BEGIN
+    IF TRIM(COALESCE(p_word, '')) = '' OR TRIM(COALESCE(p_definition, '')) = '' THEN
+        RAISE EXCEPTION 'word and definition are required';
+    END IF;
+
+    SELECT id INTO definition_id
+    FROM word_definitions
+    WHERE word_lower = LOWER(TRIM(p_word))
+    ORDER BY id
+    LIMIT 1;
+
+    IF definition_id IS NOT NULL THEN
+        RETURN definition_id;
+    END IF;
+
+    INSERT INTO word_definitions (
+        word, word_lower, definition, part_of_speech, pronunciation,
+        usage_example, synonyms, antonyms, source
+    )
+    VALUES (
+        TRIM(p_word),
+        LOWER(TRIM(p_word)),
+        p_definition,
+        LEFT(p_part_of_speech, 50),
+        LEFT(p_pronunciation, 255),
+        p_usage_example,
+        p_synonyms,
+        p_antonyms,
+        LEFT(p_source, 255)
+    )
+    ON CONFLICT (word) DO UPDATE SET word = EXCLUDED.word
+    RETURNING id INTO definition_id;
+
+    RETURN definition_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION cache_word_definition FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION cache_word_definition TO authenticated, service_role;
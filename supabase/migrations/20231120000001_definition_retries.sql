@@ -0,0 +1,17 @@
+-- Retry state for definition lookups
+-- Run this migration after 20231119000001_cache_word_definitions.sql
+--
+-- Words whose lookup failed (usually offline) are retried with exponential
+-- backoff by the retry-definitions edge function and the app, and marked
+-- not_found after too many attempts.
+
+ALTER TABLE words
+ADD COLUMN fetch_attempts INTEGER DEFAULT 0,
+ADD COLUMN next_fetch_at TIMESTAMP WITH TIME ZONE;
+
+-- Words waiting for a retry, soonest first
+CREATE INDEX idx_words_definition_retry ON words(next_fetch_at)
+    WHERE fetch_status IN ('pending', 'failed');
+
+COMMENT ON COLUMN words.fetch_attempts IS 'Definition lookups tried so far';
+COMMENT ON COLUMN words.next_fetch_at IS 'Earliest time to retry a pending/failed definition lookup';
@@ -0,0 +1,80 @@
+-- Multiple senses per word
+-- Run this migration after 20231120000001_definition_retries.sql
+--
+-- Dictionaries return many senses (part of speech, definition, example) per
+-- word. All of them are kept, and each user picks the sense they're learning;
+-- that sense drives the crossword clue and hints.
+
+ALTER TABLE word_definitions
+ADD COLUMN IF NOT EXISTS senses JSONB;
+
+ALTER TABLE words
+ADD COLUMN IF NOT EXISTS senses JSONB,
+ADD COLUMN IF NOT EXISTS primary_sense INTEGER NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN word_definitions.senses IS 'All senses: [{part_of_speech, definition, example}], first = definition';
+COMMENT ON COLUMN words.senses IS 'Senses copied from the definition lookup';
+COMMENT ON COLUMN words.primary_sense IS 'Index into senses of the sense the user is learning';
+
+-- Same function with a p_senses parameter (the signature changes, so drop the old one)
+DROP FUNCTION IF EXISTS cache_word_definition(TEXT, TEXT, TEXT, TEXT, TEXT, TEXT[], TEXT[], TEXT);
+
+CREATE OR REPLACE FUNCTION cache_word_definition(
+    p_word TEXT,
+    p_definition TEXT,
+    p_part_of_speech TEXT DEFAULT NULL,
+    p_pronunciation TEXT DEFAULT NULL,
+    p_usage_example TEXT DEFAULT NULL,
+    p_synonyms TEXT[] DEFAULT NULL,
+    p_antonyms TEXT[] DEFAULT NULL,
+    p_source TEXT DEFAULT NULL,
+    p_senses JSONB DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+    definition_id INTEGER;
+BEGIN
+    IF TRIM(COALESCE(p_word, '')) = '' OR TRIM(COALESCE(p_definition, '')) = '' THEN
+        RAISE EXCEPTION 'word and definition are required';
+    END IF;
+
+    SELECT id INTO definition_id
+    FROM word_definitions
+    WHERE word_lower = LOWER(TRIM(p_word))
+    ORDER BY id
+    LIMIT 1;
+
+    IF definition_id IS NOT NULL THEN
+        -- Rows cached before senses were stored get them from the next lookup
+        UPDATE word_definitions
+        SET senses = p_senses
+        WHERE id = definition_id AND senses IS NULL AND p_senses IS NOT NULL;
+
+        RETURN definition_id;
+    END IF;
+
+    INSERT INTO word_definitions (
+        word, word_lower, definition, part_of_speech, pronunciation,
+        usage_example, synonyms, antonyms, source, senses
+    )
+    VALUES (
+        TRIM(p_word),
+        LOWER(TRIM(p_word)),
+        p_definition,
+        LEFT(p_part_of_speech, 50),
+        LEFT(p_pronunciation, 255),
+        p_usage_example,
+        p_synonyms,
+        p_antonyms,
+        LEFT(p_source, 255),
+        p_senses
+    )
+    ON CONFLICT (word) DO UPDATE SET word = EXCLUDED.word
+    RETURNING id INTO definition_id;
+
+    RETURN definition_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION cache_word_definition FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION cache_word_definition TO authenticated, service_role;
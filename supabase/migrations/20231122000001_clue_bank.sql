@@ -0,0 +1,78 @@
+-- Clue bank usage and solve outcomes
+-- Run this migration after 20231121000001_word_senses.sql
+--
+-- Puzzles pick one of a word's clues by difficulty and past performance.
+-- usage_count counts puzzles a clue was used in; success_rate (percent) and
+-- average_solve_time (seconds) are recomputed from clue_outcomes, one row per
+-- graded attempt, so grading the same attempt twice changes nothing.
+
+CREATE TABLE clue_outcomes (
+    id SERIAL PRIMARY KEY,
+    clue_id INTEGER NOT NULL REFERENCES clues(id) ON DELETE CASCADE,
+    puzzle_attempt_id INTEGER NOT NULL REFERENCES puzzle_attempts(id) ON DELETE CASCADE,
+    solved BOOLEAN NOT NULL,
+    solve_time_seconds INTEGER,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT unique_clue_attempt UNIQUE (clue_id, puzzle_attempt_id)
+);
+
+CREATE INDEX idx_clue_outcomes_clue_id ON clue_outcomes(clue_id);
+
+-- Written only through record_clue_outcome
+ALTER TABLE clue_outcomes ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON COLUMN puzzle_attempts.word_results IS 'Latest check result per word, keyed "<number>-<direction>": { correct, checks, wrong_checks, solve_seconds }';
+
+CREATE OR REPLACE FUNCTION record_clue_usage(p_clue_ids INTEGER[])
+RETURNS VOID AS $$
+BEGIN
+    UPDATE clues
+    SET usage_count = COALESCE(usage_count, 0) + 1
+    WHERE id = ANY(p_clue_ids);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION record_clue_outcome(
+    p_clue_id INTEGER,
+    p_attempt_id INTEGER,
+    p_solved BOOLEAN,
+    p_solve_time_seconds INTEGER DEFAULT NULL
+)
+RETURNS VOID AS $$
+BEGIN
+    -- Only the player's own completed attempts count
+    IF NOT EXISTS (
+        SELECT 1 FROM puzzle_attempts
+        WHERE id = p_attempt_id AND user_id = auth.uid() AND completed
+    ) THEN
+        RAISE EXCEPTION 'Attempt % is not a completed attempt of this user', p_attempt_id;
+    END IF;
+
+    INSERT INTO clue_outcomes (clue_id, puzzle_attempt_id, solved, solve_time_seconds)
+    VALUES (p_clue_id, p_attempt_id, p_solved, p_solve_time_seconds)
+    ON CONFLICT (clue_id, puzzle_attempt_id) DO NOTHING;
+
+    IF NOT FOUND THEN
+        RETURN;
+    END IF;
+
+    UPDATE clues
+    SET
+        success_rate = stats.success_rate,
+        average_solve_time = stats.average_solve_time
+    FROM (
+        SELECT
+            ROUND(100.0 * COUNT(*) FILTER (WHERE solved) / COUNT(*), 2) AS success_rate,
+            ROUND(AVG(solve_time_seconds) FILTER (WHERE solved))::INTEGER AS average_solve_time
+        FROM clue_outcomes
+        WHERE clue_id = p_clue_id
+    ) AS stats
+    WHERE clues.id = p_clue_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION record_clue_usage FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION record_clue_usage TO authenticated, service_role;
+
+REVOKE EXECUTE ON FUNCTION record_clue_outcome FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION record_clue_outcome TO authenticated, service_role;
@@ -0,0 +1,37 @@
+-- Clue variants derived from definition data
+-- Run this migration after 20231122000001_clue_bank.sql
+--
+-- Words without clues in the bank get variants built from their definition
+-- (definition, fill_in_blank, synonym, antonym, part_of_speech), stored with
+-- their clue_type. The clues table is read-only for users, so they are added
+-- through this function.
+
+CREATE OR REPLACE FUNCTION add_derived_clues(
+    p_word_definition_id INTEGER,
+    p_clues JSONB
+)
+RETURNS SETOF clues AS $$
+BEGIN
+    INSERT INTO clues (word_definition_id, clue_text, difficulty_level, clue_type, source)
+    SELECT
+        p_word_definition_id,
+        TRIM(c->>'clue_text'),
+        LEAST(GREATEST((c->>'difficulty_level')::INTEGER, 1), 10),
+        LEFT(c->>'clue_type', 50),
+        'derived'
+    FROM jsonb_array_elements(p_clues) AS c
+    WHERE LENGTH(TRIM(COALESCE(c->>'clue_text', ''))) BETWEEN 1 AND 200
+      AND NOT EXISTS (
+          SELECT 1 FROM clues
+          WHERE word_definition_id = p_word_definition_id
+            AND clue_text = TRIM(c->>'clue_text')
+      )
+    LIMIT 10;
+
+    RETURN QUERY
+    SELECT * FROM clues WHERE word_definition_id = p_word_definition_id ORDER BY id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION add_derived_clues FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION add_derived_clues TO authenticated, service_role;
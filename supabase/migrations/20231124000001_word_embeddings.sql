@@ -0,0 +1,42 @@
+-- Definition embeddings and themed puzzles
+-- Run this migration after 20231123000001_derived_clues.sql
+--
+-- The embed-definitions function fills word_embeddings, one vector per
+-- definition, tagged with the model that computed it (vectors of different
+-- models can't be compared). Themed puzzles group related user words by
+-- these vectors and store the theme's name.
+
+ALTER TABLE word_embeddings
+ADD COLUMN IF NOT EXISTS model VARCHAR(100);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_word_embeddings_definition
+    ON word_embeddings(word_definition_id);
+
+COMMENT ON COLUMN word_embeddings.model IS 'Embedder that computed the vector, e.g. text-embedding-ada-002 or local-hash-1536';
+
+-- Readable like word_definitions; written by embed-definitions (service role)
+ALTER TABLE word_embeddings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Word embeddings are viewable by everyone"
+    ON word_embeddings FOR SELECT
+    USING (true);
+
+ALTER TABLE puzzles
+ADD COLUMN IF NOT EXISTS theme VARCHAR(100);
+
+COMMENT ON COLUMN puzzles.theme IS 'Name of the theme of a themed puzzle';
+
+-- Definitions with no embedding from the given model yet
+CREATE OR REPLACE FUNCTION definitions_missing_embeddings(p_model TEXT, p_limit INTEGER DEFAULT 100)
+RETURNS SETOF word_definitions AS $$
+    SELECT d.*
+    FROM word_definitions d
+    LEFT JOIN word_embeddings e
+        ON e.word_definition_id = d.id AND e.model = p_model
+    WHERE e.id IS NULL
+    ORDER BY d.id
+    LIMIT p_limit;
+$$ LANGUAGE sql STABLE;
+
+REVOKE EXECUTE ON FUNCTION definitions_missing_embeddings FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION definitions_missing_embeddings TO service_role;
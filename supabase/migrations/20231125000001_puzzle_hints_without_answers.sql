@@ -0,0 +1,9 @@
+-- Keep answers out of puzzle_hints
+-- Run this migration after 20231124000001_word_embeddings.sql
+--
+-- Users can read their own hint rows, so the answer stored with each hint
+-- gave away the solution. Hints are keyed by clue number and direction and
+-- generate-hint reads the answer from the puzzle, so the column is dropped.
+
+ALTER TABLE puzzle_hints
+DROP COLUMN IF EXISTS answer;
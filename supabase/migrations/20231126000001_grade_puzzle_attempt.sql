@@ -0,0 +1,99 @@
+-- Grade a completed puzzle attempt in one transaction
+-- Run this migration after 20231125000001_puzzle_hints_without_answers.sql
+--
+-- update-learning-progress computes each word's review schedule and saves
+-- all grades through grade_puzzle_attempt: learning_progress, the
+-- word_interactions row and the word are written together or not at all.
+-- The attempt row is locked while grading and an attempt with interactions
+-- is not graded again, so a retried or duplicate call counts nothing twice.
+-- Runs as the caller, so the usual row level security applies.
+
+CREATE OR REPLACE FUNCTION grade_puzzle_attempt(p_attempt_id INTEGER, p_grades JSONB)
+RETURNS BOOLEAN AS $$
+DECLARE
+    v_user_id UUID;
+    v_grade JSONB;
+    v_correct BOOLEAN;
+    v_reviewed_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+    -- Concurrent calls for the same attempt wait here for each other
+    SELECT user_id INTO v_user_id
+    FROM puzzle_attempts
+    WHERE id = p_attempt_id AND user_id = auth.uid() AND completed
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Attempt % is not a completed attempt of this user', p_attempt_id;
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM word_interactions WHERE puzzle_attempt_id = p_attempt_id) THEN
+        RETURN FALSE;
+    END IF;
+
+    FOR v_grade IN SELECT * FROM jsonb_array_elements(p_grades) LOOP
+        v_correct := (v_grade->>'was_correct')::BOOLEAN;
+        v_reviewed_at := (v_grade->>'last_review_at')::TIMESTAMP WITH TIME ZONE;
+
+        INSERT INTO learning_progress (
+            user_id, word_id, easiness_factor, interval_days, repetitions, stage,
+            next_review_at, last_review_at, correct_count, incorrect_count, total_exposures
+        )
+        VALUES (
+            v_user_id,
+            (v_grade->>'word_id')::INTEGER,
+            (v_grade->>'easiness_factor')::DECIMAL,
+            (v_grade->>'interval_days')::INTEGER,
+            (v_grade->>'repetitions')::INTEGER,
+            v_grade->>'stage',
+            (v_grade->>'next_review_at')::TIMESTAMP WITH TIME ZONE,
+            v_reviewed_at,
+            CASE WHEN v_correct THEN 1 ELSE 0 END,
+            CASE WHEN v_correct THEN 0 ELSE 1 END,
+            1
+        )
+        ON CONFLICT (user_id, word_id) DO UPDATE SET
+            easiness_factor = EXCLUDED.easiness_factor,
+            interval_days = EXCLUDED.interval_days,
+            repetitions = EXCLUDED.repetitions,
+            stage = EXCLUDED.stage,
+            next_review_at = EXCLUDED.next_review_at,
+            last_review_at = EXCLUDED.last_review_at,
+            correct_count = COALESCE(learning_progress.correct_count, 0) + EXCLUDED.correct_count,
+            incorrect_count = COALESCE(learning_progress.incorrect_count, 0) + EXCLUDED.incorrect_count,
+            total_exposures = COALESCE(learning_progress.total_exposures, 0) + 1;
+
+        INSERT INTO word_interactions (
+            user_id, word_id, puzzle_attempt_id, interaction_type, clue_used, was_correct, attempts_count
+        )
+        VALUES (
+            v_user_id,
+            (v_grade->>'word_id')::INTEGER,
+            p_attempt_id,
+            v_grade->>'interaction_type',
+            v_grade->>'clue_used',
+            v_correct,
+            (v_grade->>'attempts_count')::INTEGER
+        );
+
+        -- Promote the word once it reaches the mastered stage
+        UPDATE words
+        SET
+            mastery_level = (v_grade->>'mastery_level')::INTEGER,
+            last_reviewed_at = v_reviewed_at,
+            status = CASE
+                WHEN v_grade->>'stage' = 'mastered' AND status = 'learning' THEN 'mastered'
+                ELSE status
+            END,
+            mastered_at = CASE
+                WHEN v_grade->>'stage' = 'mastered' AND status = 'learning' THEN v_reviewed_at
+                ELSE mastered_at
+            END
+        WHERE id = (v_grade->>'word_id')::INTEGER AND user_id = v_user_id;
+    END LOOP;
+
+    RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION grade_puzzle_attempt FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION grade_puzzle_attempt TO authenticated;
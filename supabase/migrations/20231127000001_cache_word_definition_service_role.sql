@@ -0,0 +1,16 @@
+-- Only the server writes the shared word_definitions table
+-- Run this migration after 20231126000001_grade_puzzle_attempt.sql
+--
+-- cache_word_definition stored whatever definition the caller passed, and
+-- never replaced a cached word, so any user could plant a definition for a
+-- word before anyone else looked it up. Definitions are now looked up and
+-- saved on the server (the lookup-definition edge function, the definition
+-- retries and puzzle generation, all with the service role); the app only
+-- reads the table. The function runs as its caller with a fixed search_path.
+
+ALTER FUNCTION cache_word_definition(TEXT, TEXT, TEXT, TEXT, TEXT, TEXT[], TEXT[], TEXT, JSONB)
+    SECURITY INVOKER
+    SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION cache_word_definition FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION cache_word_definition TO service_role;
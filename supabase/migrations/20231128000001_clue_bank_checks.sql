@@ -0,0 +1,61 @@
+-- Clue statistics only from puzzles the clues were used in
+-- Run this migration after 20231127000001_cache_word_definition_service_role.sql
+--
+-- record_clue_usage and record_clue_outcome write the shared clues table, so
+-- any signed-in user could change the usage count and success rate of any
+-- clue. Usage is now counted by generate-puzzle with the service role, and an
+-- outcome is only recorded for a clue of the attempt's own puzzle. Both
+-- functions run with a fixed search_path.
+
+ALTER FUNCTION record_clue_usage(INTEGER[])
+    SECURITY INVOKER
+    SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION record_clue_usage FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_clue_usage TO service_role;
+
+CREATE OR REPLACE FUNCTION record_clue_outcome(
+    p_clue_id INTEGER,
+    p_attempt_id INTEGER,
+    p_solved BOOLEAN,
+    p_solve_time_seconds INTEGER DEFAULT NULL
+)
+RETURNS VOID AS $$
+BEGIN
+    -- Only clues of the player's own completed attempts count
+    IF NOT EXISTS (
+        SELECT 1
+        FROM puzzle_attempts a
+        JOIN puzzles p ON p.id = a.puzzle_id
+        WHERE a.id = p_attempt_id AND a.user_id = auth.uid() AND a.completed
+          AND EXISTS (
+              SELECT 1
+              FROM jsonb_array_elements(p.clues_across || p.clues_down) AS c
+              WHERE (c->>'clue_id')::INTEGER = p_clue_id
+          )
+    ) THEN
+        RAISE EXCEPTION 'Clue % is not in a completed attempt % of this user', p_clue_id, p_attempt_id;
+    END IF;
+
+    INSERT INTO clue_outcomes (clue_id, puzzle_attempt_id, solved, solve_time_seconds)
+    VALUES (p_clue_id, p_attempt_id, p_solved, p_solve_time_seconds)
+    ON CONFLICT (clue_id, puzzle_attempt_id) DO NOTHING;
+
+    IF NOT FOUND THEN
+        RETURN;
+    END IF;
+
+    UPDATE clues
+    SET
+        success_rate = stats.success_rate,
+        average_solve_time = stats.average_solve_time
+    FROM (
+        SELECT
+            ROUND(100.0 * COUNT(*) FILTER (WHERE solved) / COUNT(*), 2) AS success_rate,
+            ROUND(AVG(solve_time_seconds) FILTER (WHERE solved))::INTEGER AS average_solve_time
+        FROM clue_outcomes
+        WHERE clue_id = p_clue_id
+    ) AS stats
+    WHERE clues.id = p_clue_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,14 @@
+-- Only the server adds derived clues
+-- Run this migration after 20231128000001_clue_bank_checks.sql
+--
+-- add_derived_clues took the clue texts from its caller, so any signed-in
+-- user could add clues to any word for everyone. generate-puzzle derives the
+-- clues from the stored definition and adds them with the service role. The
+-- function runs as its caller with a fixed search_path.
+
+ALTER FUNCTION add_derived_clues(INTEGER, JSONB)
+    SECURITY INVOKER
+    SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION add_derived_clues FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION add_derived_clues TO service_role;
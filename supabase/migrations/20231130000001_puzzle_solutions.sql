@@ -0,0 +1,64 @@
+-- Keep puzzle answers on the server
+-- Run this migration after 20231129000001_derived_clues_service_role.sql
+--
+-- Users could read the answers of their own puzzles (each clue's answer, the
+-- grid letters and the answer lists) and update the clues check-answer grades
+-- against. The answers move to puzzle_solutions, which only the service role
+-- can read; puzzle rows keep the clues without answers and a blank grid.
+-- generate-puzzle saves both with the service role, and users may only change
+-- a puzzle's status.
+
+CREATE TABLE puzzle_solutions (
+    puzzle_id INTEGER PRIMARY KEY REFERENCES puzzles(id) ON DELETE CASCADE,
+    grid JSONB NOT NULL,
+    clues_across JSONB NOT NULL,
+    clues_down JSONB NOT NULL,
+    user_words TEXT[],
+    filler_words TEXT[],
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+COMMENT ON TABLE puzzle_solutions IS 'Answers of each puzzle (clues with answers, grid letters); service role only';
+
+-- No policies: row level security hides every row from users
+ALTER TABLE puzzle_solutions ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON puzzle_solutions FROM PUBLIC, anon, authenticated;
+GRANT ALL ON puzzle_solutions TO service_role;
+
+INSERT INTO puzzle_solutions (puzzle_id, grid, clues_across, clues_down, user_words, filler_words)
+SELECT id, COALESCE(grid_data->'grid', '[]'::jsonb), clues_across, clues_down, user_words, filler_words
+FROM puzzles;
+
+-- Same as withoutAnswers in _shared/puzzleAnswers.ts: white squares become
+-- '' (black squares stay null), clues lose answer and user_word
+UPDATE puzzles
+SET
+    grid_data = CASE
+        WHEN jsonb_typeof(grid_data->'grid') = 'array' THEN jsonb_set(grid_data, '{grid}', COALESCE((
+            SELECT jsonb_agg((
+                SELECT COALESCE(
+                    jsonb_agg(CASE WHEN cell = 'null'::jsonb THEN cell ELSE '""'::jsonb END ORDER BY c),
+                    '[]'::jsonb
+                )
+                FROM jsonb_array_elements(grid_row) WITH ORDINALITY AS cells(cell, c)
+            ) ORDER BY r)
+            FROM jsonb_array_elements(grid_data->'grid') WITH ORDINALITY AS grid_rows(grid_row, r)
+        ), '[]'::jsonb))
+        ELSE grid_data
+    END,
+    clues_across = COALESCE((
+        SELECT jsonb_agg(clue - 'answer' - 'user_word' ORDER BY i)
+        FROM jsonb_array_elements(clues_across) WITH ORDINALITY AS clues(clue, i)
+    ), '[]'::jsonb),
+    clues_down = COALESCE((
+        SELECT jsonb_agg(clue - 'answer' - 'user_word' ORDER BY i)
+        FROM jsonb_array_elements(clues_down) WITH ORDINALITY AS clues(clue, i)
+    ), '[]'::jsonb),
+    user_words = NULL,
+    filler_words = NULL;
+
+-- Only generate-puzzle creates puzzles, and the clues and grid are fixed
+DROP POLICY IF EXISTS "Users can insert their own puzzles" ON puzzles;
+
+REVOKE INSERT, UPDATE ON puzzles FROM anon, authenticated;
+GRANT UPDATE (status) ON puzzles TO authenticated;